@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, History, Search } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ListPagination from "@/components/admin/list-pagination";
+import { auditEntityTypes, type AuditEntry, type Paginated } from "@shared/schema";
+
+const AUDIT_PAGE_SIZE = 50;
+const ALL = "all";
+
+const auditActions = [
+  "create", "update", "delete", "import", "archive", "restore", "purge", "promote",
+  "issue", "return", "renew", "cancel", "expire", "payment", "waiver",
+];
+
+const actionColors: Record<string, string> = {
+  create: "bg-green-100 text-green-800",
+  import: "bg-green-100 text-green-800",
+  delete: "bg-red-100 text-red-800",
+  purge: "bg-red-100 text-red-800",
+  archive: "bg-gray-100 text-gray-800",
+  waiver: "bg-yellow-100 text-yellow-800",
+};
+
+// Start of a date picked in an <input type="date">, in local time; `days`
+// moves it forward, since the server treats `to` as exclusive
+function dayStart(date: string, days = 0) {
+  const start = new Date(`${date}T00:00`);
+  start.setDate(start.getDate() + days);
+  return start.toISOString();
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// Field-by-field view of an entry: old and new values for an update, the
+// record as it was or as created for a delete or create
+function AuditChanges({ entry }: { entry: AuditEntry }) {
+  const before = (entry.before ?? {}) as Record<string, unknown>;
+  const after = (entry.after ?? {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return (
+    <table className="w-full text-sm mt-3">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-1 pr-4 font-medium">Field</th>
+          {entry.before !== null && <th className="py-1 pr-4 font-medium">Before</th>}
+          {entry.after !== null && <th className="py-1 font-medium">After</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {fields.map((field) => (
+          <tr key={field} className="border-t border-gray-100 align-top">
+            <td className="py-1 pr-4 font-mono text-gray-700">{field}</td>
+            {entry.before !== null && <td className="py-1 pr-4 text-red-700 break-all">{formatValue(before[field])}</td>}
+            {entry.after !== null && <td className="py-1 text-green-700 break-all">{formatValue(after[field])}</td>}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function AuditTab() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [entityFilter, setEntityFilter] = useState(ALL);
+  const [actionFilter, setActionFilter] = useState(ALL);
+  const [entityIdFilter, setEntityIdFilter] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [page, setPage] = useState(1);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const auditFilters = {
+    q: searchQuery,
+    entityType: entityFilter === ALL ? undefined : entityFilter,
+    entityId: entityIdFilter,
+    action: actionFilter === ALL ? undefined : actionFilter,
+    from: fromDate ? dayStart(fromDate) : undefined,
+    to: toDate ? dayStart(toDate, 1) : undefined,
+  };
+  const { data: auditPage } = useQuery<Paginated<AuditEntry>>({
+    queryKey: ["/api/audit", { page, pageSize: AUDIT_PAGE_SIZE, ...auditFilters }],
+    placeholderData: keepPreviousData,
+  });
+  const entries = auditPage?.items ?? [];
+
+  const changeFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <Card>
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <History className="w-5 h-5 text-gray-600" />
+          <h2 className="text-xl font-semibold text-gray-900">Audit Log</h2>
+        </div>
+      </div>
+
+      <CardContent className="p-6">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-3 mb-6">
+          <div className="relative md:col-span-2">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <Input
+              placeholder="Search staff, IDs or values..."
+              value={searchQuery}
+              onChange={(e) => changeFilter(setSearchQuery)(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <Select
+            value={entityFilter}
+            onValueChange={(value) => {
+              changeFilter(setEntityFilter)(value);
+              setEntityIdFilter("");
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All records</SelectItem>
+              {auditEntityTypes.map((type) => (
+                <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={actionFilter} onValueChange={changeFilter(setActionFilter)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All actions</SelectItem>
+              {auditActions.map((action) => (
+                <SelectItem key={action} value={action} className="capitalize">{action}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={fromDate}
+            onChange={(e) => changeFilter(setFromDate)(e.target.value)}
+            aria-label="From date"
+          />
+          <Input
+            type="date"
+            value={toDate}
+            onChange={(e) => changeFilter(setToDate)(e.target.value)}
+            aria-label="To date"
+          />
+        </div>
+        {entityFilter !== ALL && (
+          <div className="mb-6 max-w-xs">
+            <Input
+              placeholder={`Only ${entityFilter} no. ...`}
+              value={entityIdFilter}
+              onChange={(e) => changeFilter(setEntityIdFilter)(e.target.value)}
+            />
+          </div>
+        )}
+
+        {entries.length > 0 ? (
+          <div className="space-y-2">
+            {entries.map((entry) => (
+              <div key={entry.id} className="border border-gray-200 rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3 text-sm">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                      aria-label="Show changes"
+                    >
+                      {expanded === entry.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </Button>
+                    <Badge className={`capitalize ${actionColors[entry.action] ?? "bg-blue-100 text-blue-800"}`}>{entry.action}</Badge>
+                    <span className="text-gray-900 capitalize">
+                      {entry.entityType}{entry.entityId ? ` #${entry.entityId}` : ""}
+                    </span>
+                    <span className="text-gray-500">by {entry.actorName ?? "public / system"}</span>
+                  </div>
+                  <span className="text-sm text-gray-500">
+                    {entry.createdAt ? new Date(entry.createdAt).toLocaleString() : ""}
+                  </span>
+                </div>
+                {expanded === entry.id && <AuditChanges entry={entry} />}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">No changes match these filters.</div>
+        )}
+
+        {auditPage && (
+          <ListPagination
+            page={auditPage.page}
+            pageSize={auditPage.pageSize}
+            total={auditPage.total}
+            onPageChange={setPage}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import type { BookCopy, InsertBookCopy } from "@shared/schema";
+
+interface BookCopiesPanelProps {
+  bookId: number;
+}
+
+export default function BookCopiesPanel({ bookId }: BookCopiesPanelProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [accessionNo, setAccessionNo] = useState("");
+  const [shelfLocation, setShelfLocation] = useState("");
+  const [acquisitionDate, setAcquisitionDate] = useState("");
+
+  const { data: copies = [] } = useQuery<BookCopy[]>({
+    queryKey: ["/api/books", bookId, "copies"],
+  });
+
+  const createCopy = useMutation({
+    mutationFn: async (data: InsertBookCopy) => {
+      const response = await apiRequest("POST", `/api/books/${bookId}/copies`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+      toast({
+        title: "Success",
+        description: "Copy added successfully!",
+      });
+      setAccessionNo("");
+      setShelfLocation("");
+      setAcquisitionDate("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to add copy. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteCopy = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/copies/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+      toast({
+        title: "Success",
+        description: "Copy removed successfully!",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to remove copy. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddCopy = () => {
+    createCopy.mutate({
+      accessionNo: accessionNo.trim() || undefined,
+      shelfLocation: shelfLocation.trim() || null,
+      acquisitionDate: acquisitionDate ? new Date(acquisitionDate) : new Date(),
+    });
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "available":
+        return "bg-green-100 text-green-800";
+      case "issued":
+        return "bg-red-100 text-red-800";
+      case "reserved":
+        return "bg-yellow-100 text-yellow-800";
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3">
+      <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-700">
+        <div className="col-span-3">Accession No.</div>
+        <div className="col-span-3">Shelf</div>
+        <div className="col-span-3">Acquired</div>
+        <div className="col-span-2">Status</div>
+        <div className="col-span-1"></div>
+      </div>
+
+      {copies.map((copy) => (
+        <div key={copy.id} className="grid grid-cols-12 gap-2 items-center text-sm">
+          <div className="col-span-3 font-mono">{copy.accessionNo}</div>
+          <div className="col-span-3 text-gray-600">{copy.shelfLocation || "—"}</div>
+          <div className="col-span-3 text-gray-600">
+            {copy.acquisitionDate ? new Date(copy.acquisitionDate).toLocaleDateString() : "—"}
+          </div>
+          <div className="col-span-2">
+            <Badge className={getStatusColor(copy.status)}>{copy.status}</Badge>
+          </div>
+          <div className="col-span-1 text-right">
+            {can("records:delete") && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteCopy.mutate(copy.id)}
+                disabled={deleteCopy.isPending || copy.status === "issued"}
+              >
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {copies.length === 0 && (
+        <p className="text-sm text-gray-500">No copies recorded for this title.</p>
+      )}
+
+      <div className="grid grid-cols-12 gap-2 pt-2">
+        <Input
+          placeholder="Accession no. (auto)"
+          value={accessionNo}
+          onChange={(e) => setAccessionNo(e.target.value)}
+          className="col-span-3"
+        />
+        <Input
+          placeholder="Shelf location"
+          value={shelfLocation}
+          onChange={(e) => setShelfLocation(e.target.value)}
+          className="col-span-3"
+        />
+        <Input
+          type="date"
+          value={acquisitionDate}
+          onChange={(e) => setAcquisitionDate(e.target.value)}
+          className="col-span-3"
+        />
+        <Button
+          size="sm"
+          onClick={handleAddCopy}
+          disabled={createCopy.isPending}
+          className="col-span-3"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Copy
+        </Button>
+      </div>
+    </div>
+  );
+}
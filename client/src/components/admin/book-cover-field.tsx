@@ -0,0 +1,101 @@
+import { useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ImagePlus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { coverUrl } from "@/lib/covers";
+import type { Book } from "@shared/schema";
+
+interface BookCoverFieldProps {
+  bookId: number;
+  coverImage: string | null;
+  onChange: (coverImage: string | null) => void;
+}
+
+// Cover upload for the book edit form. Changes are saved straight away,
+// separately from the form's other fields.
+export default function BookCoverField({ bookId, coverImage, onChange }: BookCoverFieldProps) {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const onSaved = (book: Book, message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+    onChange(book.coverImage);
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  const onFailed = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const uploadCover = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("cover", file);
+      const response = await apiRequest("PUT", `/api/books/${bookId}/cover`, formData);
+      return response.json() as Promise<Book>;
+    },
+    onSuccess: (book) => onSaved(book, "Cover image saved."),
+    onError: (error) => onFailed(error, "Failed to upload cover. Please try again."),
+  });
+
+  const removeCover = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/books/${bookId}/cover`);
+      return response.json() as Promise<Book>;
+    },
+    onSuccess: (book) => onSaved(book, "Cover image removed."),
+    onError: (error) => onFailed(error, "Failed to remove cover. Please try again."),
+  });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) uploadCover.mutate(file);
+  };
+
+  const busy = uploadCover.isPending || removeCover.isPending;
+
+  return (
+    <div className="flex items-center space-x-4">
+      <div className="w-16 h-24 bg-gray-100 rounded border flex items-center justify-center overflow-hidden">
+        {coverImage ? (
+          <img src={coverUrl(coverImage, "thumb")} alt="Cover" className="w-full h-full object-cover" />
+        ) : (
+          <span className="text-2xl">📚</span>
+        )}
+      </div>
+      <div className="space-y-2">
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/jpeg,image/png,image/webp,image/gif,image/avif,image/tiff"
+          className="hidden"
+          onChange={handleFile}
+        />
+        <div className="flex items-center space-x-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={busy}>
+            <ImagePlus className="w-4 h-4 mr-2" />
+            {uploadCover.isPending ? "Uploading..." : coverImage ? "Replace Cover" : "Upload Cover"}
+          </Button>
+          {coverImage && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => removeCover.mutate()} disabled={busy}>
+              <Trash2 className="w-4 h-4 mr-2 text-red-500" />
+              Remove
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">JPEG, PNG, WebP, GIF, AVIF or TIFF, up to 5 MB</p>
+      </div>
+    </div>
+  );
+}
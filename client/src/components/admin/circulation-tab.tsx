@@ -7,21 +7,28 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import ExportMenu from "@/components/export-menu";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
-import type { Book, Member } from "@shared/schema";
+import type {
+  BookCopy, BookWithAvailability, CirculationResult, IssuedBook, Member, ReservationWithDetails, ResolvedCirculationPolicy
+} from "@shared/schema";
 
 export default function CirculationTab() {
   const { toast } = useToast();
-  const [activeTab, setActiveTab] = useState<"available" | "issued" | "overdue">("available");
+  const [activeTab, setActiveTab] = useState<"available" | "issued" | "overdue" | "holds">("available");
   const [searchQuery, setSearchQuery] = useState("");
   const [showIssueModal, setShowIssueModal] = useState(false);
-  const [selectedBook, setSelectedBook] = useState<Book | null>(null);
+  const [selectedBook, setSelectedBook] = useState<BookWithAvailability | null>(null);
+  const [selectedCopyId, setSelectedCopyId] = useState<string>("any");
   const [selectedMemberId, setSelectedMemberId] = useState<string>("");
   const [memberSearchQuery, setMemberSearchQuery] = useState("");
+  const [showHoldModal, setShowHoldModal] = useState(false);
+  const [holdBookId, setHoldBookId] = useState<string>("");
+  const [holdMemberId, setHoldMemberId] = useState<string>("");
 
-  const { data: books = [] } = useQuery<Book[]>({
+  const { data: books = [] } = useQuery<BookWithAvailability[]>({
     queryKey: ["/api/books"],
   });
 
@@ -29,116 +36,158 @@ export default function CirculationTab() {
     queryKey: ["/api/members"],
   });
 
-  const { data: issuedBooks = [] } = useQuery<{ book: Book; member: Member; dueDate: Date | null }[]>({
+  const { data: issuedBooks = [] } = useQuery<IssuedBook[]>({
     queryKey: ["/api/analytics/issued-books"],
   });
 
-  const availableBooks = books.filter(book => book.status === "available");
+  const { data: selectedBookCopies = [] } = useQuery<BookCopy[]>({
+    queryKey: ["/api/books", selectedBook?.id, "copies"],
+    enabled: !!selectedBook,
+  });
+
+  const { data: reservations = [] } = useQuery<ReservationWithDetails[]>({
+    queryKey: ["/api/reservations"],
+  });
+
+  const { data: issuePolicy } = useQuery<ResolvedCirculationPolicy>({
+    queryKey: [`/api/circulation-policies/resolve?memberId=${selectedMemberId}&bookId=${selectedBook?.id}`],
+    enabled: !!selectedBook && !!selectedMemberId,
+  });
+
+  const availableBooks = books.filter(book => book.availableCopies > 0);
+  const unavailableBooks = books.filter(book => book.totalCopies > 0 && book.availableCopies === 0);
+  const availableCopies = selectedBookCopies.filter(copy => copy.status === "available");
   const overdueBooks = issuedBooks.filter(item => 
     item.dueDate && new Date(item.dueDate) < new Date()
   );
 
   const issueBook = useMutation({
-    mutationFn: async ({ bookId, memberId }: { bookId: number; memberId: number }) => {
-      const circulationData = {
-        bookId,
-        memberId,
-        action: "borrow",
-      };
-      
-      // Create circulation record first
-      const circulationResponse = await apiRequest("POST", "/api/circulation", circulationData);
-      const circulationRecord = await circulationResponse.json();
-      
-      // Set due date to 14 days from now and update the record
-      const dueDate = new Date();
-      dueDate.setDate(dueDate.getDate() + 14);
-      
-      await apiRequest("PUT", `/api/circulation/${circulationRecord.id}`, { 
-        dueDate: dueDate.toISOString() 
-      });
-      
-      // Update book status to issued
-      await apiRequest("PUT", `/api/books/${bookId}`, { status: "issued" });
+    mutationFn: async (data: { bookId: number; copyId?: number; memberId: number }) => {
+      const response = await apiRequest("POST", "/api/circulation/issue", data);
+      return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/books"] });
       queryClient.invalidateQueries({ queryKey: ["/api/analytics/issued-books"] });
       queryClient.invalidateQueries({ queryKey: ["/api/circulation"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
       toast({
         title: "Success",
         description: "Book issued successfully!",
       });
       setShowIssueModal(false);
       setSelectedBook(null);
+      setSelectedCopyId("any");
       setSelectedMemberId("");
       setMemberSearchQuery("");
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to issue book. Please try again.",
+        description: getApiErrorMessage(error, "Failed to issue book. Please try again."),
         variant: "destructive",
       });
     },
   });
 
   const returnBook = useMutation({
-    mutationFn: async ({ bookId }: { bookId: number }) => {
-      // Find the active borrow record for this book
-      const activeRecordsResponse = await apiRequest("GET", "/api/circulation/active");
-      const activeRecords = await activeRecordsResponse.json();
-      const activeBorrowRecord = activeRecords.find((record: any) => 
-        record.bookId === bookId && record.action === "borrow"
-      );
-      
-      if (activeBorrowRecord) {
-        // Update the active borrow record to "returned" status and add return date
-        await apiRequest("PUT", `/api/circulation/${activeBorrowRecord.id}`, { 
-          status: "returned",
-          returnDate: new Date().toISOString()
-        });
-        
-        // Create return circulation record for history
-        const circulationData = {
-          bookId,
-          memberId: activeBorrowRecord.memberId,
-          action: "return",
-        };
-        
-        const returnResponse = await apiRequest("POST", "/api/circulation", circulationData);
-        const returnRecord = await returnResponse.json();
-        
-        // Update the return record to "returned" status immediately
-        await apiRequest("PUT", `/api/circulation/${returnRecord.id}`, { 
-          status: "returned",
-          returnDate: new Date().toISOString()
-        });
-      }
-      
-      // Update book status to available
-      await apiRequest("PUT", `/api/books/${bookId}`, { status: "available" });
+    mutationFn: async (data: { copyId?: number; bookId: number }) => {
+      const response = await apiRequest("POST", "/api/circulation/return", data);
+      return response.json() as Promise<CirculationResult>;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/books"] });
       queryClient.invalidateQueries({ queryKey: ["/api/analytics/issued-books"] });
       queryClient.invalidateQueries({ queryKey: ["/api/circulation"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/fines/balances"] });
+      toast({
+        title: "Success",
+        description: result.fine
+          ? `Book returned ${result.fine.daysOverdue} day(s) late. A fine of ₹${result.fine.amount} has been recorded.`
+          : "Book returned successfully!",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to return book. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renewLoan = useMutation({
+    mutationFn: async (circulationId: number) => {
+      const response = await apiRequest("POST", `/api/circulation/${circulationId}/renew`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/issued-books"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/circulation"] });
+      toast({
+        title: "Success",
+        description: "Loan renewed successfully!",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to renew loan. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const placeHold = useMutation({
+    mutationFn: async (data: { bookId: number; memberId: number }) => {
+      const response = await apiRequest("POST", "/api/reservations", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
+      toast({
+        title: "Success",
+        description: "Hold placed successfully!",
+      });
+      setShowHoldModal(false);
+      setHoldBookId("");
+      setHoldMemberId("");
+      setMemberSearchQuery("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to place hold. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelHold = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/reservations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/books"] });
       toast({
         title: "Success",
-        description: "Book returned successfully!",
+        description: "Hold cancelled successfully!",
       });
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to return book. Please try again.",
+        description: getApiErrorMessage(error, "Failed to cancel hold. Please try again."),
         variant: "destructive",
       });
     },
   });
 
-  const handleIssueBook = (book: Book) => {
+  const handleIssueBook = (book: BookWithAvailability) => {
     setSelectedBook(book);
+    setSelectedCopyId("any");
     setShowIssueModal(true);
   };
 
@@ -146,13 +195,31 @@ export default function CirculationTab() {
     if (selectedBook && selectedMemberId) {
       issueBook.mutate({
         bookId: selectedBook.id,
+        copyId: selectedCopyId === "any" ? undefined : parseInt(selectedCopyId),
         memberId: parseInt(selectedMemberId),
       });
     }
   };
 
-  const handleReturnBook = (bookId: number) => {
-    returnBook.mutate({ bookId });
+  const handleConfirmHold = () => {
+    if (holdBookId && holdMemberId) {
+      placeHold.mutate({
+        bookId: parseInt(holdBookId),
+        memberId: parseInt(holdMemberId),
+      });
+    }
+  };
+
+  const handleIssueHold = (reservation: ReservationWithDetails) => {
+    issueBook.mutate({
+      bookId: reservation.bookId,
+      copyId: reservation.copyId ?? undefined,
+      memberId: reservation.memberId,
+    });
+  };
+
+  const handleReturnBook = (item: IssuedBook) => {
+    returnBook.mutate({ copyId: item.copy?.id, bookId: item.book.id });
   };
 
   const getTabCount = (tab: string) => {
@@ -163,6 +230,8 @@ export default function CirculationTab() {
         return issuedBooks.length;
       case "overdue":
         return overdueBooks.length;
+      case "holds":
+        return reservations.length;
       default:
         return 0;
     }
@@ -190,6 +259,13 @@ export default function CirculationTab() {
           item.book.author.toLowerCase().includes(searchQuery.toLowerCase()) ||
           item.member.fullName.toLowerCase().includes(searchQuery.toLowerCase())
         );
+      case "holds":
+        return reservations.filter(item => 
+          searchQuery === "" || 
+          item.book.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+          item.book.author.toLowerCase().includes(searchQuery.toLowerCase()) ||
+          item.member.fullName.toLowerCase().includes(searchQuery.toLowerCase())
+        );
       default:
         return [];
     }
@@ -225,6 +301,18 @@ export default function CirculationTab() {
           >
             Overdue ({getTabCount("overdue")})
           </Button>
+          <Button
+            variant={activeTab === "holds" ? "default" : "outline"}
+            onClick={() => setActiveTab("holds")}
+            className="text-sm"
+          >
+            Holds ({getTabCount("holds")})
+          </Button>
+          {activeTab === "overdue" && (
+            <div className="ml-auto">
+              <ExportMenu path="/api/export/overdue" />
+            </div>
+          )}
         </div>
 
         {/* Search */}
@@ -246,7 +334,7 @@ export default function CirculationTab() {
             <>
               {getDisplayData().length > 0 ? (
                 <div className="grid gap-4">
-                  {(getDisplayData() as Book[]).map((book) => (
+                  {(getDisplayData() as BookWithAvailability[]).map((book) => (
                     <div key={book.id} className="flex items-center justify-between p-4 border rounded-lg">
                       <div>
                         <h3 className="font-medium text-gray-900">{book.title}</h3>
@@ -254,7 +342,9 @@ export default function CirculationTab() {
                         <p className="text-xs text-gray-500">{book.category}</p>
                       </div>
                       <div className="flex items-center space-x-2">
-                        <Badge className="bg-green-100 text-green-800">Available</Badge>
+                        <Badge className="bg-green-100 text-green-800">
+                          {book.availableCopies} of {book.totalCopies} available
+                        </Badge>
                         <Button 
                           size="sm" 
                           onClick={() => handleIssueBook(book)}
@@ -279,12 +369,15 @@ export default function CirculationTab() {
             <>
               {getDisplayData().length > 0 ? (
                 <div className="grid gap-4">
-                  {(getDisplayData() as { book: Book; member: Member; dueDate: Date | null }[]).map((item, index) => (
-                    <div key={`issued-${item.book.id}-${item.member.id}-${index}`} className="flex items-center justify-between p-4 border rounded-lg">
+                  {(getDisplayData() as IssuedBook[]).map((item) => (
+                    <div key={`issued-${item.circulationId}`} className="flex items-center justify-between p-4 border rounded-lg">
                       <div>
                         <h3 className="font-medium text-gray-900">{item.book.title}</h3>
                         <p className="text-sm text-gray-600">{item.book.author}</p>
-                        <p className="text-xs text-gray-500">Borrowed by {item.member.fullName}</p>
+                        <p className="text-xs text-gray-500">
+                          Borrowed by {item.member.fullName}
+                          {item.copy && <> · Copy {item.copy.accessionNo}</>}
+                        </p>
                       </div>
                       <div className="flex items-center space-x-2">
                         <Badge className="bg-red-100 text-red-800 font-bold">⚡ ISSUED</Badge>
@@ -293,10 +386,21 @@ export default function CirculationTab() {
                             Due: {new Date(item.dueDate).toLocaleDateString()}
                           </Badge>
                         )}
+                        {item.renewalCount > 0 && (
+                          <Badge variant="secondary">Renewed {item.renewalCount}×</Badge>
+                        )}
+                        <Button 
+                          size="sm" 
+                          variant="outline"
+                          onClick={() => renewLoan.mutate(item.circulationId)}
+                          disabled={renewLoan.isPending}
+                        >
+                          Renew
+                        </Button>
                         <Button 
                           size="sm" 
                           variant="outline"
-                          onClick={() => handleReturnBook(item.book.id)}
+                          onClick={() => handleReturnBook(item)}
                           disabled={returnBook.isPending}
                         >
                           Return Book
@@ -318,12 +422,15 @@ export default function CirculationTab() {
             <>
               {getDisplayData().length > 0 ? (
                 <div className="grid gap-4">
-                  {(getDisplayData() as { book: Book; member: Member; dueDate: Date | null }[]).map((item, index) => (
-                    <div key={`overdue-${item.book.id}-${item.member.id}-${index}`} className="flex items-center justify-between p-4 border rounded-lg border-red-200 bg-red-50">
+                  {(getDisplayData() as IssuedBook[]).map((item) => (
+                    <div key={`overdue-${item.circulationId}`} className="flex items-center justify-between p-4 border rounded-lg border-red-200 bg-red-50">
                       <div>
                         <h3 className="font-medium text-gray-900">{item.book.title}</h3>
                         <p className="text-sm text-gray-600">{item.book.author}</p>
-                        <p className="text-xs text-gray-500">Borrowed by {item.member.fullName}</p>
+                        <p className="text-xs text-gray-500">
+                          Borrowed by {item.member.fullName}
+                          {item.copy && <> · Copy {item.copy.accessionNo}</>}
+                        </p>
                       </div>
                       <div className="flex items-center space-x-2">
                         <Badge className="bg-red-500 text-white font-bold animate-pulse">🚨 OVERDUE</Badge>
@@ -335,7 +442,7 @@ export default function CirculationTab() {
                         <Button 
                           size="sm" 
                           variant="outline"
-                          onClick={() => handleReturnBook(item.book.id)}
+                          onClick={() => handleReturnBook(item)}
                           disabled={returnBook.isPending}
                         >
                           Return Book
@@ -352,6 +459,65 @@ export default function CirculationTab() {
               )}
             </>
           )}
+
+          {activeTab === "holds" && (
+            <>
+              <div className="flex justify-end">
+                <Button size="sm" onClick={() => setShowHoldModal(true)}>
+                  Place Hold
+                </Button>
+              </div>
+              {getDisplayData().length > 0 ? (
+                <div className="grid gap-4">
+                  {(getDisplayData() as ReservationWithDetails[]).map((item) => (
+                    <div key={item.id} className="flex items-center justify-between p-4 border rounded-lg">
+                      <div>
+                        <h3 className="font-medium text-gray-900">{item.book.title}</h3>
+                        <p className="text-sm text-gray-600">{item.book.author}</p>
+                        <p className="text-xs text-gray-500">
+                          Held for {item.member.fullName} · placed {new Date(item.createdAt!).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {item.status === "ready" ? (
+                          <>
+                            <Badge className="bg-yellow-100 text-yellow-800">Ready for pickup</Badge>
+                            {item.expiresAt && (
+                              <Badge variant="outline">
+                                Until: {new Date(item.expiresAt).toLocaleDateString()}
+                              </Badge>
+                            )}
+                            <Button 
+                              size="sm" 
+                              onClick={() => handleIssueHold(item)}
+                              disabled={issueBook.isPending}
+                            >
+                              Issue Book
+                            </Button>
+                          </>
+                        ) : (
+                          <Badge variant="outline">#{item.position} in queue</Badge>
+                        )}
+                        <Button 
+                          size="sm" 
+                          variant="outline"
+                          onClick={() => cancelHold.mutate(item.id)}
+                          disabled={cancelHold.isPending}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-12">
+                  <div className="text-gray-400 text-4xl mb-4">🔖</div>
+                  <p className="text-gray-600">No active holds.</p>
+                </div>
+              )}
+            </>
+          )}
         </div>
       </CardContent>
 
@@ -406,10 +572,34 @@ export default function CirculationTab() {
                 </div>
               </div>
               
-              <div className="text-sm text-gray-600">
-                Due date will be set to 14 days from today
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Copy
+                </label>
+                <Select value={selectedCopyId} onValueChange={setSelectedCopyId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any available copy</SelectItem>
+                    {availableCopies.map((copy) => (
+                      <SelectItem key={copy.id} value={copy.id.toString()}>
+                        {copy.accessionNo}{copy.shelfLocation ? ` (${copy.shelfLocation})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               
+              {issuePolicy && (
+                <div className="text-sm text-gray-600">
+                  {issuePolicy.loanable
+                    ? `Due date will be set to ${issuePolicy.loanPeriodDays} days from today`
+                    : "This book is for reference only and cannot be issued to this member"}
+                  {issuePolicy.loanable && issuePolicy.maxLoans !== null && ` (limit ${issuePolicy.maxLoans} book(s) at a time)`}
+                </div>
+              )}
+              
               <div className="flex justify-end space-x-3 pt-4">
                 <Button 
                   type="button" 
@@ -420,7 +610,7 @@ export default function CirculationTab() {
                 </Button>
                 <Button 
                   onClick={handleConfirmIssue}
-                  disabled={!selectedMemberId || issueBook.isPending}
+                  disabled={!selectedMemberId || issueBook.isPending || issuePolicy?.loanable === false}
                 >
                   {issueBook.isPending ? "Issuing..." : "Issue Book"}
                 </Button>
@@ -429,6 +619,91 @@ export default function CirculationTab() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Place Hold Modal */}
+      <Dialog open={showHoldModal} onOpenChange={setShowHoldModal}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Place Hold</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Book
+              </label>
+              <Select value={holdBookId} onValueChange={setHoldBookId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an issued book..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {unavailableBooks.map((book) => (
+                    <SelectItem key={book.id} value={book.id.toString()}>
+                      {book.title} - {book.author}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Member
+              </label>
+              <div className="space-y-2">
+                <div className="relative">
+                  <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    placeholder="Search by name, class, or registration number..."
+                    value={memberSearchQuery}
+                    onChange={(e) => setMemberSearchQuery(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <Select value={holdMemberId} onValueChange={setHoldMemberId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a member..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {members
+                      .filter(member => 
+                        memberSearchQuery === "" || 
+                        member.fullName.toLowerCase().includes(memberSearchQuery.toLowerCase()) ||
+                        member.class.toLowerCase().includes(memberSearchQuery.toLowerCase()) ||
+                        member.registrationNo.toLowerCase().includes(memberSearchQuery.toLowerCase())
+                      )
+                      .map((member) => (
+                      <SelectItem key={member.id} value={member.id.toString()}>
+                        {member.fullName} - {member.class} ({member.registrationNo})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="text-sm text-gray-600">
+              The next returned copy will be held for this member for 3 days
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <Button 
+                type="button" 
+                variant="outline" 
+                onClick={() => setShowHoldModal(false)}
+              >
+                Cancel
+              </Button>
+              <Button 
+                onClick={handleConfirmHold}
+                disabled={!holdBookId || !holdMemberId || placeHold.isPending}
+              >
+                {placeHold.isPending ? "Placing..." : "Place Hold"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
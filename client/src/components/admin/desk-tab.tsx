@@ -0,0 +1,245 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { BookOpen, ScanLine, User, UserX } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import type { DeskMemberStatus, DeskScan, DeskScanResult } from "@shared/schema";
+
+type ScanEntry = {
+  id: number;
+  code: string;
+  outcome: "member" | "issue" | "return" | "ambiguous" | "rejected";
+  message: string;
+  time: Date;
+};
+
+let audioContext: AudioContext | null = null;
+
+// Short beep through the Web Audio API: one high tone for a good scan, two
+// low tones for a rejected or ambiguous one
+function playFeedback(ok: boolean) {
+  try {
+    audioContext ??= new AudioContext();
+    const tones = ok ? [0] : [0, 0.18];
+    for (const offset of tones) {
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      oscillator.frequency.value = ok ? 1200 : 300;
+      gain.gain.value = 0.15;
+      oscillator.connect(gain).connect(audioContext.destination);
+      const start = audioContext.currentTime + offset;
+      oscillator.start(start);
+      oscillator.stop(start + (ok ? 0.12 : 0.15));
+    }
+  } catch {
+    // Audio is a nicety; the visual feedback still shows
+  }
+}
+
+// Circulation desk for a keyboard-wedge barcode scanner, which types the code
+// followed by Enter. Scan a member card, then each book to issue it; scan
+// books with no member to return them.
+export default function DeskTab() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [code, setCode] = useState("");
+  const [activeMember, setActiveMember] = useState<DeskMemberStatus | null>(null);
+  const [ambiguousScan, setAmbiguousScan] = useState<(DeskScan & Extract<DeskScanResult, { kind: "ambiguous" }>) | null>(null);
+  const [scans, setScans] = useState<ScanEntry[]>([]);
+  const [flash, setFlash] = useState<"ok" | "error" | null>(null);
+  const nextScanId = useRef(0);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    if (!flash) return;
+    const timer = setTimeout(() => setFlash(null), 600);
+    return () => clearTimeout(timer);
+  }, [flash]);
+
+  const recordScan = (scannedCode: string, outcome: ScanEntry["outcome"], message: string) => {
+    const ok = outcome !== "rejected" && outcome !== "ambiguous";
+    playFeedback(ok);
+    setFlash(ok ? "ok" : "error");
+    const entry = { id: nextScanId.current++, code: scannedCode, outcome, message, time: new Date() };
+    setScans((previous) => [entry, ...previous]);
+  };
+
+  const scan = useMutation({
+    mutationFn: async (data: DeskScan) => {
+      const response = await apiRequest("POST", "/api/circulation/scan", data);
+      return response.json() as Promise<DeskScanResult>;
+    },
+    onSuccess: (result, request) => {
+      const scannedCode = request.code;
+      if (result.kind === "ambiguous") {
+        setAmbiguousScan({ ...request, ...result });
+        recordScan(scannedCode, "ambiguous",
+          `Matches member ${result.member.fullName} and copy ${result.copy.accessionNo} of "${result.book.title}"; choose which was scanned`);
+        return;
+      }
+      if (result.kind === "member") {
+        const { kind, ...status } = result;
+        setActiveMember(status);
+        recordScan(scannedCode, status.blockedReason ? "rejected" : "member", status.blockedReason
+          ? `${status.member.fullName}: ${status.blockedReason}`
+          : `Serving ${status.member.fullName} (${status.member.class})`);
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/issued-books"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/circulation"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reservations"] });
+      const { book, copy, circulation, fine } = result.result;
+      if (result.kind === "issue") {
+        setActiveMember((current) => current && { ...current, activeLoans: current.activeLoans + 1 });
+        const dueDate = circulation.dueDate ? new Date(circulation.dueDate).toLocaleDateString() : "";
+        recordScan(scannedCode, "issue", `Issued "${book.title}" (${copy.accessionNo}) to ${result.member.fullName}, due ${dueDate}`);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/fines/balances"] });
+        recordScan(scannedCode, "return", `Returned "${book.title}" (${copy.accessionNo}) from ${result.member.fullName}` +
+          (fine ? `, ${fine.daysOverdue} day(s) late: fine of ₹${fine.amount} recorded` : ""));
+      }
+    },
+    onError: (error, { code: scannedCode }) => {
+      recordScan(scannedCode, "rejected", getApiErrorMessage(error, "Scan failed. Please try again."));
+    },
+    onSettled: () => {
+      inputRef.current?.focus();
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const scannedCode = code.trim();
+    setCode("");
+    if (!scannedCode) return;
+    setAmbiguousScan(null);
+    if (scan.isPending) {
+      recordScan(scannedCode, "rejected", "Still processing the previous scan; scan this one again");
+      return;
+    }
+    scan.mutate({ code: scannedCode, memberId: activeMember?.member.id });
+  };
+
+  const resolveAmbiguousScan = (target: NonNullable<DeskScan["target"]>) => {
+    if (!ambiguousScan) return;
+    scan.mutate({ code: ambiguousScan.code, memberId: ambiguousScan.memberId, target });
+    setAmbiguousScan(null);
+  };
+
+  const endSession = () => {
+    setActiveMember(null);
+    inputRef.current?.focus();
+  };
+
+  const countOf = (outcome: ScanEntry["outcome"]) => scans.filter((entry) => entry.outcome === outcome).length;
+  const errorCount = countOf("rejected");
+
+  return (
+    <Card>
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-900">Circulation Desk</h2>
+        <div className="flex items-center space-x-2">
+          <Badge className="bg-green-100 text-green-800">{countOf("issue")} issued</Badge>
+          <Badge className="bg-blue-100 text-blue-800">{countOf("return")} returned</Badge>
+          {errorCount > 0 && <Badge className="bg-red-100 text-red-800">{errorCount} rejected</Badge>}
+        </div>
+      </div>
+
+      <CardContent className="p-6 space-y-6">
+        <form onSubmit={handleSubmit}>
+          <div
+            className={`relative rounded-lg border-2 transition-colors ${
+              flash === "ok" ? "border-green-500 bg-green-50" : flash === "error" ? "border-red-500 bg-red-50" : "border-gray-200"
+            }`}
+          >
+            <ScanLine className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400 w-6 h-6" />
+            <Input
+              ref={inputRef}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") endSession();
+              }}
+              placeholder={activeMember ? "Scan books to issue, or another member card" : "Scan a member card to issue, or a book to return"}
+              className="pl-14 h-14 text-lg border-0 bg-transparent focus-visible:ring-0"
+              autoComplete="off"
+            />
+          </div>
+        </form>
+
+        {ambiguousScan && (
+          <div className="flex items-center justify-between p-4 rounded-lg border bg-amber-50 border-amber-200">
+            <div className="text-sm text-gray-900">
+              <span className="font-mono">{ambiguousScan.code}</span> is both a member card and a book copy. Which was scanned?
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" onClick={() => resolveAmbiguousScan("member")} disabled={scan.isPending}>
+                <User className="w-4 h-4 mr-2" />
+                {ambiguousScan.member.fullName}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => resolveAmbiguousScan("book")} disabled={scan.isPending}>
+                <BookOpen className="w-4 h-4 mr-2" />
+                {ambiguousScan.book.title}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {activeMember ? (
+          <div className={`flex items-center justify-between p-4 rounded-lg border ${
+            activeMember.blockedReason ? "bg-red-50 border-red-200" : "bg-blue-50 border-blue-200"
+          }`}>
+            <div>
+              <div className="font-semibold text-gray-900">{activeMember.member.fullName}</div>
+              <div className="text-sm text-gray-600">
+                {activeMember.member.class} · Reg. No. {activeMember.member.registrationNo} · {activeMember.activeLoans} book(s) on loan
+                {activeMember.balance > 0 && ` · owes ₹${activeMember.balance}`}
+              </div>
+              {activeMember.blockedReason && (
+                <div className="text-sm font-medium text-red-700 mt-1">{activeMember.blockedReason}</div>
+              )}
+            </div>
+            <Button variant="outline" size="sm" onClick={endSession}>
+              <UserX className="w-4 h-4 mr-2" />
+              Done (Esc)
+            </Button>
+          </div>
+        ) : (
+          <div className="p-4 rounded-lg border border-dashed text-sm text-gray-600">
+            Return mode: scanned books are checked in. Scan a member card to start issuing.
+          </div>
+        )}
+
+        {scans.length > 0 ? (
+          <div className="space-y-2">
+            {scans.map((entry) => (
+              <div
+                key={entry.id}
+                className={`flex items-center justify-between p-3 rounded-lg border text-sm ${
+                  entry.outcome === "rejected" ? "border-red-200 bg-red-50"
+                    : entry.outcome === "ambiguous" ? "border-amber-200 bg-amber-50" : "border-gray-200"
+                }`}
+              >
+                <div className="flex items-center space-x-3">
+                  <Badge variant="outline" className="font-mono">{entry.code}</Badge>
+                  <span className={entry.outcome === "rejected" ? "text-red-700" : "text-gray-900"}>{entry.message}</span>
+                </div>
+                <span className="text-gray-500">{entry.time.toLocaleTimeString()}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">No scans yet this session.</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
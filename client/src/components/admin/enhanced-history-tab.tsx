@@ -1,15 +1,21 @@
-import { useState, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import { Calendar, Download, Printer } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import type { Circulation, Book, Member } from "@shared/schema";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import ListPagination from "@/components/admin/list-pagination";
+import { openExport } from "@/lib/queryClient";
+import type { CirculationWithDetails, Paginated } from "@shared/schema";
+
+const HISTORY_PAGE_SIZE = 25;
 
 interface CirculationPair {
-  bookId: number;
-  memberId: number;
+  id: number;
   bookTitle: string;
   memberName: string;
   borrowDate: Date;
@@ -19,85 +25,59 @@ interface CirculationPair {
   isActive: boolean;
 }
 
+// Borrow dates are filtered server-side as [from, to); picking only a month
+// means that month of the current year.
+function getDateRange(year: string, month: string): { from?: string; to?: string } {
+  if (year === "all" && month === "all") return {};
+  const y = year === "all" ? new Date().getFullYear() : parseInt(year);
+  if (month === "all") {
+    return { from: new Date(y, 0, 1).toISOString(), to: new Date(y + 1, 0, 1).toISOString() };
+  }
+  const m = parseInt(month);
+  return { from: new Date(y, m, 1).toISOString(), to: new Date(y, m + 1, 1).toISOString() };
+}
+
 export default function EnhancedHistoryTab() {
   const [actionFilter, setActionFilter] = useState("all");
   const [yearFilter, setYearFilter] = useState("all");
   const [monthFilter, setMonthFilter] = useState("all");
+  const [page, setPage] = useState(1);
 
-  const { data: circulation = [] } = useQuery<Circulation[]>({
-    queryKey: ["/api/circulation"],
-  });
-
-  const { data: books = [] } = useQuery<Book[]>({
-    queryKey: ["/api/books"],
+  // Each borrow record carries its own return date once the book is back,
+  // so one page of borrow records is one page of borrow/return pairs.
+  const historyFilters = {
+    action: "borrow",
+    status: actionFilter === "active" ? "active" : actionFilter === "completed" ? "returned" : undefined,
+    ...getDateRange(yearFilter, monthFilter),
+    sortBy: "date",
+    sortDir: "desc",
+  };
+  const { data: history } = useQuery<Paginated<CirculationWithDetails>>({
+    queryKey: ["/api/circulation", { page, pageSize: HISTORY_PAGE_SIZE, ...historyFilters }],
+    placeholderData: keepPreviousData,
   });
 
-  const { data: members = [] } = useQuery<Member[]>({
-    queryKey: ["/api/members"],
+  const filteredPairs: CirculationPair[] = (history?.items ?? []).map(record => {
+    const dueDate = record.dueDate ? new Date(record.dueDate) : null;
+    const returnDate = record.returnDate ? new Date(record.returnDate) : null;
+    const isActive = record.status === "active";
+    return {
+      id: record.id,
+      bookTitle: record.book.title,
+      memberName: record.member.fullName,
+      borrowDate: new Date(record.date || 0),
+      returnDate,
+      dueDate,
+      isOverdue: isActive && !!dueDate && new Date() > dueDate,
+      isActive,
+    };
   });
 
-  // Helper functions
-  const getBookTitle = (bookId: number) => {
-    const book = books.find(b => b.id === bookId);
-    return book ? book.title : "Unknown Book";
-  };
-
-  const getMemberName = (memberId: number) => {
-    const member = members.find(m => m.id === memberId);
-    return member ? member.fullName : "Unknown Member";
+  const changeFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
   };
 
-  // Process circulation data into borrow-return pairs
-  const circulationPairs = useMemo(() => {
-    const pairs: CirculationPair[] = [];
-    const borrowRecords = circulation.filter(record => record.action === "borrow");
-    
-    borrowRecords.forEach(borrowRecord => {
-      // Find corresponding return record
-      const returnRecord = circulation.find(record => 
-        record.action === "return" && 
-        record.bookId === borrowRecord.bookId && 
-        record.memberId === borrowRecord.memberId &&
-        new Date(record.date || 0) > new Date(borrowRecord.date || 0)
-      );
-
-      const borrowDate = new Date(borrowRecord.date || 0);
-      const returnDate = returnRecord ? new Date(returnRecord.date || 0) : null;
-      const dueDate = borrowRecord.dueDate ? new Date(borrowRecord.dueDate) : null;
-      const isOverdue = dueDate && !returnDate && new Date() > dueDate;
-      const isActive = borrowRecord.status === "active";
-
-      pairs.push({
-        bookId: borrowRecord.bookId,
-        memberId: borrowRecord.memberId,
-        bookTitle: getBookTitle(borrowRecord.bookId),
-        memberName: getMemberName(borrowRecord.memberId),
-        borrowDate,
-        returnDate,
-        dueDate,
-        isOverdue: !!isOverdue,
-        isActive: !!isActive
-      });
-    });
-
-    return pairs.sort((a, b) => b.borrowDate.getTime() - a.borrowDate.getTime());
-  }, [circulation, books, members, getBookTitle, getMemberName]);
-
-  // Filter pairs based on selected filters
-  const filteredPairs = circulationPairs.filter(pair => {
-    const year = pair.borrowDate.getFullYear().toString();
-    const month = pair.borrowDate.getMonth();
-    
-    const actionMatch = actionFilter === "all" || 
-      (actionFilter === "completed" && pair.returnDate) ||
-      (actionFilter === "active" && !pair.returnDate);
-    
-    const yearMatch = yearFilter === "all" || year === yearFilter;
-    const monthMatch = monthFilter === "all" || month === parseInt(monthFilter);
-    
-    return actionMatch && yearMatch && monthMatch;
-  });
-
   const currentYear = new Date().getFullYear();
   const years = Array.from({ length: 5 }, (_, i) => (currentYear - i).toString());
   const months = [
@@ -128,7 +108,7 @@ export default function EnhancedHistoryTab() {
           </div>
           
           <div className="flex items-center space-x-3">
-            <Select value={actionFilter} onValueChange={setActionFilter}>
+            <Select value={actionFilter} onValueChange={changeFilter(setActionFilter)}>
               <SelectTrigger className="w-40">
                 <SelectValue placeholder="Filter by status" />
               </SelectTrigger>
@@ -139,7 +119,7 @@ export default function EnhancedHistoryTab() {
               </SelectContent>
             </Select>
             
-            <Select value={yearFilter} onValueChange={setYearFilter}>
+            <Select value={yearFilter} onValueChange={changeFilter(setYearFilter)}>
               <SelectTrigger className="w-32">
                 <SelectValue placeholder="All Years" />
               </SelectTrigger>
@@ -151,7 +131,7 @@ export default function EnhancedHistoryTab() {
               </SelectContent>
             </Select>
             
-            <Select value={monthFilter} onValueChange={setMonthFilter}>
+            <Select value={monthFilter} onValueChange={changeFilter(setMonthFilter)}>
               <SelectTrigger className="w-36">
                 <SelectValue placeholder="All Months" />
               </SelectTrigger>
@@ -163,12 +143,24 @@ export default function EnhancedHistoryTab() {
               </SelectContent>
             </Select>
             
-            <Button variant="outline" size="sm">
-              <Download className="w-4 h-4 mr-2" />
-              Export
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => openExport("/api/export/circulation", historyFilters, "csv")}>
+                  CSV
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => openExport("/api/export/circulation", historyFilters, "xlsx")}>
+                  Excel (XLSX)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             
-            <Button variant="outline" size="sm">
+            <Button variant="outline" size="sm" onClick={() => openExport("/api/export/circulation", historyFilters, "pdf")}>
               <Printer className="w-4 h-4 mr-2" />
               Print
             </Button>
@@ -191,9 +183,9 @@ export default function EnhancedHistoryTab() {
             
             {/* Table Content */}
             <div className="space-y-2">
-              {filteredPairs.map((pair, index) => (
+              {filteredPairs.map((pair) => (
                 <div 
-                  key={`${pair.bookId}-${pair.memberId}-${pair.borrowDate.getTime()}`} 
+                  key={pair.id} 
                   className={`grid grid-cols-12 gap-4 py-4 border-b border-gray-100 rounded-md px-2 ${
                     pair.isOverdue ? 'bg-red-50 border-red-200' : 
                     pair.isActive ? 'bg-orange-50 border-orange-200' : 
@@ -256,6 +248,15 @@ export default function EnhancedHistoryTab() {
             </p>
           </div>
         )}
+
+        {history && (
+          <ListPagination
+            page={history.page}
+            pageSize={history.pageSize}
+            total={history.total}
+            onPageChange={setPage}
+          />
+        )}
       </CardContent>
     </Card>
   );
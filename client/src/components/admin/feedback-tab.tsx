@@ -18,7 +18,7 @@ export default function FeedbackTab() {
   });
 
   const { data: members = [] } = useQuery<Member[]>({
-    queryKey: ["/api/members"],
+    queryKey: ["/api/members", { status: "all" }],
   });
 
   const { data: books = [] } = useQuery<Book[]>({
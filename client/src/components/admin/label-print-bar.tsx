@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Printer, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { buildQueryUrl } from "@/lib/queryClient";
+import { labelsPerSheet, type LabelLayout, type Symbology } from "@shared/schema";
+
+interface LabelPrintBarProps {
+  kind: "books" | "members";
+  selectedIds: number[];
+  onClear: () => void;
+}
+
+// Print controls for the rows ticked in a list: spine labels for every copy
+// of the selected books, or ID cards for the selected members. The PDF opens
+// in a new tab for printing.
+export default function LabelPrintBar({ kind, selectedIds, onClear }: LabelPrintBarProps) {
+  const [symbology, setSymbology] = useState<Symbology>("code128");
+  const [layout, setLayout] = useState<LabelLayout>("a4-3x8");
+  const [skip, setSkip] = useState(0);
+
+  if (selectedIds.length === 0) return null;
+
+  // At least one label on the first sheet must be left to print on
+  const maxSkip = labelsPerSheet[layout] - 1;
+
+  const handlePrint = () => {
+    const url = kind === "books"
+      ? buildQueryUrl(["/api/labels/books", { bookIds: selectedIds.join(","), symbology, layout, skip }])
+      : buildQueryUrl(["/api/labels/members", { memberIds: selectedIds.join(","), symbology }]);
+    window.open(url, "_blank");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 p-3 mb-4 rounded-lg border bg-blue-50">
+      <span className="text-sm font-medium text-gray-900">
+        {selectedIds.length} {kind === "books" ? "book(s)" : "member(s)"} selected
+      </span>
+      <Select value={symbology} onValueChange={(value) => setSymbology(value as Symbology)}>
+        <SelectTrigger className="w-36 bg-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="code128">Barcode</SelectItem>
+          <SelectItem value="qr">QR code</SelectItem>
+        </SelectContent>
+      </Select>
+      {kind === "books" && (
+        <>
+          <Select value={layout} onValueChange={(value) => {
+            const nextLayout = value as LabelLayout;
+            setLayout(nextLayout);
+            setSkip((current) => Math.min(current, labelsPerSheet[nextLayout] - 1));
+          }}>
+            <SelectTrigger className="w-56 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="a4-3x8">A4, 24 labels (L7159)</SelectItem>
+              <SelectItem value="a4-2x7">A4, 14 labels (L7163)</SelectItem>
+              <SelectItem value="letter-3x10">Letter, 30 labels (5160)</SelectItem>
+            </SelectContent>
+          </Select>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <span>Skip</span>
+            <Input
+              type="number"
+              min={0}
+              max={maxSkip}
+              value={skip}
+              onChange={(e) => setSkip(Math.min(maxSkip, Math.max(0, parseInt(e.target.value) || 0)))}
+              className="w-16 bg-white"
+            />
+            <span>used labels</span>
+          </label>
+        </>
+      )}
+      <div className="flex items-center space-x-2 ml-auto">
+        <Button size="sm" onClick={handlePrint}>
+          <Printer className="w-4 h-4 mr-2" />
+          {kind === "books" ? "Print Labels" : "Print ID Cards"}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
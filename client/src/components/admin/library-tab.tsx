@@ -1,28 +1,55 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Search, Plus, Trash2, Edit, Save, X } from "lucide-react";
+import { Search, Plus, Trash2, Edit, Save, X, Copy, Upload, BookOpenCheck } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import BookCopiesPanel from "@/components/admin/book-copies-panel";
+import BookCoverField from "@/components/admin/book-cover-field";
+import ListPagination from "@/components/admin/list-pagination";
+import ImportBooksModal from "@/components/modals/import-books-modal";
+import ExportMenu from "@/components/export-menu";
+import MarcExportMenu from "@/components/admin/marc-export-menu";
+import LabelPrintBar from "@/components/admin/label-print-bar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
-import type { Category, InsertBook, InsertCategory, Book } from "@shared/schema";
+import { flattenCategoryTree, categorySubtreeIds } from "@/lib/category-tree";
+import { normalizeDdc } from "@shared/ddc";
+import { normalizeIsbn, isbn13To10 } from "@shared/isbn";
+import type { Category, CategoryWithBookCount, CreateBook, InsertCategory, IsbnLookup, Book, BookWithAvailability, Paginated } from "@shared/schema";
+
+const BOOKS_PAGE_SIZE = 20;
+const ALL = "all";
+const TOP_LEVEL = "top";
+const BOOK_LANGUAGES = ["Kannada", "Malayalam", "English", "Arabic", "Urdu"];
 
 const bookSchema = z.object({
+  isbn: z.string().refine((value) => !value.trim() || normalizeIsbn(value) !== null, "Enter a valid ISBN-10 or ISBN-13"),
   title: z.string().min(1, "Book title is required"),
   author: z.string().min(1, "Author name is required"),
-  category: z.string().min(1, "Category is required"),
+  categoryId: z.number().int().positive("Category is required"),
   language: z.string().min(1, "Language is required"),
-  price: z.number().min(0, "Price must be positive"),
+  price: z.number().int("Enter a whole number of rupees").min(0, "Price must be positive"),
   publisher: z.string().min(1, "Publisher is required"),
-  ddc: z.string().min(1, "DDC is required"),
+  ddc: z.string().min(1, "DDC is required")
+    .refine((value) => normalizeDdc(value) !== null, "Use a Dewey number such as 823.914"),
+  copies: z.number().int().min(1, "At least one copy is required").max(100),
+  shelfLocation: z.string().optional(),
+  edition: z.string().optional(),
+  publicationYear: z.number().int().min(1000, "Enter a four-digit year").max(new Date().getFullYear() + 1).nullable(),
+  pageCount: z.number().int().positive("Pages must be positive").nullable(),
+  subjects: z.string(),
+  notes: z.string().optional(),
 });
 
 const categorySchema = z.object({
@@ -34,37 +61,76 @@ type CategoryForm = z.infer<typeof categorySchema>;
 
 export default function LibraryTab() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [newCategory, setNewCategory] = useState("");
+  const [newCategoryParent, setNewCategoryParent] = useState(TOP_LEVEL);
   const [categorySearch, setCategorySearch] = useState("");
   const [bookSearch, setBookSearch] = useState("");
+  const [bookPage, setBookPage] = useState(1);
+  const [bookFilters, setBookFilters] = useState({ category: ALL, language: ALL, status: ALL, sortBy: "title" });
   const [editingBook, setEditingBook] = useState<number | null>(null);
   const [editForm, setEditForm] = useState<Partial<Book>>({});
   const [editingCategory, setEditingCategory] = useState<number | null>(null);
   const [editCategoryName, setEditCategoryName] = useState("");
+  const [editCategoryParent, setEditCategoryParent] = useState(TOP_LEVEL);
+  const [deletingCategory, setDeletingCategory] = useState<number | null>(null);
+  const [replacementCategory, setReplacementCategory] = useState("");
+  const [expandedCopies, setExpandedCopies] = useState<number | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [selectedBooks, setSelectedBooks] = useState<number[]>([]);
 
-  const { data: categories = [] } = useQuery<Category[]>({
+  const { data: categories = [] } = useQuery<CategoryWithBookCount[]>({
     queryKey: ["/api/categories"],
   });
 
-  const { data: books = [] } = useQuery<Book[]>({
-    queryKey: ["/api/books"],
+  const bookListFilters = {
+    q: bookSearch,
+    category: bookFilters.category === ALL ? undefined : bookFilters.category,
+    language: bookFilters.language === ALL ? undefined : bookFilters.language,
+    status: bookFilters.status === ALL ? undefined : bookFilters.status,
+    sortBy: bookFilters.sortBy,
+    sortDir: bookFilters.sortBy === "createdAt" ? "desc" : "asc",
+  };
+  const { data: bookResults } = useQuery<Paginated<BookWithAvailability>>({
+    queryKey: ["/api/books", { page: bookPage, pageSize: BOOKS_PAGE_SIZE, ...bookListFilters }],
+    placeholderData: keepPreviousData,
   });
+  const books = bookResults?.items ?? [];
+  const hasBookFilters = bookSearch !== "" ||
+    bookFilters.category !== ALL || bookFilters.language !== ALL || bookFilters.status !== ALL;
+
+  const toggleBookSelection = (id: number, selected: boolean) => {
+    setSelectedBooks(selected ? [...selectedBooks, id] : selectedBooks.filter((bookId) => bookId !== id));
+  };
+
+  const updateBookFilter = (key: keyof typeof bookFilters, value: string) => {
+    setBookFilters({ ...bookFilters, [key]: value });
+    setBookPage(1);
+  };
 
   const bookForm = useForm<BookForm>({
     resolver: zodResolver(bookSchema),
     defaultValues: {
+      isbn: "",
       title: "",
       author: "",
-      category: "",
+      categoryId: 0,
       language: "",
       price: 0,
       publisher: "",
       ddc: "",
+      copies: 1,
+      shelfLocation: "",
+      edition: "",
+      publicationYear: null,
+      pageCount: null,
+      subjects: "",
+      notes: "",
     },
   });
 
   const createBook = useMutation({
-    mutationFn: async (data: InsertBook) => {
+    mutationFn: async (data: CreateBook) => {
       const response = await apiRequest("POST", "/api/books", data);
       return response.json();
     },
@@ -79,7 +145,7 @@ export default function LibraryTab() {
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to add book. Please try again.",
+        description: getApiErrorMessage(error, "Failed to add book. Please try again."),
         variant: "destructive",
       });
     },
@@ -97,31 +163,42 @@ export default function LibraryTab() {
         description: "Category added successfully!",
       });
       setNewCategory("");
+      setNewCategoryParent(TOP_LEVEL);
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to add category. Please try again.",
+        description: getApiErrorMessage(error, "Failed to add category. Please try again."),
         variant: "destructive",
       });
     },
   });
 
   const deleteCategory = useMutation({
-    mutationFn: async (id: number) => {
-      await apiRequest("DELETE", `/api/categories/${id}`);
+    mutationFn: async ({ id, replacementId }: { id: number; replacementId?: number }) => {
+      await apiRequest("DELETE", replacementId
+        ? `/api/categories/${id}?replacementId=${replacementId}`
+        : `/api/categories/${id}`);
     },
-    onSuccess: () => {
+    onSuccess: (_data, { replacementId }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      if (replacementId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+      }
       toast({
         title: "Success",
-        description: "Category deleted successfully!",
+        description: replacementId
+          ? "Books moved and category moved to the Trash."
+          : "Category moved to the Trash.",
       });
+      setDeletingCategory(null);
+      setReplacementCategory("");
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to delete category. Please try again.",
+        description: getApiErrorMessage(error, "Failed to delete category. Please try again."),
         variant: "destructive",
       });
     },
@@ -144,7 +221,7 @@ export default function LibraryTab() {
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to update book. Please try again.",
+        description: getApiErrorMessage(error, "Failed to update book. Please try again."),
         variant: "destructive",
       });
     },
@@ -156,27 +233,30 @@ export default function LibraryTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Success",
-        description: "Book deleted successfully!",
+        description: "Book moved to the Trash.",
       });
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to delete book. Please try again.",
+        description: getApiErrorMessage(error, "Failed to delete book. Please try again."),
         variant: "destructive",
       });
     },
   });
 
   const updateCategory = useMutation({
-    mutationFn: async ({ id, name }: { id: number; name: string }) => {
-      const response = await apiRequest("PUT", `/api/categories/${id}`, { name });
+    mutationFn: async ({ id, ...data }: { id: number } & InsertCategory) => {
+      const response = await apiRequest("PUT", `/api/categories/${id}`, data);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/circulation-policies"] });
       toast({
         title: "Success",
         description: "Category updated successfully!",
@@ -187,19 +267,81 @@ export default function LibraryTab() {
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to update category. Please try again.",
+        description: getApiErrorMessage(error, "Failed to update category. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Fills the add-book form from the library's offline bibliographic data
+  const lookupIsbn = useMutation({
+    mutationFn: async (isbn: string) => {
+      const response = await apiRequest("GET", `/api/books/isbn/${encodeURIComponent(isbn)}`);
+      return response.json() as Promise<IsbnLookup>;
+    },
+    onSuccess: ({ isbn, record, existingBooks }) => {
+      bookForm.setValue("isbn", isbn);
+      if (existingBooks.length > 0) {
+        toast({
+          title: "Already catalogued",
+          description: `This ISBN is already used by ${existingBooks.map((book) => `#${book.id} ${book.title}`).join(", ")}.`,
+        });
+      }
+      if (!record) {
+        toast({
+          title: "Not found",
+          description: "No record for this ISBN in the bibliographic data. Enter the details by hand.",
+        });
+        return;
+      }
+
+      const fill = (field: keyof BookForm, value: string | number | null) => {
+        if (value !== null && value !== "") bookForm.setValue(field, value, { shouldValidate: true });
+      };
+      fill("title", record.title);
+      fill("author", record.authors);
+      fill("publisher", record.publisher);
+      fill("ddc", record.ddc);
+      fill("language", record.language && BOOK_LANGUAGES.includes(record.language) ? record.language : null);
+      fill("edition", record.edition);
+      fill("publicationYear", record.publicationYear);
+      fill("pageCount", record.pageCount);
+      fill("subjects", record.subjects.join(", "));
+      if (existingBooks.length === 0) {
+        toast({
+          title: "Success",
+          description: "Details filled in from the ISBN. Check them before adding the book.",
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to look up ISBN. Please try again."),
         variant: "destructive",
       });
     },
   });
 
-  const onSubmitBook = (data: BookForm) => {
-    createBook.mutate(data);
+  const onSubmitBook = ({ isbn, edition, notes, subjects, ...data }: BookForm) => {
+    createBook.mutate({
+      ...data,
+      isbn: isbn.trim() || null,
+      edition: edition?.trim() || null,
+      notes: notes?.trim() || null,
+      subjects: subjects.split(",").map((subject) => subject.trim()).filter(Boolean),
+    });
   };
 
+  const isbnValue = bookForm.watch("isbn");
+  const normalizedIsbn = isbnValue ? normalizeIsbn(isbnValue) : null;
+
   const onSubmitCategory = () => {
     if (newCategory.trim()) {
-      createCategory.mutate({ name: newCategory.trim() });
+      createCategory.mutate({
+        name: newCategory.trim(),
+        parentId: newCategoryParent === TOP_LEVEL ? null : Number(newCategoryParent),
+      });
     }
   };
 
@@ -208,8 +350,13 @@ export default function LibraryTab() {
     setEditForm({ ...book });
   };
 
+  // Prices are stored in whole rupees, as the server expects
+  const editPriceError = editForm.price !== undefined && !Number.isInteger(editForm.price)
+    ? "Enter a whole number of rupees"
+    : null;
+
   const handleSaveEdit = () => {
-    if (editingBook && editForm) {
+    if (editingBook && editForm && !editPriceError) {
       updateBook.mutate({ 
         id: editingBook, 
         data: editForm 
@@ -225,13 +372,15 @@ export default function LibraryTab() {
   const handleEditCategory = (category: Category) => {
     setEditingCategory(category.id);
     setEditCategoryName(category.name);
+    setEditCategoryParent(category.parentId === null ? TOP_LEVEL : String(category.parentId));
   };
 
   const handleSaveCategoryEdit = () => {
     if (editingCategory && editCategoryName.trim()) {
       updateCategory.mutate({ 
         id: editingCategory, 
-        name: editCategoryName.trim() 
+        name: editCategoryName.trim(),
+        parentId: editCategoryParent === TOP_LEVEL ? null : Number(editCategoryParent),
       });
     }
   };
@@ -241,16 +390,25 @@ export default function LibraryTab() {
     setEditCategoryName("");
   };
 
-  const filteredCategories = categories.filter(category =>
-    category.name.toLowerCase().includes(categorySearch.toLowerCase())
-  );
+  // A category with books needs somewhere to move them before it can go
+  const handleDeleteCategory = (category: CategoryWithBookCount) => {
+    if (category.bookCount === 0) {
+      deleteCategory.mutate({ id: category.id });
+      return;
+    }
+    setDeletingCategory(category.id);
+    setReplacementCategory("");
+  };
+
+  const handleCancelCategoryDelete = () => {
+    setDeletingCategory(null);
+    setReplacementCategory("");
+  };
 
-  const filteredBooks = books.filter(book =>
-    bookSearch === "" || 
-    book.title.toLowerCase().includes(bookSearch.toLowerCase()) ||
-    book.author.toLowerCase().includes(bookSearch.toLowerCase()) ||
-    book.category.toLowerCase().includes(bookSearch.toLowerCase()) ||
-    book.publisher.toLowerCase().includes(bookSearch.toLowerCase())
+  // Categories in tree order, labelled with their full path in pickers
+  const categoryTree = flattenCategoryTree(categories);
+  const filteredCategories = categoryTree.filter(({ path }) =>
+    path.toLowerCase().includes(categorySearch.toLowerCase())
   );
 
   const getStatusColor = (status: string) => {
@@ -272,12 +430,49 @@ export default function LibraryTab() {
       {/* Add New Book */}
       <Card>
         <div className="px-6 py-4 border-b border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-900">Add New Book</h2>
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold text-gray-900">Add New Book</h2>
+            <Button variant="outline" size="sm" onClick={() => setShowImportModal(true)}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import CSV / Excel
+            </Button>
+          </div>
         </div>
         
         <CardContent className="p-6">
           <Form {...bookForm}>
             <form onSubmit={bookForm.handleSubmit(onSubmitBook)} className="space-y-4">
+              <FormField
+                control={bookForm.control}
+                name="isbn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>ISBN</FormLabel>
+                    <div className="flex gap-2">
+                      <FormControl>
+                        <Input placeholder="ISBN-10 or ISBN-13 (optional)" {...field} />
+                      </FormControl>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => normalizedIsbn && lookupIsbn.mutate(normalizedIsbn)}
+                        disabled={!normalizedIsbn || lookupIsbn.isPending}
+                      >
+                        <BookOpenCheck className="w-4 h-4 mr-2" />
+                        {lookupIsbn.isPending ? "Looking up..." : "Fill from ISBN"}
+                      </Button>
+                    </div>
+                    {normalizedIsbn && (
+                      <p className="text-xs text-gray-500">
+                        ISBN-13 {normalizedIsbn}
+                        {isbn13To10(normalizedIsbn) && ` · ISBN-10 ${isbn13To10(normalizedIsbn)}`}
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={bookForm.control}
                 name="title"
@@ -309,11 +504,14 @@ export default function LibraryTab() {
                 
                 <FormField
                   control={bookForm.control}
-                  name="category"
+                  name="categoryId"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Book Category</FormLabel>
-                      <Select onValueChange={field.onChange}>
+                      <Select
+                        value={field.value ? String(field.value) : ""}
+                        onValueChange={(value) => field.onChange(Number(value))}
+                      >
                         <FormControl>
                           <SelectTrigger>
                             <SelectValue placeholder="Select a category..." />
@@ -328,15 +526,11 @@ export default function LibraryTab() {
                               className="mb-2"
                             />
                           </div>
-                          {categories
-                            .filter(category => 
-                              category.name.toLowerCase().includes(categorySearch.toLowerCase())
-                            )
-                            .map((category) => (
-                              <SelectItem key={category.id} value={category.name}>
-                                {category.name}
-                              </SelectItem>
-                            ))}
+                          {filteredCategories.map(({ category, path }) => (
+                            <SelectItem key={category.id} value={String(category.id)}>
+                              {path}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -352,18 +546,16 @@ export default function LibraryTab() {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Language</FormLabel>
-                      <Select onValueChange={field.onChange}>
+                      <Select value={field.value} onValueChange={field.onChange}>
                         <FormControl>
                           <SelectTrigger>
                             <SelectValue placeholder="Select a language" />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          <SelectItem value="Kannada">Kannada</SelectItem>
-                          <SelectItem value="Malayalam">Malayalam</SelectItem>
-                          <SelectItem value="English">English</SelectItem>
-                          <SelectItem value="Arabic">Arabic</SelectItem>
-                          <SelectItem value="Urdu">Urdu</SelectItem>
+                          {BOOK_LANGUAGES.map((language) => (
+                            <SelectItem key={language} value={language}>{language}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -380,7 +572,8 @@ export default function LibraryTab() {
                       <FormControl>
                         <Input 
                           type="number" 
-                          placeholder="e.g. 813.6" 
+                          step={1}
+                          placeholder="e.g. 250" 
                           {...field}
                           onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
                         />
@@ -413,13 +606,139 @@ export default function LibraryTab() {
                     <FormItem>
                       <FormLabel>DDC</FormLabel>
                       <FormControl>
-                        <Input placeholder="e.g. 813.6" {...field} />
+                        <Input
+                          placeholder="e.g. 813.6"
+                          {...field}
+                          onBlur={() => {
+                            field.onChange(normalizeDdc(field.value) ?? field.value);
+                            field.onBlur();
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={bookForm.control}
+                  name="copies"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Number of Copies</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="number" 
+                          min={1}
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={bookForm.control}
+                  name="shelfLocation"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Shelf Location</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Rack 3, Shelf B" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
               </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={bookForm.control}
+                  name="edition"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Edition</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. 2nd ed." {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={bookForm.control}
+                  name="publicationYear"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Year</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          placeholder="e.g. 2019"
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={bookForm.control}
+                  name="pageCount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pages</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          placeholder="e.g. 320"
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={bookForm.control}
+                name="subjects"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Subjects</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Separated by commas, e.g. Hadith, Islamic law" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={bookForm.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} placeholder="Anything else about this book" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               
               <Button type="submit" className="w-full" disabled={createBook.isPending}>
                 {createBook.isPending ? "Adding..." : "Add Book"}
@@ -430,6 +749,7 @@ export default function LibraryTab() {
       </Card>
 
       {/* Manage Categories */}
+      {can("categories:manage") && (
       <Card>
         <div className="px-6 py-4 border-b border-gray-200">
           <h2 className="text-xl font-semibold text-gray-900">Manage Categories</h2>
@@ -443,6 +763,17 @@ export default function LibraryTab() {
               onChange={(e) => setNewCategory(e.target.value)}
               className="flex-1"
             />
+            <Select value={newCategoryParent} onValueChange={setNewCategoryParent}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+                {categoryTree.map(({ category, path }) => (
+                  <SelectItem key={category.id} value={String(category.id)}>Under {path}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Button 
               onClick={onSubmitCategory}
               disabled={createCategory.isPending || !newCategory.trim()}
@@ -466,8 +797,12 @@ export default function LibraryTab() {
           
           {filteredCategories.length > 0 ? (
             <div className="space-y-2">
-              {filteredCategories.map((category) => (
-                <div key={category.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              {filteredCategories.map(({ category, depth }) => (
+                <div
+                  key={category.id}
+                  className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+                  style={{ marginLeft: depth * 24 }}
+                >
                   {editingCategory === category.id ? (
                     <div className="flex items-center space-x-2 flex-1">
                       <Input
@@ -475,6 +810,19 @@ export default function LibraryTab() {
                         onChange={(e) => setEditCategoryName(e.target.value)}
                         className="flex-1"
                       />
+                      <Select value={editCategoryParent} onValueChange={setEditCategoryParent}>
+                        <SelectTrigger className="w-48 bg-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+                          {categoryTree
+                            .filter((row) => !categorySubtreeIds(categories, category.id).has(row.category.id))
+                            .map((row) => (
+                              <SelectItem key={row.category.id} value={String(row.category.id)}>Under {row.path}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
                       <Button
                         size="sm"
                         onClick={handleSaveCategoryEdit}
@@ -490,9 +838,47 @@ export default function LibraryTab() {
                         <X className="w-4 h-4" />
                       </Button>
                     </div>
+                  ) : deletingCategory === category.id ? (
+                    <div className="flex items-center space-x-2 flex-1">
+                      <span className="text-sm text-gray-700 whitespace-nowrap">
+                        Move {category.bookCount} book(s) in {category.name} to
+                      </span>
+                      <Select value={replacementCategory} onValueChange={setReplacementCategory}>
+                        <SelectTrigger className="flex-1 bg-white">
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {categoryTree
+                            .filter((row) => row.category.id !== category.id)
+                            .map((row) => (
+                              <SelectItem key={row.category.id} value={String(row.category.id)}>
+                                {row.path}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => deleteCategory.mutate({ id: category.id, replacementId: Number(replacementCategory) })}
+                        disabled={!replacementCategory || deleteCategory.isPending}
+                      >
+                        Move & Delete
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleCancelCategoryDelete}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
                   ) : (
                     <>
-                      <span className="font-medium text-gray-900">{category.name}</span>
+                      <span className="font-medium text-gray-900">
+                        {category.name}
+                        <span className="ml-2 text-sm font-normal text-gray-500">{category.bookCount} book(s)</span>
+                      </span>
                       <div className="flex items-center space-x-2">
                         <Button
                           variant="ghost"
@@ -504,7 +890,7 @@ export default function LibraryTab() {
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => deleteCategory.mutate(category.id)}
+                          onClick={() => handleDeleteCategory(category)}
                           disabled={deleteCategory.isPending}
                         >
                           <Trash2 className="w-4 h-4 text-red-500" />
@@ -525,6 +911,7 @@ export default function LibraryTab() {
           )}
         </CardContent>
       </Card>
+      )}
     </div>
 
     {/* Books Listing */}
@@ -532,7 +919,11 @@ export default function LibraryTab() {
       <div className="px-6 py-4 border-b border-gray-200">
         <div className="flex justify-between items-center">
           <h2 className="text-xl font-semibold text-gray-900">Library Books</h2>
-          <Badge variant="outline">{filteredBooks.length} Books</Badge>
+          <div className="flex items-center space-x-3">
+            <Badge variant="outline">{bookResults?.total ?? 0} Books</Badge>
+            <ExportMenu path="/api/export/books" filters={bookListFilters} />
+            <MarcExportMenu filters={bookListFilters} selectedIds={selectedBooks} />
+          </div>
         </div>
       </div>
       
@@ -544,20 +935,78 @@ export default function LibraryTab() {
             <Input
               placeholder="Search books by title, author, category, or publisher..."
               value={bookSearch}
-              onChange={(e) => setBookSearch(e.target.value)}
+              onChange={(e) => {
+                setBookSearch(e.target.value);
+                setBookPage(1);
+              }}
               className="pl-10"
             />
           </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-3">
+            <Select value={bookFilters.category} onValueChange={(value) => updateBookFilter("category", value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All categories</SelectItem>
+                {categoryTree.map(({ category, path }) => (
+                  <SelectItem key={category.id} value={category.name}>{path}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={bookFilters.language} onValueChange={(value) => updateBookFilter("language", value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All languages</SelectItem>
+                <SelectItem value="Kannada">Kannada</SelectItem>
+                <SelectItem value="Malayalam">Malayalam</SelectItem>
+                <SelectItem value="English">English</SelectItem>
+                <SelectItem value="Arabic">Arabic</SelectItem>
+                <SelectItem value="Urdu">Urdu</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={bookFilters.status} onValueChange={(value) => updateBookFilter("status", value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any status</SelectItem>
+                <SelectItem value="available">Available</SelectItem>
+                <SelectItem value="issued">Issued</SelectItem>
+                <SelectItem value="reserved">Reserved</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={bookFilters.sortBy} onValueChange={(value) => updateBookFilter("sortBy", value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="title">Sort by title</SelectItem>
+                <SelectItem value="author">Sort by author</SelectItem>
+                <SelectItem value="category">Sort by category</SelectItem>
+                <SelectItem value="createdAt">Newest first</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
+        <LabelPrintBar kind="books" selectedIds={selectedBooks} onClear={() => setSelectedBooks([])} />
+
         {/* Books List */}
-        {filteredBooks.length > 0 ? (
+        {books.length > 0 ? (
           <div className="space-y-4">
-            {filteredBooks.map((book) => (
+            {books.map((book) => (
               <div key={book.id} className="border rounded-lg p-4">
                 {editingBook === book.id ? (
                   /* Edit Mode */
                   <div className="space-y-4">
+                    <BookCoverField
+                      bookId={book.id}
+                      coverImage={editForm.coverImage ?? null}
+                      onChange={(coverImage) => setEditForm({ ...editForm, coverImage })}
+                    />
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div>
                         <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
@@ -579,16 +1028,16 @@ export default function LibraryTab() {
                       <div>
                         <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
                         <Select 
-                          value={editForm.category || ""} 
-                          onValueChange={(value) => setEditForm({ ...editForm, category: value })}
+                          value={editForm.categoryId ? String(editForm.categoryId) : ""} 
+                          onValueChange={(value) => setEditForm({ ...editForm, categoryId: Number(value) })}
                         >
                           <SelectTrigger>
                             <SelectValue placeholder="Select category" />
                           </SelectTrigger>
                           <SelectContent>
-                            {categories.map((category) => (
-                              <SelectItem key={category.id} value={category.name}>
-                                {category.name}
+                            {categoryTree.map(({ category, path }) => (
+                              <SelectItem key={category.id} value={String(category.id)}>
+                                {path}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -605,9 +1054,11 @@ export default function LibraryTab() {
                         <label className="block text-sm font-medium text-gray-700 mb-1">Price (₹)</label>
                         <Input
                           type="number"
+                          step={1}
                           value={editForm.price || 0}
                           onChange={(e) => setEditForm({ ...editForm, price: parseFloat(e.target.value) || 0 })}
                         />
+                        {editPriceError && <p className="text-sm font-medium text-destructive mt-1">{editPriceError}</p>}
                       </div>
                     </div>
                     
@@ -616,7 +1067,7 @@ export default function LibraryTab() {
                         <X className="w-4 h-4 mr-2" />
                         Cancel
                       </Button>
-                      <Button onClick={handleSaveEdit} disabled={updateBook.isPending}>
+                      <Button onClick={handleSaveEdit} disabled={updateBook.isPending || editPriceError !== null}>
                         <Save className="w-4 h-4 mr-2" />
                         {updateBook.isPending ? "Saving..." : "Save"}
                       </Button>
@@ -625,11 +1076,17 @@ export default function LibraryTab() {
                 ) : (
                   /* View Mode */
                   <div className="flex items-center justify-between">
+                    <Checkbox
+                      className="mr-4"
+                      checked={selectedBooks.includes(book.id)}
+                      onCheckedChange={(checked) => toggleBookSelection(book.id, checked === true)}
+                      aria-label={`Select ${book.title} for labels or MARC export`}
+                    />
                     <div className="flex-1">
                       <div className="flex items-center space-x-4 mb-2">
                         <h3 className="font-semibold text-gray-900">{book.title}</h3>
-                        <Badge className={getStatusColor(book.status)}>
-                          {book.status.charAt(0).toUpperCase() + book.status.slice(1)}
+                        <Badge className={getStatusColor(book.availableCopies > 0 ? "available" : book.status)}>
+                          {book.availableCopies} of {book.totalCopies} available
                         </Badge>
                       </div>
                       <div className="grid grid-cols-1 md:grid-cols-4 gap-2 text-sm text-gray-600">
@@ -640,28 +1097,43 @@ export default function LibraryTab() {
                       </div>
                       <div className="mt-1 text-xs text-gray-500">
                         DDC: {book.ddc} • Language: {book.language}
+                        {book.isbn && ` • ISBN: ${book.isbn}`}
+                        {book.publicationYear && ` • ${book.publicationYear}`}
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => handleEditBook(book)}
+                        onClick={() => setExpandedCopies(expandedCopies === book.id ? null : book.id)}
                       >
-                        <Edit className="w-4 h-4 mr-2" />
-                        Edit
+                        <Copy className="w-4 h-4 mr-2" />
+                        Copies
                       </Button>
                       <Button
-                        variant="destructive"
+                        variant="outline"
                         size="sm"
-                        onClick={() => deleteBook.mutate(book.id)}
-                        disabled={deleteBook.isPending}
+                        onClick={() => handleEditBook(book)}
                       >
-                        <Trash2 className="w-4 h-4" />
+                        <Edit className="w-4 h-4 mr-2" />
+                        Edit
                       </Button>
+                      {can("records:delete") && (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => deleteBook.mutate(book.id)}
+                          disabled={deleteBook.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 )}
+                {expandedCopies === book.id && editingBook !== book.id && (
+                  <BookCopiesPanel bookId={book.id} />
+                )}
               </div>
             ))}
           </div>
@@ -669,12 +1141,23 @@ export default function LibraryTab() {
           <div className="text-center py-12">
             <div className="text-gray-400 text-4xl mb-4">📚</div>
             <p className="text-gray-600">
-              {bookSearch ? "No books match your search criteria." : "No books available in the library."}
+              {hasBookFilters ? "No books match your search criteria." : "No books available in the library."}
             </p>
           </div>
         )}
+
+        {bookResults && (
+          <ListPagination
+            page={bookResults.page}
+            pageSize={bookResults.pageSize}
+            total={bookResults.total}
+            onPageChange={setBookPage}
+          />
+        )}
       </CardContent>
     </Card>
+
+    <ImportBooksModal open={showImportModal} onOpenChange={setShowImportModal} />
     </div>
   );
 }
@@ -0,0 +1,74 @@
+import type { MouseEvent } from "react";
+import {
+  Pagination, PaginationContent, PaginationEllipsis, PaginationItem,
+  PaginationLink, PaginationNext, PaginationPrevious
+} from "@/components/ui/pagination";
+
+interface ListPaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+// Page numbers to show: the first, the last and two either side of the current one
+function visiblePages(page: number, pageCount: number): (number | "gap")[] {
+  const pages: (number | "gap")[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 2) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== "gap") {
+      pages.push("gap");
+    }
+  }
+  return pages;
+}
+
+export default function ListPagination({ page, pageSize, total, onPageChange }: ListPaginationProps) {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  if (pageCount <= 1) return null;
+
+  const goTo = (target: number) => (e: MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between mt-6">
+      <p className="text-sm text-gray-600 whitespace-nowrap">
+        {(page - 1) * pageSize + 1}–{Math.min(page * pageSize, total)} of {total}
+      </p>
+      <Pagination className="justify-end">
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              href="#"
+              onClick={goTo(page - 1)}
+              className={page === 1 ? "pointer-events-none opacity-50" : undefined}
+            />
+          </PaginationItem>
+          {visiblePages(page, pageCount).map((p, index) => (
+            <PaginationItem key={p === "gap" ? `gap-${index}` : p}>
+              {p === "gap" ? (
+                <PaginationEllipsis />
+              ) : (
+                <PaginationLink href="#" isActive={p === page} onClick={goTo(p)}>
+                  {p}
+                </PaginationLink>
+              )}
+            </PaginationItem>
+          ))}
+          <PaginationItem>
+            <PaginationNext
+              href="#"
+              onClick={goTo(page + 1)}
+              className={page === pageCount ? "pointer-events-none opacity-50" : undefined}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    </div>
+  );
+}
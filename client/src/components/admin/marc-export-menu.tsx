@@ -0,0 +1,38 @@
+import { FileCode, Library } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { openExport } from "@/lib/queryClient";
+
+interface MarcExportMenuProps {
+  filters: Record<string, unknown>; // the book list filters
+  selectedIds: number[];
+}
+
+// MARC 21 download of the ticked books, or of the whole filtered list when
+// none are ticked, for sharing with other catalogues
+export default function MarcExportMenu({ filters, selectedIds }: MarcExportMenuProps) {
+  const exportFilters = selectedIds.length > 0 ? { bookIds: selectedIds.join(",") } : filters;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Library className="w-4 h-4 mr-2" />
+          {selectedIds.length > 0 ? `MARC (${selectedIds.length} selected)` : "MARC"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => openExport("/api/export/books/marc", exportFilters, "mrc")}>
+          <Library className="w-4 h-4 mr-2" />
+          MARC 21 (.mrc)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => openExport("/api/export/books/marc", exportFilters, "xml")}>
+          <FileCode className="w-4 h-4 mr-2" />
+          MARCXML (.xml)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
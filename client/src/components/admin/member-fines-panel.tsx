@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import type { FineTransaction, FineWithDetails } from "@shared/schema";
+
+interface MemberFinesPanelProps {
+  memberId: number;
+}
+
+export default function MemberFinesPanel({ memberId }: MemberFinesPanelProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [activeFineId, setActiveFineId] = useState<number | null>(null);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: fines = [] } = useQuery<FineWithDetails[]>({
+    queryKey: [`/api/fines?memberId=${memberId}`],
+  });
+
+  const recordTransaction = useMutation({
+    mutationFn: async ({ fineId, data }: { fineId: number; data: FineTransaction }) => {
+      const response = await apiRequest("POST", `/api/fines/${fineId}/payments`, data);
+      return response.json();
+    },
+    onSuccess: (_fine, { data }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/fines?memberId=${memberId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/fines/balances"] });
+      toast({
+        title: "Success",
+        description: data.kind === "waiver" ? "Fine waived successfully!" : "Payment recorded successfully!",
+      });
+      setActiveFineId(null);
+      setAmount("");
+      setReason("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to record payment. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRecord = (fineId: number, kind: FineTransaction["kind"]) => {
+    const value = parseInt(amount);
+    if (value > 0) {
+      recordTransaction.mutate({ fineId, data: { kind, amount: value, reason: reason.trim() || undefined } });
+    }
+  };
+
+  const outstandingOf = (fine: FineWithDetails) => fine.amount - fine.paidAmount - fine.waivedAmount;
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3">
+      {fines.map((fine) => (
+        <div key={fine.id} className="text-sm">
+          <div className="flex items-center justify-between">
+            <div>
+              <span className="font-medium text-gray-900">{fine.book.title}</span>
+              <span className="text-gray-600">
+                {" "}· {fine.daysOverdue} day(s) late × ₹{fine.ratePerDay} = ₹{fine.amount}
+              </span>
+              {(fine.paidAmount > 0 || fine.waivedAmount > 0) && (
+                <span className="text-xs text-gray-500">
+                  {" "}(paid ₹{fine.paidAmount}, waived ₹{fine.waivedAmount})
+                </span>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              {fine.status === "settled" ? (
+                <Badge className="bg-green-100 text-green-800">Settled</Badge>
+              ) : (
+                <>
+                  <Badge className="bg-red-100 text-red-800">₹{outstandingOf(fine)} due</Badge>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setActiveFineId(activeFineId === fine.id ? null : fine.id);
+                      setAmount(String(outstandingOf(fine)));
+                      setReason("");
+                    }}
+                  >
+                    Settle
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {activeFineId === fine.id && (
+            <div className="grid grid-cols-12 gap-2 mt-2">
+              <Input
+                type="number"
+                min={1}
+                max={outstandingOf(fine)}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="col-span-2"
+              />
+              <Input
+                placeholder={can("fines:manage") ? "Reason (required to waive)" : "Note (optional)"}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className={can("fines:manage") ? "col-span-6" : "col-span-8"}
+              />
+              <Button
+                size="sm"
+                onClick={() => handleRecord(fine.id, "payment")}
+                disabled={recordTransaction.isPending}
+                className="col-span-2"
+              >
+                Record Payment
+              </Button>
+              {can("fines:manage") && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRecord(fine.id, "waiver")}
+                  disabled={recordTransaction.isPending || !reason.trim()}
+                  className="col-span-2"
+                >
+                  Waive
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {fines.length === 0 && (
+        <p className="text-sm text-gray-500">No fines recorded for this member.</p>
+      )}
+    </div>
+  );
+}
@@ -1,43 +1,92 @@
 import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Search, Users, Edit, Save, X, Trash2 } from "lucide-react";
+import { Search, Users, Edit, Save, X, Trash2, Receipt, Upload, Archive, ArchiveRestore, ArrowUpCircle } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
-import type { Member, InsertMember } from "@shared/schema";
+import MemberFinesPanel from "@/components/admin/member-fines-panel";
+import ListPagination from "@/components/admin/list-pagination";
+import ImportMembersModal from "@/components/modals/import-members-modal";
+import ExportMenu from "@/components/export-menu";
+import LabelPrintBar from "@/components/admin/label-print-bar";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { Member, InsertMember, MemberBalance, MemberListQuery, LibrarySettings, Paginated } from "@shared/schema";
+
+const MEMBERS_PAGE_SIZE = 20;
+const ALL_CLASSES = "all";
 
 const memberSchema = z.object({
   fullName: z.string().min(1, "Full name is required"),
   class: z.string().min(1, "Class is required"),
   registrationNo: z.string().min(1, "Registration number is required"),
+  email: z.string().trim().email("Enter a valid email address").or(z.literal("")),
+  phone: z.string().trim().regex(/^(\+?[\d\s-]{7,20})?$/, "Enter a phone number such as +919876543210"),
 });
 
 type MemberForm = z.infer<typeof memberSchema>;
 
 export default function MembersTab() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
+  const [classFilter, setClassFilter] = useState(ALL_CLASSES);
+  const [statusFilter, setStatusFilter] = useState<MemberListQuery["status"]>("active");
+  const [memberPage, setMemberPage] = useState(1);
   const [editingMember, setEditingMember] = useState<number | null>(null);
   const [editForm, setEditForm] = useState<Partial<Member>>({});
+  const [expandedFines, setExpandedFines] = useState<number | null>(null);
+  const [settingsForm, setSettingsForm] = useState<Partial<LibrarySettings> | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [selectedMembers, setSelectedMembers] = useState<number[]>([]);
+  const [promotion, setPromotion] = useState({ fromClass: "", toClass: "" });
+
+  const memberFilters = {
+    q: searchQuery,
+    class: classFilter === ALL_CLASSES ? undefined : classFilter,
+    status: statusFilter,
+  };
+  const { data: memberResults } = useQuery<Paginated<Member>>({
+    queryKey: ["/api/members", { page: memberPage, pageSize: MEMBERS_PAGE_SIZE, ...memberFilters }],
+    placeholderData: keepPreviousData,
+  });
+  const members = memberResults?.items ?? [];
 
-  const { data: members = [] } = useQuery<Member[]>({
-    queryKey: ["/api/members"],
+  const { data: memberClasses = [] } = useQuery<string[]>({
+    queryKey: ["/api/members/classes"],
   });
 
+  const { data: balances = [] } = useQuery<MemberBalance[]>({
+    queryKey: ["/api/fines/balances"],
+  });
+
+  const { data: librarySettings } = useQuery<LibrarySettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const toggleMemberSelection = (id: number, selected: boolean) => {
+    setSelectedMembers(selected ? [...selectedMembers, id] : selectedMembers.filter((memberId) => memberId !== id));
+  };
+
+  const balanceOf = (memberId: number) => balances.find(balance => balance.memberId === memberId);
+
   const form = useForm<MemberForm>({
     resolver: zodResolver(memberSchema),
     defaultValues: {
       fullName: "",
       class: "",
       registrationNo: "",
+      email: "",
+      phone: "",
     },
   });
 
@@ -48,6 +97,7 @@ export default function MembersTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/members"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/classes"] });
       toast({
         title: "Success",
         description: "Member added successfully!",
@@ -80,7 +130,7 @@ export default function MembersTab() {
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to update member. Please try again.",
+        description: getApiErrorMessage(error, "Failed to update member. Please try again."),
         variant: "destructive",
       });
     },
@@ -92,9 +142,10 @@ export default function MembersTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/members"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Success",
-        description: "Member deleted successfully!",
+        description: "Member moved to the Trash.",
       });
     },
     onError: (error) => {
@@ -106,8 +157,77 @@ export default function MembersTab() {
     },
   });
 
+  const setArchived = useMutation({
+    mutationFn: async ({ id, archived }: { id: number; archived: boolean }) => {
+      const response = await apiRequest("POST", `/api/members/${id}/${archived ? "archive" : "restore"}`);
+      return response.json();
+    },
+    onSuccess: (_member, { archived }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/members"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/classes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({
+        title: "Success",
+        description: archived ? "Member archived successfully!" : "Member restored successfully!",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update member. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const promoteClass = useMutation({
+    mutationFn: async (data: { fromClass: string; toClass: string }) => {
+      const response = await apiRequest("POST", "/api/members/promote", data);
+      return response.json() as Promise<{ promoted: number }>;
+    },
+    onSuccess: ({ promoted }, { fromClass, toClass }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/members"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/classes"] });
+      toast({
+        title: "Success",
+        description: `Moved ${promoted} member(s) from ${fromClass} to ${toClass}.`,
+      });
+      setPromotion({ fromClass: "", toClass: "" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to promote class. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSettings = useMutation({
+    mutationFn: async (data: Partial<LibrarySettings>) => {
+      const response = await apiRequest("PUT", "/api/settings", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/fines/balances"] });
+      toast({
+        title: "Success",
+        description: "Fine settings updated successfully!",
+      });
+      setSettingsForm(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update fine settings. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: MemberForm) => {
-    createMember.mutate(data);
+    createMember.mutate({ ...data, email: data.email || null, phone: data.phone || null });
   };
 
   const handleEditMember = (member: Member) => {
@@ -129,17 +249,16 @@ export default function MembersTab() {
     setEditForm({});
   };
 
-  const filteredMembers = members.filter(member =>
-    searchQuery === "" ||
-    member.fullName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    member.class.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    member.registrationNo.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-
   return (
     <Card>
       <div className="px-6 py-4 border-b border-gray-200">
-        <h2 className="text-xl font-semibold text-gray-900">Manage Members</h2>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-semibold text-gray-900">Manage Members</h2>
+          <Button variant="outline" size="sm" onClick={() => setShowImportModal(true)}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import Roster
+          </Button>
+        </div>
       </div>
       
       <CardContent className="p-6">
@@ -186,6 +305,36 @@ export default function MembersTab() {
                 </FormItem>
               )}
             />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="For due-date reminders (optional)" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input type="tel" placeholder="e.g. +919876543210 (optional)" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
             
             <Button type="submit" className="w-full" disabled={createMember.isPending}>
               {createMember.isPending ? "Adding..." : "Add Member"}
@@ -193,23 +342,136 @@ export default function MembersTab() {
           </form>
         </Form>
         
+        <div className="border-t border-gray-200 pt-6 mb-8">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Promote Class</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From class</label>
+              <Select
+                value={promotion.fromClass}
+                onValueChange={(fromClass) => setPromotion({ ...promotion, fromClass })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select class" />
+                </SelectTrigger>
+                <SelectContent>
+                  {memberClasses.map((memberClass) => (
+                    <SelectItem key={memberClass} value={memberClass}>{memberClass}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To class</label>
+              <Input
+                placeholder="e.g., 11th A"
+                value={promotion.toClass}
+                onChange={(e) => setPromotion({ ...promotion, toClass: e.target.value })}
+              />
+            </div>
+            <Button
+              onClick={() => promoteClass.mutate(promotion)}
+              disabled={!promotion.fromClass || !promotion.toClass.trim() || promoteClass.isPending}
+            >
+              <ArrowUpCircle className="w-4 h-4 mr-2" />
+              {promoteClass.isPending ? "Promoting..." : "Promote"}
+            </Button>
+          </div>
+        </div>
+
+        {can("fines:manage") && librarySettings && (
+          <div className="border-t border-gray-200 pt-6 mb-8">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Overdue Fines</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Fine per day (₹)</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={settingsForm?.fineRatePerDay ?? librarySettings.fineRatePerDay}
+                  onChange={(e) => setSettingsForm({ ...settingsForm, fineRatePerDay: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Block borrowing above (₹)</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={settingsForm?.fineBlockThreshold ?? librarySettings.fineBlockThreshold}
+                  onChange={(e) => setSettingsForm({ ...settingsForm, fineBlockThreshold: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <Button
+                onClick={() => settingsForm && updateSettings.mutate(settingsForm)}
+                disabled={!settingsForm || updateSettings.isPending}
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {updateSettings.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        )}
+
         <div className="border-t border-gray-200 pt-6">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Current Members</h3>
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Current Members</h3>
+            <ExportMenu path="/api/export/members" filters={memberFilters} />
+          </div>
           <div className="mb-4">
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
               <Input
                 placeholder="Search members by name, reg no, etc..."
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setMemberPage(1);
+                }}
                 className="pl-10"
               />
             </div>
+            <div className="flex flex-wrap gap-3 mt-3">
+              <Select
+                value={classFilter}
+                onValueChange={(value) => {
+                  setClassFilter(value);
+                  setMemberPage(1);
+                }}
+              >
+                <SelectTrigger className="md:w-60">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CLASSES}>All classes</SelectItem>
+                  {memberClasses.map((memberClass) => (
+                    <SelectItem key={memberClass} value={memberClass}>{memberClass}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={statusFilter}
+                onValueChange={(value) => {
+                  setStatusFilter(value as MemberListQuery["status"]);
+                  setMemberPage(1);
+                }}
+              >
+                <SelectTrigger className="md:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Active members</SelectItem>
+                  <SelectItem value="archived">Archived members</SelectItem>
+                  <SelectItem value="all">All members</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
           
-          {filteredMembers.length > 0 ? (
+          <LabelPrintBar kind="members" selectedIds={selectedMembers} onClear={() => setSelectedMembers([])} />
+
+          {members.length > 0 ? (
             <div className="space-y-3">
-              {filteredMembers.map((member) => (
+              {members.map((member) => (
                 <div key={member.id} className="border rounded-lg p-4">
                   {editingMember === member.id ? (
                     /* Edit Mode */
@@ -236,6 +498,22 @@ export default function MembersTab() {
                             onChange={(e) => setEditForm({ ...editForm, registrationNo: e.target.value })}
                           />
                         </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                          <Input
+                            type="email"
+                            value={editForm.email || ""}
+                            onChange={(e) => setEditForm({ ...editForm, email: e.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                          <Input
+                            type="tel"
+                            value={editForm.phone || ""}
+                            onChange={(e) => setEditForm({ ...editForm, phone: e.target.value })}
+                          />
+                        </div>
                       </div>
                       
                       <div className="flex justify-end space-x-2">
@@ -252,13 +530,32 @@ export default function MembersTab() {
                   ) : (
                     /* View Mode */
                     <div className="flex items-center justify-between">
+                      <Checkbox
+                        className="mr-4"
+                        checked={selectedMembers.includes(member.id)}
+                        onCheckedChange={(checked) => toggleMemberSelection(member.id, checked === true)}
+                        aria-label={`Select ${member.fullName} for an ID card`}
+                      />
                       <div className="flex-1">
                         <div className="flex items-center space-x-4 mb-2">
                           <h3 className="font-semibold text-gray-900">{member.fullName}</h3>
                           <Badge variant="secondary">{member.class}</Badge>
+                          {member.archivedAt && <Badge variant="outline">Archived</Badge>}
+                          {!!balanceOf(member.id)?.outstanding && (
+                            <Badge className="bg-red-100 text-red-800">
+                              Owes ₹{balanceOf(member.id)!.outstanding}
+                            </Badge>
+                          )}
+                          {!!balanceOf(member.id)?.accruing && (
+                            <Badge variant="outline" className="text-orange-700">
+                              +₹{balanceOf(member.id)!.accruing} accruing
+                            </Badge>
+                          )}
                         </div>
                         <div className="text-sm text-gray-600">
                           <span className="font-medium">Registration No:</span> {member.registrationNo}
+                          {member.email && <> • {member.email}</>}
+                          {member.phone && <> • {member.phone}</>}
                         </div>
                         {member.createdAt && (
                           <div className="mt-1 text-xs text-gray-500">
@@ -267,6 +564,14 @@ export default function MembersTab() {
                         )}
                       </div>
                       <div className="flex items-center space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setExpandedFines(expandedFines === member.id ? null : member.id)}
+                        >
+                          <Receipt className="w-4 h-4 mr-2" />
+                          Fines
+                        </Button>
                         <Button
                           variant="outline"
                           size="sm"
@@ -276,16 +581,39 @@ export default function MembersTab() {
                           Edit
                         </Button>
                         <Button
-                          variant="destructive"
+                          variant="outline"
                           size="sm"
-                          onClick={() => deleteMember.mutate(member.id)}
-                          disabled={deleteMember.isPending}
+                          onClick={() => setArchived.mutate({ id: member.id, archived: !member.archivedAt })}
+                          disabled={setArchived.isPending}
                         >
-                          <Trash2 className="w-4 h-4" />
+                          {member.archivedAt ? (
+                            <>
+                              <ArchiveRestore className="w-4 h-4 mr-2" />
+                              Restore
+                            </>
+                          ) : (
+                            <>
+                              <Archive className="w-4 h-4 mr-2" />
+                              Archive
+                            </>
+                          )}
                         </Button>
+                        {can("records:delete") && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => deleteMember.mutate(member.id)}
+                            disabled={deleteMember.isPending}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   )}
+                  {expandedFines === member.id && editingMember !== member.id && (
+                    <MemberFinesPanel memberId={member.id} />
+                  )}
                 </div>
               ))}
             </div>
@@ -293,12 +621,23 @@ export default function MembersTab() {
             <div className="text-center py-8">
               <Users className="w-12 h-12 text-gray-400 mx-auto mb-3" />
               <p className="text-gray-600">
-                {searchQuery ? "No members match your search." : "No members found."}
+                {searchQuery || classFilter !== ALL_CLASSES || statusFilter !== "active" ? "No members match your search." : "No members found."}
               </p>
             </div>
           )}
+
+          {memberResults && (
+            <ListPagination
+              page={memberResults.page}
+              pageSize={memberResults.pageSize}
+              total={memberResults.total}
+              onPageChange={setMemberPage}
+            />
+          )}
         </div>
       </CardContent>
+
+      <ImportMembersModal open={showImportModal} onOpenChange={setShowImportModal} />
     </Card>
   );
 }
@@ -0,0 +1,381 @@
+import { useState } from "react";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { Mail, RotateCw, Save, Send } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ListPagination from "@/components/admin/list-pagination";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import {
+  noticeChannels, noticeKindLabels, noticePlaceholders, noticeStatuses,
+  type LibrarySettings, type NoticeChannel, type NoticeKind, type NoticeRunResult, type NoticeTemplate,
+  type NoticeTemplateInput, type NoticeWithDetails, type Paginated,
+} from "@shared/schema";
+
+const NOTICES_PAGE_SIZE = 50;
+const ALL = "all";
+
+const channelLabels: Record<NoticeChannel, string> = {
+  email: "Email",
+  sms: "SMS",
+  whatsapp: "WhatsApp",
+  log: "Log (testing)",
+};
+
+const statusColors: Record<string, string> = {
+  sent: "bg-green-100 text-green-800",
+  pending: "bg-blue-100 text-blue-800",
+  failed: "bg-red-100 text-red-800",
+  skipped: "bg-gray-100 text-gray-800",
+};
+
+// Subject and message of one kind of reminder, saved on its own
+function TemplateEditor({ template }: { template: NoticeTemplate }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<NoticeTemplateInput | null>(null);
+  const current = draft ?? { subject: template.subject, body: template.body };
+
+  const saveTemplate = useMutation({
+    mutationFn: async (data: NoticeTemplateInput) => {
+      const response = await apiRequest("PUT", `/api/notice-templates/${template.kind}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notice-templates"] });
+      toast({
+        title: "Success",
+        description: `${noticeKindLabels[template.kind as NoticeKind]} template saved.`,
+      });
+      setDraft(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to save template. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900">{noticeKindLabels[template.kind as NoticeKind]}</h4>
+        <span className="text-xs text-gray-500">
+          {template.updatedAt ? `Edited ${new Date(template.updatedAt).toLocaleDateString()}` : "Default wording"}
+        </span>
+      </div>
+      <Input
+        value={current.subject}
+        onChange={(e) => setDraft({ ...current, subject: e.target.value })}
+        placeholder="Subject (used for email)"
+      />
+      <Textarea
+        rows={4}
+        value={current.body}
+        onChange={(e) => setDraft({ ...current, body: e.target.value })}
+        placeholder="Message"
+      />
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={() => draft && saveTemplate.mutate(draft)}
+          disabled={!draft || saveTemplate.isPending}
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saveTemplate.isPending ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function NoticesTab() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [kindFilter, setKindFilter] = useState(ALL);
+  const [channelFilter, setChannelFilter] = useState(ALL);
+  const [page, setPage] = useState(1);
+  const [settingsForm, setSettingsForm] = useState<Partial<LibrarySettings> | null>(null);
+
+  const noticeFilters = {
+    status: statusFilter === ALL ? undefined : statusFilter,
+    kind: kindFilter === ALL ? undefined : kindFilter,
+    channel: channelFilter === ALL ? undefined : channelFilter,
+  };
+  const { data: noticePage } = useQuery<Paginated<NoticeWithDetails>>({
+    queryKey: ["/api/notices", { page, pageSize: NOTICES_PAGE_SIZE, ...noticeFilters }],
+    placeholderData: keepPreviousData,
+  });
+  const notices = noticePage?.items ?? [];
+
+  const { data: channels = [] } = useQuery<NoticeChannel[]>({
+    queryKey: ["/api/notices/channels"],
+  });
+
+  const { data: templates = [] } = useQuery<NoticeTemplate[]>({
+    queryKey: ["/api/notice-templates"],
+  });
+
+  const { data: librarySettings } = useQuery<LibrarySettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const changeFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const runReminders = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/notices/run");
+      return response.json() as Promise<NoticeRunResult>;
+    },
+    onSuccess: ({ generated, sent, failed, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notices"] });
+      toast({
+        title: "Success",
+        description: generated === 0 && failed === 0
+          ? "No loans need a reminder right now."
+          : `${generated} new notice(s): ${sent} sent, ${failed} failed, ${skipped} skipped.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to send reminders. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resendNotice = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/notices/${id}/resend`);
+      return response.json() as Promise<NoticeWithDetails>;
+    },
+    onSuccess: (notice) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notices"] });
+      toast({
+        title: notice.status === "sent" ? "Success" : "Not sent",
+        description: notice.status === "sent" ? "Notice sent." : notice.error ?? "The notice could not be sent.",
+        variant: notice.status === "sent" ? "default" : "destructive",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to resend notice. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSettings = useMutation({
+    mutationFn: async (data: Partial<LibrarySettings>) => {
+      const response = await apiRequest("PUT", "/api/notices/settings", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Success",
+        description: "Reminder settings updated successfully!",
+      });
+      setSettingsForm(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update reminder settings. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center space-x-2">
+            <Mail className="w-5 h-5 text-gray-600" />
+            <h2 className="text-xl font-semibold text-gray-900">Reminders</h2>
+          </div>
+          <Button onClick={() => runReminders.mutate()} disabled={runReminders.isPending}>
+            <Send className="w-4 h-4 mr-2" />
+            {runReminders.isPending ? "Sending..." : "Send Reminders Now"}
+          </Button>
+        </div>
+      </div>
+
+      <CardContent className="p-6">
+        <div className="flex flex-wrap items-center gap-2 mb-2 text-sm text-gray-700">
+          <span>Sending by:</span>
+          {channels.map((channel) => (
+            <Badge key={channel} variant="outline">{channelLabels[channel]}</Badge>
+          ))}
+        </div>
+        {channels.length === 1 && channels[0] === "log" && (
+          <p className="text-sm text-gray-500 mb-6">
+            No email, SMS or WhatsApp channel is set up, so notices are only written to the server log.
+          </p>
+        )}
+        <p className="text-sm text-gray-500 mb-6">
+          Reminders are checked every hour. Members are reached on every channel they have contact details for.
+        </p>
+
+        {librarySettings && (
+          <div className="border-t border-gray-200 pt-6 mb-8">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Schedule</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Remind days before due (0 = off)</label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={30}
+                  value={settingsForm?.dueReminderDays ?? librarySettings.dueReminderDays}
+                  onChange={(e) => setSettingsForm({ ...settingsForm, dueReminderDays: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Repeat overdue notice every (days, 0 = once)</label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={90}
+                  value={settingsForm?.overdueNoticeIntervalDays ?? librarySettings.overdueNoticeIntervalDays}
+                  onChange={(e) => setSettingsForm({ ...settingsForm, overdueNoticeIntervalDays: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <Button
+                onClick={() => settingsForm && updateSettings.mutate(settingsForm)}
+                disabled={!settingsForm || updateSettings.isPending}
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {updateSettings.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="border-t border-gray-200 pt-6 mb-8">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Message Templates</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Placeholders:{" "}
+            {Object.entries(noticePlaceholders).map(([name, description], i) => (
+              <span key={name} title={description}>
+                {i > 0 && ", "}
+                <code className="text-xs bg-gray-100 px-1 rounded">{`{{${name}}}`}</code>
+              </span>
+            ))}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {templates.map((template) => (
+              <TemplateEditor key={`${template.kind}-${template.updatedAt}`} template={template} />
+            ))}
+          </div>
+        </div>
+
+        <div className="border-t border-gray-200 pt-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Delivery Log</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+            <Select value={statusFilter} onValueChange={changeFilter(setStatusFilter)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any status</SelectItem>
+                {noticeStatuses.map((status) => (
+                  <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={kindFilter} onValueChange={changeFilter(setKindFilter)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All reminders</SelectItem>
+                {Object.entries(noticeKindLabels).map(([kind, label]) => (
+                  <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={channelFilter} onValueChange={changeFilter(setChannelFilter)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All channels</SelectItem>
+                {noticeChannels.map((channel) => (
+                  <SelectItem key={channel} value={channel}>{channelLabels[channel]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {notices.length > 0 ? (
+            <div className="space-y-2">
+              {notices.map((notice) => (
+                <div key={notice.id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <Badge className={`capitalize ${statusColors[notice.status] ?? ""}`}>{notice.status}</Badge>
+                      <Badge variant="outline">{noticeKindLabels[notice.kind as NoticeKind] ?? notice.kind}</Badge>
+                      <span className="font-medium text-gray-900">{notice.member.fullName}</span>
+                      <span className="text-gray-600">· {notice.book.title}</span>
+                      <span className="text-gray-500">
+                        · {channelLabels[notice.channel as NoticeChannel] ?? notice.channel}
+                        {notice.recipient && ` to ${notice.recipient}`}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <span className="text-sm text-gray-500">
+                        {notice.createdAt ? new Date(notice.createdAt).toLocaleString() : ""}
+                      </span>
+                      {(notice.status === "failed" || notice.status === "skipped") && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => resendNotice.mutate(notice.id)}
+                          disabled={resendNotice.isPending}
+                        >
+                          <RotateCw className="w-4 h-4 mr-2" />
+                          Resend
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="mt-2 text-sm text-gray-700">{notice.body}</div>
+                  {notice.error && (
+                    <div className="mt-1 text-sm text-red-600">
+                      {notice.error}
+                      {notice.attempts > 1 && ` (after ${notice.attempts} attempts)`}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-gray-500">No notices match these filters.</div>
+          )}
+
+          {noticePage && (
+            <ListPagination
+              page={noticePage.page}
+              pageSize={noticePage.pageSize}
+              total={noticePage.total}
+              onPageChange={setPage}
+            />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
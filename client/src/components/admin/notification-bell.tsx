@@ -0,0 +1,120 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AlertTriangle, Bell, BookPlus, CheckCheck, Clock, MessageSquare, PackageCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import type { NotificationFeed, NotificationKind } from "@shared/schema";
+
+// The admin tab that deals with each kind of notification, and its icon
+const notificationKindDetails: Record<NotificationKind, { tab: string; icon: typeof Bell }> = {
+  suggestion: { tab: "feedback", icon: BookPlus },
+  review: { tab: "feedback", icon: MessageSquare },
+  overdue: { tab: "circulation", icon: Clock },
+  hold_ready: { tab: "circulation", icon: PackageCheck },
+  book_import_failed: { tab: "library", icon: AlertTriangle },
+  member_import_failed: { tab: "members", icon: AlertTriangle },
+};
+
+interface NotificationBellProps {
+  onOpenTab: (tab: string) => void;
+}
+
+export default function NotificationBell({ onOpenTab }: NotificationBellProps) {
+  const { toast } = useToast();
+
+  const { data: feed } = useQuery<NotificationFeed>({
+    queryKey: ["/api/notifications"],
+  });
+  const items = feed?.items ?? [];
+  const unreadCount = feed?.unreadCount ?? 0;
+
+  const markRead = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      const response = await apiRequest("POST", "/api/notifications/read", { ids });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update notifications. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          className="relative text-gray-600 hover:text-gray-900"
+          aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : "Notifications"}
+        >
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-medium flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-96">
+        <div className="flex items-center justify-between pr-2">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => markRead.mutate(undefined)}
+              disabled={markRead.isPending}
+            >
+              <CheckCheck className="w-3 h-3 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {items.length > 0 ? (
+          <div className="max-h-96 overflow-y-auto">
+            {items.map((notification) => {
+              const details = notificationKindDetails[notification.kind as NotificationKind];
+              const Icon = details?.icon ?? Bell;
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  className="items-start space-x-3 py-2 cursor-pointer"
+                  onSelect={() => {
+                    if (!notification.readAt) markRead.mutate([notification.id]);
+                    if (details) onOpenTab(details.tab);
+                  }}
+                >
+                  <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${notification.readAt ? "text-gray-400" : "text-primary"}`} />
+                  <div className="min-w-0 flex-1">
+                    <div className={`text-sm ${notification.readAt ? "text-gray-600" : "font-medium text-gray-900"}`}>
+                      {notification.title}
+                    </div>
+                    <div className="text-xs text-gray-600 break-words">{notification.message}</div>
+                    <div className="text-xs text-gray-400 mt-0.5">
+                      {notification.createdAt ? new Date(notification.createdAt).toLocaleString() : ""}
+                    </div>
+                  </div>
+                  {!notification.readAt && <span className="w-2 h-2 mt-1.5 rounded-full bg-primary shrink-0" />}
+                </DropdownMenuItem>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="py-6 text-center text-sm text-gray-500">No notifications yet.</div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
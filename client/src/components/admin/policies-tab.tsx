@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Scale, Edit, Save, X, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import {
+  defaultCirculationPolicy,
+  type Category, type CirculationPolicy, type InsertCirculationPolicy
+} from "@shared/schema";
+
+const ANY = "__any__";
+
+const emptyPolicy: InsertCirculationPolicy = { ...defaultCirculationPolicy };
+
+export default function PoliciesTab() {
+  const { toast } = useToast();
+  const [newPolicy, setNewPolicy] = useState<InsertCirculationPolicy>(emptyPolicy);
+  const [editingPolicy, setEditingPolicy] = useState<number | null>(null);
+  const [editForm, setEditForm] = useState<Partial<InsertCirculationPolicy>>({});
+
+  const { data: policies = [] } = useQuery<CirculationPolicy[]>({
+    queryKey: ["/api/circulation-policies"],
+  });
+
+  const { data: memberClasses = [] } = useQuery<string[]>({
+    queryKey: ["/api/members/classes"],
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const createPolicy = useMutation({
+    mutationFn: async (data: InsertCirculationPolicy) => {
+      const response = await apiRequest("POST", "/api/circulation-policies", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circulation-policies"] });
+      toast({
+        title: "Success",
+        description: "Policy added successfully!",
+      });
+      setNewPolicy(emptyPolicy);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to add policy. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updatePolicy = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Partial<InsertCirculationPolicy> }) => {
+      const response = await apiRequest("PUT", `/api/circulation-policies/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circulation-policies"] });
+      toast({
+        title: "Success",
+        description: "Policy updated successfully!",
+      });
+      setEditingPolicy(null);
+      setEditForm({});
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update policy. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePolicy = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/circulation-policies/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/circulation-policies"] });
+      toast({
+        title: "Success",
+        description: "Policy deleted successfully!",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to delete policy. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEditPolicy = (policy: CirculationPolicy) => {
+    setEditingPolicy(policy.id);
+    setEditForm({
+      loanPeriodDays: policy.loanPeriodDays,
+      maxLoans: policy.maxLoans,
+      maxRenewals: policy.maxRenewals,
+      loanable: policy.loanable,
+    });
+  };
+
+  const handleSaveEdit = () => {
+    if (editingPolicy) {
+      updatePolicy.mutate({ id: editingPolicy, data: editForm });
+    }
+  };
+
+  const describeScope = (policy: CirculationPolicy) => {
+    const memberClass = policy.memberClass ? `Class ${policy.memberClass}` : "All members";
+    const category = policy.category ?? "all categories";
+    return `${memberClass} · ${category}`;
+  };
+
+  return (
+    <Card>
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-900">Circulation Policies</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          The most specific matching policy applies: class and category, then class only, then category only, then the catch-all.
+          Without any match loans last {defaultCirculationPolicy.loanPeriodDays} days.
+        </p>
+      </div>
+
+      <CardContent className="p-6">
+        <div className="space-y-4 mb-8">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Member Class</label>
+              <Select
+                value={newPolicy.memberClass ?? ANY}
+                onValueChange={(value) => setNewPolicy({ ...newPolicy, memberClass: value === ANY ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any class</SelectItem>
+                  {memberClasses.map((memberClass) => (
+                    <SelectItem key={memberClass} value={memberClass}>{memberClass}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Book Category</label>
+              <Select
+                value={newPolicy.category ?? ANY}
+                onValueChange={(value) => setNewPolicy({ ...newPolicy, category: value === ANY ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any category</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.name}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Loan Period (days)</label>
+              <Input
+                type="number"
+                min={1}
+                value={newPolicy.loanPeriodDays}
+                onChange={(e) => setNewPolicy({ ...newPolicy, loanPeriodDays: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max Loans</label>
+              <Input
+                type="number"
+                min={0}
+                placeholder="No limit"
+                value={newPolicy.maxLoans ?? ""}
+                onChange={(e) => setNewPolicy({ ...newPolicy, maxLoans: e.target.value === "" ? null : parseInt(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max Renewals</label>
+              <Input
+                type="number"
+                min={0}
+                value={newPolicy.maxRenewals}
+                onChange={(e) => setNewPolicy({ ...newPolicy, maxRenewals: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="flex items-center space-x-2 pb-2">
+              <Switch
+                checked={newPolicy.loanable}
+                onCheckedChange={(loanable) => setNewPolicy({ ...newPolicy, loanable })}
+              />
+              <span className="text-sm text-gray-700">{newPolicy.loanable ? "May be borrowed" : "Reference only"}</span>
+            </div>
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={() => createPolicy.mutate(newPolicy)}
+            disabled={createPolicy.isPending}
+          >
+            {createPolicy.isPending ? "Adding..." : "Add Policy"}
+          </Button>
+        </div>
+
+        <div className="border-t border-gray-200 pt-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Current Policies</h3>
+
+          {policies.length > 0 ? (
+            <div className="space-y-3">
+              {policies.map((policy) => (
+                <div key={policy.id} className="border rounded-lg p-4">
+                  {editingPolicy === policy.id ? (
+                    /* Edit Mode */
+                    <div className="space-y-4">
+                      <h3 className="font-semibold text-gray-900">{describeScope(policy)}</h3>
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Loan Period (days)</label>
+                          <Input
+                            type="number"
+                            min={1}
+                            value={editForm.loanPeriodDays ?? ""}
+                            onChange={(e) => setEditForm({ ...editForm, loanPeriodDays: parseInt(e.target.value) || 1 })}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Max Loans</label>
+                          <Input
+                            type="number"
+                            min={0}
+                            placeholder="No limit"
+                            value={editForm.maxLoans ?? ""}
+                            onChange={(e) => setEditForm({ ...editForm, maxLoans: e.target.value === "" ? null : parseInt(e.target.value) })}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Max Renewals</label>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={editForm.maxRenewals ?? ""}
+                            onChange={(e) => setEditForm({ ...editForm, maxRenewals: parseInt(e.target.value) || 0 })}
+                          />
+                        </div>
+                        <div className="flex items-center space-x-2 pb-2">
+                          <Switch
+                            checked={editForm.loanable ?? true}
+                            onCheckedChange={(loanable) => setEditForm({ ...editForm, loanable })}
+                          />
+                          <span className="text-sm text-gray-700">{editForm.loanable ? "May be borrowed" : "Reference only"}</span>
+                        </div>
+                      </div>
+
+                      <div className="flex justify-end space-x-2">
+                        <Button variant="outline" onClick={() => setEditingPolicy(null)}>
+                          <X className="w-4 h-4 mr-2" />
+                          Cancel
+                        </Button>
+                        <Button onClick={handleSaveEdit} disabled={updatePolicy.isPending}>
+                          <Save className="w-4 h-4 mr-2" />
+                          {updatePolicy.isPending ? "Saving..." : "Save"}
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    /* View Mode */
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-4 mb-2">
+                          <h3 className="font-semibold text-gray-900">{describeScope(policy)}</h3>
+                          {!policy.loanable && <Badge className="bg-yellow-100 text-yellow-800">Reference only</Badge>}
+                        </div>
+                        {policy.loanable && (
+                          <div className="text-sm text-gray-600">
+                            {policy.loanPeriodDays} days · {policy.maxLoans ?? "unlimited"} loan(s) at a time · {policy.maxRenewals} renewal(s)
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleEditPolicy(policy)}
+                        >
+                          <Edit className="w-4 h-4 mr-2" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => deletePolicy.mutate(policy.id)}
+                          disabled={deletePolicy.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <Scale className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-600">No policies yet; every loan uses the defaults.</p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
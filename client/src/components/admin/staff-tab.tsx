@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { UserCog, Trash2, KeyRound } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import {
+  staffAccountSchema, staffRoles, staffRoleLabels, rolePermissions,
+  type StaffAccount, type StaffRole, type PublicAdminUser, type UpdateStaffAccount
+} from "@shared/schema";
+
+export default function StaffTab() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [resettingId, setResettingId] = useState<number | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+
+  const { data: staff = [] } = useQuery<PublicAdminUser[]>({
+    queryKey: ["/api/staff"],
+  });
+
+  const form = useForm<StaffAccount>({
+    resolver: zodResolver(staffAccountSchema),
+    defaultValues: {
+      username: "",
+      fullName: "",
+      password: "",
+      role: "assistant",
+    },
+  });
+
+  const createStaff = useMutation({
+    mutationFn: async (data: StaffAccount) => {
+      const response = await apiRequest("POST", "/api/staff", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+      toast({
+        title: "Success",
+        description: "Staff account created successfully!",
+      });
+      form.reset();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to create staff account. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateStaff = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: UpdateStaffAccount }) => {
+      const response = await apiRequest("PUT", `/api/staff/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+      toast({
+        title: "Success",
+        description: "Staff account updated successfully!",
+      });
+      setResettingId(null);
+      setNewPassword("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to update staff account. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteStaff = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/staff/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+      toast({
+        title: "Success",
+        description: "Staff account deleted successfully!",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to delete staff account. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: StaffAccount) => {
+    createStaff.mutate(data);
+  };
+
+  const handleResetPassword = (id: number) => {
+    if (newPassword.length >= 8) {
+      updateStaff.mutate({ id, data: { password: newPassword } });
+    }
+  };
+
+  return (
+    <Card>
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-900">Staff Accounts</h2>
+      </div>
+
+      <CardContent className="p-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="fullName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter full name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" placeholder="At least 8 characters" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a role" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {staffRoles.map((role) => (
+                          <SelectItem key={role} value={role}>{staffRoleLabels[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={createStaff.isPending}>
+              {createStaff.isPending ? "Creating..." : "Create Account"}
+            </Button>
+          </form>
+        </Form>
+
+        <div className="border-t border-gray-200 pt-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Current Staff</h3>
+
+          {staff.length > 0 ? (
+            <div className="space-y-3">
+              {staff.map((account) => (
+                <div key={account.id} className="border rounded-lg p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-4 mb-2">
+                        <h3 className="font-semibold text-gray-900">
+                          {account.fullName || account.username}
+                        </h3>
+                        <Badge variant="secondary">@{account.username}</Badge>
+                        {account.id === currentUser?.id && <Badge variant="outline">You</Badge>}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {rolePermissions[account.role as StaffRole]?.join(", ")}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Select
+                        value={account.role}
+                        onValueChange={(role) => updateStaff.mutate({ id: account.id, data: { role: role as StaffRole } })}
+                        disabled={updateStaff.isPending}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {staffRoles.map((role) => (
+                            <SelectItem key={role} value={role}>{staffRoleLabels[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setResettingId(resettingId === account.id ? null : account.id)}
+                      >
+                        <KeyRound className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => deleteStaff.mutate(account.id)}
+                        disabled={deleteStaff.isPending || account.id === currentUser?.id}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {resettingId === account.id && (
+                    <div className="flex gap-2 mt-4">
+                      <Input
+                        type="password"
+                        placeholder="New password (at least 8 characters)"
+                        value={newPassword}
+                        onChange={(e) => setNewPassword(e.target.value)}
+                        className="flex-1"
+                      />
+                      <Button
+                        onClick={() => handleResetPassword(account.id)}
+                        disabled={newPassword.length < 8 || updateStaff.isPending}
+                      >
+                        Reset Password
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <UserCog className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-600">No staff accounts found.</p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,189 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import type { Trash } from "@shared/schema";
+
+type TrashKind = "books" | "members" | "categories";
+
+// Restore paths differ: members reuse the roster archive endpoints
+const restorePaths: Record<TrashKind, (id: number) => string> = {
+  books: (id) => `/api/books/${id}/restore`,
+  members: (id) => `/api/members/${id}/restore`,
+  categories: (id) => `/api/categories/${id}/restore`,
+};
+
+// List queries that show records of each kind, refreshed after a restore
+const listQueries: Record<TrashKind, string[]> = {
+  books: ["/api/books"],
+  members: ["/api/members", "/api/members/classes"],
+  categories: ["/api/categories"],
+};
+
+interface TrashRow {
+  id: number;
+  title: string;
+  detail: string;
+  archivedAt: Date | null;
+  hasHistory: boolean;
+}
+
+export default function TrashTab() {
+  const { toast } = useToast();
+
+  const { data: trash } = useQuery<Trash>({
+    queryKey: ["/api/trash"],
+  });
+
+  const restore = useMutation({
+    mutationFn: async ({ kind, id }: { kind: TrashKind; id: number }) => {
+      await apiRequest("POST", restorePaths[kind](id));
+    },
+    onSuccess: (_data, { kind }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      for (const queryKey of listQueries[kind]) {
+        queryClient.invalidateQueries({ queryKey: [queryKey] });
+      }
+      toast({
+        title: "Success",
+        description: "Restored successfully!",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to restore. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purge = useMutation({
+    mutationFn: async ({ kind, id }: { kind: TrashKind; id: number }) => {
+      await apiRequest("DELETE", `/api/${kind}/${id}/purge`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({
+        title: "Success",
+        description: "Deleted permanently.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to delete permanently. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sections: { kind: TrashKind; label: string; rows: TrashRow[] }[] = [
+    {
+      kind: "books",
+      label: "Books",
+      rows: (trash?.books ?? []).map((book) => ({
+        id: book.id,
+        title: book.title,
+        detail: `${book.author} · ${book.category}`,
+        archivedAt: book.archivedAt,
+        hasHistory: book.hasHistory,
+      })),
+    },
+    {
+      kind: "members",
+      label: "Members",
+      rows: (trash?.members ?? []).map((member) => ({
+        id: member.id,
+        title: member.fullName,
+        detail: `${member.class} · Reg. No. ${member.registrationNo}`,
+        archivedAt: member.archivedAt,
+        hasHistory: member.hasHistory,
+      })),
+    },
+    {
+      kind: "categories",
+      label: "Categories",
+      rows: (trash?.categories ?? []).map((category) => ({
+        id: category.id,
+        title: category.name,
+        detail: "",
+        archivedAt: category.archivedAt,
+        hasHistory: category.hasHistory,
+      })),
+    },
+  ];
+
+  const handlePurge = (kind: TrashKind, row: TrashRow) => {
+    if (confirm(`Delete "${row.title}" permanently? This cannot be undone.`)) {
+      purge.mutate({ kind, id: row.id });
+    }
+  };
+
+  return (
+    <Card>
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-900">Trash</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Deleted books, archived members and deleted categories. Records with loans, reviews or fines can only be restored.
+        </p>
+      </div>
+
+      <CardContent className="p-6 space-y-8">
+        {sections.map(({ kind, label, rows }) => (
+          <div key={kind}>
+            <h3 className="text-lg font-medium text-gray-900 mb-3">
+              {label} <span className="text-gray-500">({rows.length})</span>
+            </h3>
+            {rows.length > 0 ? (
+              <div className="space-y-2">
+                {rows.map((row) => (
+                  <div key={row.id} className="flex items-center justify-between border border-gray-200 rounded-lg p-3">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-gray-900">{row.title}</span>
+                        {row.hasHistory && <Badge variant="outline">Has history</Badge>}
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {[row.detail, row.archivedAt && `Deleted ${new Date(row.archivedAt).toLocaleDateString()}`]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restore.mutate({ kind, id: row.id })}
+                        disabled={restore.isPending}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handlePurge(kind, row)}
+                        disabled={row.hasHistory || purge.isPending}
+                        title={row.hasHistory ? "Kept for its history; it can only be restored" : undefined}
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Delete Permanently
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-sm text-gray-500">Nothing here.</div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,39 @@
+import { Download, FileSpreadsheet, FileText, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { openExport } from "@/lib/queryClient";
+
+interface ExportMenuProps {
+  path: string; // an /api/export endpoint
+  filters?: Record<string, unknown>;
+  label?: string;
+}
+
+export default function ExportMenu({ path, filters = {}, label = "Export / Print" }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="w-4 h-4 mr-2" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => openExport(path, filters, "csv")}>
+          <FileText className="w-4 h-4 mr-2" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => openExport(path, filters, "xlsx")}>
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Excel (XLSX)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => openExport(path, filters, "pdf")}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print (PDF)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Upload } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { flattenCategoryTree } from "@/lib/category-tree";
+import type { BookImportPreview, BookImportResult, BookImportRow, Category } from "@shared/schema";
+
+interface ImportBooksModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// MARC 21 and MARCXML files go to the MARC import, which reports by record
+function isMarcFile(file: File | null) {
+  return file !== null && /\.(mrc|marc|xml)$/i.test(file.name);
+}
+
+export default function ImportBooksModal({ open, onOpenChange }: ImportBooksModalProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<BookImportPreview | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [marcCategory, setMarcCategory] = useState("");
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+    enabled: open,
+  });
+  const categoryTree = flattenCategoryTree(categories.filter((category) => !category.archivedAt));
+
+  const isMarc = isMarcFile(file);
+  const importPath = isMarc ? "/api/books/import/marc" : "/api/books/import";
+  const rowLabel = isMarc ? "Record" : "Row";
+
+  const uploadForm = (extra: Record<string, string> = {}) => {
+    const formData = new FormData();
+    formData.append("file", file!);
+    if (isMarc) formData.append("category", marcCategory);
+    for (const [key, value] of Object.entries(extra)) {
+      formData.append(key, value);
+    }
+    return formData;
+  };
+
+  const previewImport = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${importPath}/preview`, uploadForm());
+      return response.json() as Promise<BookImportPreview>;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+    },
+    onError: (error) => {
+      setPreview(null);
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to read the file. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importBooks = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", importPath, uploadForm({ skipDuplicates: String(skipDuplicates) }));
+      return response.json() as Promise<BookImportResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/books"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      toast({
+        title: "Success",
+        description: `Imported ${result.imported} book(s)` +
+          (result.skipped > 0 ? `, skipped ${result.skipped} duplicate(s)` : "") +
+          (result.categoriesCreated > 0 ? `, created ${result.categoriesCreated} categor(ies)` : "") + ".",
+      });
+      handleOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to import books. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setFile(null);
+      setPreview(null);
+      setSkipDuplicates(true);
+      setMarcCategory("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const errorCount = preview?.rows.filter((row) => row.errors.length > 0).length ?? 0;
+  const duplicateCount = preview?.rows.filter((row) => row.duplicateOf).length ?? 0;
+  const importCount = (preview?.rows.length ?? 0) - (skipDuplicates ? duplicateCount : 0);
+
+  const describeDuplicate = (duplicateOf: NonNullable<BookImportRow["duplicateOf"]>) =>
+    duplicateOf.bookId !== null
+      ? `Already catalogued as book no. ${duplicateOf.bookId}`
+      : `Same as ${rowLabel.toLowerCase()} ${duplicateOf.rowNumber}`;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Books</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel (.xlsx) file with the columns Title, Author, Category, Language, Price, Publisher and DDC.
+            Copies, Shelf, ISBN, Edition, Year, Pages, Subjects (separated by ;) and Notes columns are optional.
+            MARC 21 (.mrc) and MARCXML (.xml) records from other catalogues can be imported too, into a category you choose.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-2">
+          <Input
+            type="file"
+            accept=".csv,.xlsx,.mrc,.marc,.xml"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setPreview(null);
+            }}
+          />
+          <Button
+            variant="outline"
+            onClick={() => previewImport.mutate()}
+            disabled={!file || (isMarc && !marcCategory) || previewImport.isPending}
+          >
+            {previewImport.isPending ? "Reading..." : "Preview"}
+          </Button>
+        </div>
+
+        {isMarc && (
+          <div className="flex items-center space-x-2 text-sm text-gray-700">
+            <span className="whitespace-nowrap">File the records under</span>
+            <Select
+              value={marcCategory}
+              onValueChange={(value) => {
+                setMarcCategory(value);
+                setPreview(null);
+              }}
+            >
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Select a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categoryTree.map(({ category, path }) => (
+                  <SelectItem key={category.id} value={category.name}>{path}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline">{preview.rows.length} {rowLabel.toLowerCase()}(s)</Badge>
+              {errorCount > 0 && <Badge className="bg-red-100 text-red-800">{errorCount} with errors</Badge>}
+              {duplicateCount > 0 && <Badge className="bg-yellow-100 text-yellow-800">{duplicateCount} likely duplicate(s)</Badge>}
+              {preview.newCategories.length > 0 && (
+                <span className="text-gray-600">New categories: {preview.newCategories.join(", ")}</span>
+              )}
+            </div>
+
+            <div className="rounded-md border max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{rowLabel}</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Author</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Copies</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row) => (
+                    <TableRow key={row.rowNumber} className={row.errors.length > 0 ? "bg-red-50" : undefined}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>{row.book?.title ?? "—"}</TableCell>
+                      <TableCell>{row.book?.author ?? "—"}</TableCell>
+                      <TableCell>{row.book?.category ?? "—"}</TableCell>
+                      <TableCell>{row.book?.copies ?? "—"}</TableCell>
+                      <TableCell>
+                        {row.errors.length > 0 ? (
+                          <span className="text-red-600">{row.errors.join("; ")}</span>
+                        ) : row.duplicateOf ? (
+                          <span className="text-yellow-700">{describeDuplicate(row.duplicateOf)}</span>
+                        ) : (
+                          <span className="text-green-600">Ready</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <Checkbox
+                  checked={skipDuplicates}
+                  onCheckedChange={(checked) => setSkipDuplicates(checked === true)}
+                />
+                <span>Skip likely duplicates</span>
+              </label>
+              <Button
+                onClick={() => importBooks.mutate()}
+                disabled={errorCount > 0 || importCount === 0 || importBooks.isPending}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {importBooks.isPending ? "Importing..." : `Import ${importCount} Book(s)`}
+              </Button>
+            </div>
+            {errorCount > 0 && (
+              <p className="text-sm text-red-600">
+                Fix the {rowLabel.toLowerCase()}s with errors in the file and preview it again.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Upload } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import type { MemberImportOptions, MemberImportPreview, MemberImportResult, MemberImportRow } from "@shared/schema";
+
+interface ImportMembersModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ImportMembersModal({ open, onOpenChange }: ImportMembersModalProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<MemberImportPreview | null>(null);
+  const [archiveMissing, setArchiveMissing] = useState<MemberImportOptions["archiveMissing"]>("none");
+  const [updateConflicts, setUpdateConflicts] = useState(false);
+
+  const uploadForm = (extra: Record<string, string> = {}) => {
+    const formData = new FormData();
+    formData.append("file", file!);
+    formData.append("archiveMissing", archiveMissing);
+    for (const [key, value] of Object.entries(extra)) {
+      formData.append(key, value);
+    }
+    return formData;
+  };
+
+  const previewImport = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/members/import/preview", uploadForm());
+      return response.json() as Promise<MemberImportPreview>;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+    },
+    onError: (error) => {
+      setPreview(null);
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to read the roster. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMembers = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/members/import", uploadForm({ updateConflicts: String(updateConflicts) }));
+      return response.json() as Promise<MemberImportResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/members"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/members/classes"] });
+      toast({
+        title: "Success",
+        description: `Added ${result.created}, updated ${result.updated}` +
+          (result.conflictsSkipped > 0 ? `, skipped ${result.conflictsSkipped} conflict(s)` : "") +
+          (result.archived > 0 ? `, archived ${result.archived}` : "") + ".",
+      });
+      handleOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to import members. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setFile(null);
+      setPreview(null);
+      setArchiveMissing("none");
+      setUpdateConflicts(false);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const countOf = (action: MemberImportRow["action"]) =>
+    preview?.rows.filter((row) => row.action === action).length ?? 0;
+  const errorCount = preview?.rows.filter((row) => row.errors.length > 0).length ?? 0;
+
+  const describeRow = (row: MemberImportRow) => {
+    switch (row.action) {
+      case "create":
+        return <span className="text-green-600">New member</span>;
+      case "update":
+        return (
+          <span className="text-blue-600">
+            {row.existing!.archivedAt ? "Restore and update" : `Update (was ${row.existing!.class})`}
+          </span>
+        );
+      case "unchanged":
+        return <span className="text-gray-500">No change</span>;
+      case "conflict":
+        return <span className="text-yellow-700">Registration no. belongs to {row.existing!.fullName}</span>;
+      default:
+        return <span className="text-red-600">{row.errors.join("; ")}</span>;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Class Roster</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel (.xlsx) file with the columns Full Name, Class and Registration No.
+            Email and Phone columns are optional. Members are matched by registration number.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <Input
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setPreview(null);
+            }}
+          />
+          <Select
+            value={archiveMissing}
+            onValueChange={(value) => {
+              setArchiveMissing(value as MemberImportOptions["archiveMissing"]);
+              setPreview(null);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Keep members not on the roster</SelectItem>
+              <SelectItem value="classes">Archive absent members of these classes</SelectItem>
+              <SelectItem value="all">Archive every absent member</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={() => previewImport.mutate()}
+            disabled={!file || previewImport.isPending}
+          >
+            {previewImport.isPending ? "Reading..." : "Preview"}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline">{preview.rows.length} row(s)</Badge>
+              <Badge className="bg-green-100 text-green-800">{countOf("create")} new</Badge>
+              <Badge className="bg-blue-100 text-blue-800">{countOf("update")} to update</Badge>
+              {countOf("conflict") > 0 && <Badge className="bg-yellow-100 text-yellow-800">{countOf("conflict")} conflict(s)</Badge>}
+              {errorCount > 0 && <Badge className="bg-red-100 text-red-800">{errorCount} with errors</Badge>}
+              {preview.toArchive.length > 0 && (
+                <Badge className="bg-gray-100 text-gray-800">{preview.toArchive.length} to archive</Badge>
+              )}
+            </div>
+
+            <div className="rounded-md border max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Registration No.</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Class</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row) => (
+                    <TableRow key={row.rowNumber} className={row.errors.length > 0 ? "bg-red-50" : undefined}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>{row.member?.registrationNo ?? "—"}</TableCell>
+                      <TableCell>{row.member?.fullName ?? "—"}</TableCell>
+                      <TableCell>{row.member?.class ?? "—"}</TableCell>
+                      <TableCell>{describeRow(row)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {preview.toArchive.length > 0 && (
+              <p className="text-sm text-gray-600">
+                Will archive: {preview.toArchive.map((member) => `${member.fullName} (${member.class})`).join(", ")}
+              </p>
+            )}
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <Checkbox
+                  checked={updateConflicts}
+                  onCheckedChange={(checked) => setUpdateConflicts(checked === true)}
+                  disabled={countOf("conflict") === 0}
+                />
+                <span>Overwrite conflicting members with the roster's names</span>
+              </label>
+              <Button
+                onClick={() => importMembers.mutate()}
+                disabled={errorCount > 0 || importMembers.isPending}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {importMembers.isPending ? "Importing..." : "Import Roster"}
+              </Button>
+            </div>
+            {errorCount > 0 && (
+              <p className="text-sm text-red-600">Fix the rows with errors in the file and preview it again.</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
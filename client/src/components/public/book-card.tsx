@@ -1,5 +1,6 @@
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
+import { coverUrl } from "@/lib/covers";
 import type { Book } from "@shared/schema";
 
 interface BookCardProps {
@@ -37,13 +38,23 @@ export default function BookCard({ book, borrower }: BookCardProps) {
   return (
     <Card className="hover:shadow-md transition-shadow">
       <CardContent className="p-4">
-        {/* Book Cover - Using a placeholder for now */}
-        <div className="w-full h-48 bg-gray-200 rounded-lg mb-3 flex items-center justify-center">
-          <div className="text-gray-500 text-center">
-            <div className="text-2xl mb-2">📚</div>
-            <div className="text-sm">No Cover</div>
+        {/* Book Cover */}
+        {book.coverImage ? (
+          <img
+            src={coverUrl(book.coverImage, "medium")}
+            srcSet={`${coverUrl(book.coverImage, "medium")} 1x, ${coverUrl(book.coverImage, "large")} 2x`}
+            alt={`Cover of ${book.title}`}
+            loading="lazy"
+            className="w-full h-48 object-contain bg-gray-100 rounded-lg mb-3"
+          />
+        ) : (
+          <div className="w-full h-48 bg-gray-200 rounded-lg mb-3 flex items-center justify-center">
+            <div className="text-gray-500 text-center">
+              <div className="text-2xl mb-2">📚</div>
+              <div className="text-sm">No Cover</div>
+            </div>
           </div>
-        </div>
+        )}
         
         <h3 className="font-medium text-gray-900 mb-1 line-clamp-2" title={book.title}>
           {book.title}
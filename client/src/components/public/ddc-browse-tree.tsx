@@ -0,0 +1,79 @@
+import { useQuery } from "@tanstack/react-query";
+import { ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { DdcTree } from "@shared/schema";
+
+interface DdcBrowseTreeProps {
+  // DDC prefix being browsed: one digit for a class ("8"), two for a
+  // division ("82"), or null for the whole collection
+  selected: string | null;
+  onSelect: (prefix: string | null) => void;
+}
+
+// Dewey Decimal browse: the ten main classes with their book counts, and the
+// divisions of the chosen class to drill into
+export default function DdcBrowseTree({ selected, onSelect }: DdcBrowseTreeProps) {
+  const { data: tree } = useQuery<DdcTree>({
+    queryKey: ["/api/books/ddc-tree"],
+  });
+
+  if (!tree) return null;
+
+  const openClass = selected ? tree.classes.find((ddcClass) => ddcClass.code[0] === selected[0]) : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        {tree.classes.map((ddcClass) => (
+          <button
+            key={ddcClass.code}
+            type="button"
+            onClick={() => onSelect(openClass?.code === ddcClass.code ? null : ddcClass.code[0])}
+            disabled={ddcClass.count === 0}
+            className={`text-left p-3 rounded-lg border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              openClass?.code === ddcClass.code ? "border-primary bg-primary/5" : "border-gray-200 hover:bg-gray-50"
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-mono font-semibold text-gray-900">{ddcClass.code}</span>
+              <span className="text-xs text-gray-500">{ddcClass.count}</span>
+            </div>
+            <div className="text-sm text-gray-700 mt-1 line-clamp-2">{ddcClass.name}</div>
+          </button>
+        ))}
+      </div>
+
+      {openClass && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant={selected === openClass.code[0] ? "default" : "outline"}
+            size="sm"
+            onClick={() => onSelect(openClass.code[0])}
+          >
+            All of {openClass.code}
+          </Button>
+          {openClass.divisions
+            .filter((division) => division.count > 0)
+            .map((division) => (
+              <Button
+                key={division.code}
+                variant={selected === division.code.slice(0, 2) ? "default" : "outline"}
+                size="sm"
+                onClick={() => onSelect(division.code.slice(0, 2))}
+              >
+                <ChevronRight className="w-3 h-3 mr-1" />
+                {division.code} {division.name}
+                <span className="ml-2 text-xs opacity-70">{division.count}</span>
+              </Button>
+            ))}
+        </div>
+      )}
+
+      {tree.unclassified > 0 && (
+        <p className="text-xs text-gray-500">
+          {tree.unclassified} book(s) have no DDC class number and appear only in the full collection.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END } from "@shared/schema";
+
+interface HighlightedTextProps {
+  text: string;
+}
+
+// Renders a search highlight from the server, marking the words between
+// SEARCH_HIGHLIGHT_START and SEARCH_HIGHLIGHT_END
+export default function HighlightedText({ text }: HighlightedTextProps) {
+  const parts = text.split(SEARCH_HIGHLIGHT_START);
+
+  return (
+    <>
+      {parts[0]}
+      {parts.slice(1).map((part, index) => {
+        const [highlighted, rest = ""] = part.split(SEARCH_HIGHLIGHT_END);
+        return (
+          <span key={index}>
+            <mark className="bg-yellow-200 rounded-sm px-0.5">{highlighted}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
+}
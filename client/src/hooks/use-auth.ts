@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import { hasPermission, type Permission, type PublicAdminUser } from "@shared/schema";
+
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicAdminUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const can = (permission: Permission) => !!user && hasPermission(user.role, permission);
+
+  return { user: user ?? null, isLoading, can };
+}
@@ -0,0 +1,72 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { EntityChangeEvent, LiveEntityType } from "@shared/schema";
+
+// The queries (by key prefix) that show each kind of record. A prefix also
+// covers longer keys, e.g. /api/books covers /api/books/search.
+const affectedQueries: Record<LiveEntityType, string[]> = {
+  book: ["/api/books", "/api/categories", "/api/trash", "/api/analytics"],
+  copy: ["/api/books", "/api/analytics"],
+  member: ["/api/members", "/api/trash", "/api/analytics"],
+  category: ["/api/categories", "/api/books", "/api/trash"],
+  suggestion: ["/api/book-suggestions"],
+  review: ["/api/book-reviews", "/api/books"],
+  circulation: ["/api/circulation", "/api/books", "/api/analytics", "/api/reservations", "/api/fines", "/api/members"],
+  policy: ["/api/circulation-policies"],
+  reservation: ["/api/reservations", "/api/books"],
+  fine: ["/api/fines", "/api/members"],
+  settings: ["/api/settings"],
+  staff: ["/api/staff"],
+  template: ["/api/notice-templates"],
+  notification: ["/api/notifications"],
+  notice: ["/api/notices"],
+};
+
+// Events arriving this close together are handled as one refetch
+const BATCH_MS = 250;
+
+function invalidate(prefixes: Set<string>) {
+  queryClient.invalidateQueries({
+    predicate: ({ queryKey }) =>
+      typeof queryKey[0] === "string" && Array.from(prefixes).some((prefix) => (queryKey[0] as string).startsWith(prefix)),
+  });
+}
+
+// Keeps the dashboard in step with changes other staff make: listens to the
+// server's change stream and refetches the queries showing what changed. The
+// browser reconnects a dropped stream by itself; everything is refetched then,
+// since changes made in between were missed.
+export function useLiveUpdates(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const source = new EventSource("/api/live", { withCredentials: true });
+    let pending = new Set<string>(["/api/audit"]);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let disconnected = false;
+
+    source.addEventListener("change", (message) => {
+      const { entityTypes } = JSON.parse((message as MessageEvent<string>).data) as EntityChangeEvent;
+      for (const entityType of entityTypes) {
+        affectedQueries[entityType]?.forEach((prefix) => pending.add(prefix));
+      }
+      timer ??= setTimeout(() => {
+        invalidate(pending);
+        pending = new Set(["/api/audit"]);
+        timer = undefined;
+      }, BATCH_MS);
+    });
+    source.addEventListener("error", () => {
+      disconnected = true;
+    });
+    source.addEventListener("open", () => {
+      if (disconnected) queryClient.invalidateQueries();
+      disconnected = false;
+    });
+
+    return () => {
+      clearTimeout(timer);
+      source.close();
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,50 @@
+import type { Category } from "@shared/schema";
+
+export type CategoryTreeRow<T extends Category> = {
+  category: T;
+  depth: number;
+  // Names from the top-level category down, e.g. "Islamic Studies › Hadith"
+  path: string;
+};
+
+// Orders categories depth-first, each parent followed by its subcategories,
+// alphabetically at every level
+export function flattenCategoryTree<T extends Category>(categories: T[]): CategoryTreeRow<T>[] {
+  const ids = new Set(categories.map((category) => category.id));
+  const children = new Map<number | null, T[]>();
+  for (const category of categories) {
+    // A parent missing from the list (e.g. filtered out) shows its
+    // subcategories at the top level
+    const parentId = category.parentId !== null && ids.has(category.parentId) ? category.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), category]);
+  }
+
+  const rows: CategoryTreeRow<T>[] = [];
+  const visit = (parentId: number | null, depth: number, parentPath: string) => {
+    const level = (children.get(parentId) ?? []).sort((a, b) => a.name.localeCompare(b.name));
+    for (const category of level) {
+      const path = parentPath ? `${parentPath} › ${category.name}` : category.name;
+      rows.push({ category, depth, path });
+      visit(category.id, depth + 1, path);
+    }
+  };
+  visit(null, 0, "");
+  return rows;
+}
+
+// The category and every category nested under it; none of these can become
+// its parent
+export function categorySubtreeIds(categories: Category[], id: number): Set<number> {
+  const subtree = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const category of categories) {
+      if (category.parentId !== null && subtree.has(category.parentId) && !subtree.has(category.id)) {
+        subtree.add(category.id);
+        grew = true;
+      }
+    }
+  }
+  return subtree;
+}
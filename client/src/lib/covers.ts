@@ -0,0 +1,8 @@
+import type { CoverSize } from "@shared/schema";
+
+// Image URL for a book's cover at the given size. Uploaded covers are stored
+// as "/covers/<key>" with one file per size; any other value is already a
+// full image URL.
+export function coverUrl(coverImage: string, size: CoverSize) {
+  return coverImage.startsWith("/covers/") ? `${coverImage}-${size}.webp` : coverImage;
+}
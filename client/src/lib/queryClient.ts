@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { ExportFormat, MarcFormat } from "@shared/schema";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,15 +8,32 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Extracts the `error` message from an API failure thrown by apiRequest,
+// falling back to the given text for network or unexpected errors.
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  const match = error instanceof Error && error.message.match(/^\d{3}: ([\s\S]*)$/);
+  if (match) {
+    try {
+      const body = JSON.parse(match[1]);
+      if (typeof body?.error === "string") return body.error;
+    } catch {
+      // not a JSON body
+    }
+  }
+  return fallback;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  // FormData (file uploads) is sent as multipart with the browser's boundary
+  const isForm = data instanceof FormData;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: data && !isForm ? { "Content-Type": "application/json" } : {},
+    body: isForm ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
@@ -23,13 +41,46 @@ export async function apiRequest(
   return res;
 }
 
+// Builds the request URL from a query key: string segments form the path and
+// an object segment becomes the query string, e.g.
+// ["/api/books", { page: 2, q: "tagore" }] -> "/api/books?page=2&q=tagore".
+// Empty values are left out so filters can be passed through unconditionally.
+export function buildQueryUrl(queryKey: readonly unknown[]): string {
+  const path = queryKey.filter((segment) => typeof segment !== "object" || segment === null).join("/");
+  const params = new URLSearchParams();
+  for (const segment of queryKey) {
+    if (typeof segment !== "object" || segment === null) continue;
+    for (const [key, value] of Object.entries(segment)) {
+      if (value !== undefined && value !== null && value !== "") {
+        params.set(key, String(value));
+      }
+    }
+  }
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+// Opens an export endpoint with the given filters. Spreadsheets and MARC
+// files download; PDFs open in a new tab, ready to print.
+export function openExport(path: string, filters: Record<string, unknown>, format: ExportFormat | MarcFormat) {
+  const url = buildQueryUrl([path, { ...filters, format }]);
+  if (format === "pdf") {
+    window.open(url, "_blank");
+    return;
+  }
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "";
+  link.click();
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(buildQueryUrl(queryKey), {
       credentials: "include",
     });
 
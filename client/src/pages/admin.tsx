@@ -1,32 +1,71 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
-import { ChartLine, Bell, LogOut } from "lucide-react";
+import { ChartLine, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import CirculationTab from "@/components/admin/circulation-tab";
+import DeskTab from "@/components/admin/desk-tab";
 import LibraryTab from "@/components/admin/library-tab";
 import MembersTab from "@/components/admin/members-tab";
 import FeedbackTab from "@/components/admin/feedback-tab";
 import EnhancedHistoryTab from "@/components/admin/enhanced-history-tab";
+import StaffTab from "@/components/admin/staff-tab";
+import PoliciesTab from "@/components/admin/policies-tab";
+import NoticesTab from "@/components/admin/notices-tab";
+import AuditTab from "@/components/admin/audit-tab";
+import TrashTab from "@/components/admin/trash-tab";
+import NotificationBell from "@/components/admin/notification-bell";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 import ViewReportsModal from "@/components/modals/view-reports-modal";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { staffRoleLabels, type Permission, type StaffRole } from "@shared/schema";
+
+const adminTabs: { value: string; label: string; permission: Permission; component: () => JSX.Element }[] = [
+  { value: "circulation", label: "Circulation", permission: "circulation:manage", component: CirculationTab },
+  { value: "desk", label: "Desk", permission: "circulation:manage", component: DeskTab },
+  { value: "library", label: "Library", permission: "catalogue:edit", component: LibraryTab },
+  { value: "members", label: "Members", permission: "members:manage", component: MembersTab },
+  { value: "feedback", label: "Feedback", permission: "feedback:view", component: FeedbackTab },
+  { value: "history", label: "History", permission: "history:view", component: EnhancedHistoryTab },
+  { value: "policies", label: "Policies", permission: "policies:manage", component: PoliciesTab },
+  { value: "notices", label: "Notices", permission: "notices:manage", component: NoticesTab },
+  { value: "staff", label: "Staff", permission: "staff:manage", component: StaffTab },
+  { value: "trash", label: "Trash", permission: "records:delete", component: TrashTab },
+  { value: "audit", label: "Audit", permission: "audit:view", component: AuditTab },
+];
 
 export default function Admin() {
   const [, navigate] = useLocation();
   const [showReportsModal, setShowReportsModal] = useState(false);
+  const [activeTab, setActiveTab] = useState<string>();
+
+  const { user: currentUser, isLoading: userLoading, can } = useAuth();
+  useLiveUpdates(!!currentUser);
 
   // Check if user is logged in
   useEffect(() => {
-    const isLoggedIn = localStorage.getItem("isAdminLoggedIn");
-    if (!isLoggedIn) {
+    if (!userLoading && !currentUser) {
       navigate("/login");
     }
-  }, [navigate]);
+  }, [userLoading, currentUser, navigate]);
 
-  const handleLogout = () => {
-    localStorage.removeItem("isAdminLoggedIn");
+  const handleLogout = async () => {
+    await apiRequest("POST", "/api/auth/logout");
+    queryClient.clear();
     navigate("/");
   };
 
+  if (userLoading || !currentUser) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const visibleTabs = adminTabs.filter(tab => can(tab.permission));
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -35,17 +74,20 @@ export default function Admin() {
           <div className="flex justify-between items-center py-4">
             <h1 className="text-2xl font-semibold text-gray-900">Admin Dashboard</h1>
             <div className="flex items-center space-x-4">
-              <Button 
-                variant="ghost" 
-                onClick={() => setShowReportsModal(true)}
-                className="text-gray-600 hover:text-gray-900"
-              >
-                <ChartLine className="w-4 h-4 mr-2" />
-                Reports
-              </Button>
-              <Button variant="ghost" className="text-gray-600 hover:text-gray-900">
-                <Bell className="w-4 h-4 mr-2" />
-              </Button>
+              <span className="text-sm text-gray-600">
+                {currentUser.fullName || currentUser.username} · {staffRoleLabels[currentUser.role as StaffRole] ?? currentUser.role}
+              </span>
+              {can("reports:view") && (
+                <Button 
+                  variant="ghost" 
+                  onClick={() => setShowReportsModal(true)}
+                  className="text-gray-600 hover:text-gray-900"
+                >
+                  <ChartLine className="w-4 h-4 mr-2" />
+                  Reports
+                </Button>
+              )}
+              <NotificationBell onOpenTab={setActiveTab} />
               <Button onClick={handleLogout} className="bg-primary hover:bg-primary/90">
                 <LogOut className="w-4 h-4 mr-2" />
                 Logout
@@ -57,39 +99,28 @@ export default function Admin() {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <Tabs defaultValue="circulation" className="w-full">
-          <TabsList className="grid w-full grid-cols-5 bg-white border-b mb-8">
-            <TabsTrigger value="circulation">Circulation</TabsTrigger>
-            <TabsTrigger value="library">Library</TabsTrigger>
-            <TabsTrigger value="members">Members</TabsTrigger>
-            <TabsTrigger value="feedback">Feedback</TabsTrigger>
-            <TabsTrigger value="history">History</TabsTrigger>
+        <Tabs value={activeTab ?? visibleTabs[0]?.value} onValueChange={setActiveTab} className="w-full">
+          <TabsList
+            className="grid w-full bg-white border-b mb-8"
+            style={{ gridTemplateColumns: `repeat(${visibleTabs.length}, minmax(0, 1fr))` }}
+          >
+            {visibleTabs.map(tab => (
+              <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+            ))}
           </TabsList>
 
-          <TabsContent value="circulation">
-            <CirculationTab />
-          </TabsContent>
-
-          <TabsContent value="library">
-            <LibraryTab />
-          </TabsContent>
-
-          <TabsContent value="members">
-            <MembersTab />
-          </TabsContent>
-
-          <TabsContent value="feedback">
-            <FeedbackTab />
-          </TabsContent>
-
-          <TabsContent value="history">
-            <EnhancedHistoryTab />
-          </TabsContent>
+          {visibleTabs.map(({ value, component: TabComponent }) => (
+            <TabsContent key={value} value={value}>
+              <TabComponent />
+            </TabsContent>
+          ))}
         </Tabs>
       </div>
 
       {/* Reports Modal */}
-      <ViewReportsModal open={showReportsModal} onOpenChange={setShowReportsModal} />
+      {can("reports:view") && (
+        <ViewReportsModal open={showReportsModal} onOpenChange={setShowReportsModal} />
+      )}
     </div>
   );
 }
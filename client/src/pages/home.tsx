@@ -1,18 +1,31 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Search, Download, Lightbulb, Pen, ChartBar, Shield } from "lucide-react";
+import { Search, Lightbulb, Pen, ChartBar, Shield, X, BookOpen } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import BookCard from "@/components/public/book-card";
+import HighlightedText from "@/components/public/highlighted-text";
+import DdcBrowseTree from "@/components/public/ddc-browse-tree";
+import ExportMenu from "@/components/export-menu";
+import { coverUrl } from "@/lib/covers";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import SuggestBookModal from "@/components/modals/suggest-book-modal";
 import WriteReviewModal from "@/components/modals/write-review-modal";
 import ViewReportsModal from "@/components/modals/view-reports-modal";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Command, CommandInput, CommandEmpty, CommandGroup, CommandItem } from "@/components/ui/command";
-import type { Book } from "@shared/schema";
+import type { BookSearchResult, BookWithAvailability, IssuedBook } from "@shared/schema";
+import { DDC_CLASSES } from "@shared/ddc";
+
+// "820 English & Old English literatures" for the DDC prefix "82"
+function describeDdcPrefix(prefix: string) {
+  const ddcClass = DDC_CLASSES.find((candidate) => candidate.code[0] === prefix[0]);
+  if (!ddcClass) return prefix;
+  if (prefix.length === 1) return `${ddcClass.code} ${ddcClass.name}`;
+  return `${prefix[0]}${prefix[1]}0 ${ddcClass.divisions[Number(prefix[1])]}`;
+}
 
 export default function Home() {
   const [, navigate] = useLocation();
@@ -20,16 +33,17 @@ export default function Home() {
   const [showSuggestModal, setShowSuggestModal] = useState(false);
   const [showReviewModal, setShowReviewModal] = useState(false);
   const [showReportsModal, setShowReportsModal] = useState(false);
+  const [ddcFilter, setDdcFilter] = useState<string | null>(null);
 
-  const { data: books = [], isLoading: booksLoading } = useQuery<Book[]>({ 
-    queryKey: ["/api/books"],
+  const { data: books = [], isLoading: booksLoading } = useQuery<BookWithAvailability[]>({ 
+    queryKey: ddcFilter ? ["/api/books", { ddc: ddcFilter }] : ["/api/books"],
   });
 
-  const { data: issuedBooks = [] } = useQuery<{ book: Book; member: { id: number; fullName: string; class: string; registrationNo: string }; dueDate: Date | null }[]>({
+  const { data: issuedBooks = [] } = useQuery<IssuedBook[]>({
     queryKey: ["/api/analytics/issued-books"],
   });
 
-  const { data: searchResults = [], isLoading: searchLoading } = useQuery<Book[]>({
+  const { data: searchResults = [], isLoading: searchLoading } = useQuery<BookSearchResult[]>({
     queryKey: ["/api/books/search", searchQuery],
     enabled: searchQuery.length > 0,
     queryFn: async () => {
@@ -39,7 +53,7 @@ export default function Home() {
     },
   });
 
-  const displayBooks = searchQuery ? searchResults : books;
+  const displayBooks: (BookWithAvailability | BookSearchResult)[] = searchQuery ? searchResults : books;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -96,15 +110,30 @@ export default function Home() {
           </Card>
         </div>
 
+        {/* Browse by Subject */}
+        <Card className="mb-8">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-900">Browse by Subject</h2>
+          </div>
+          <CardContent className="p-6">
+            <DdcBrowseTree selected={ddcFilter} onSelect={setDdcFilter} />
+          </CardContent>
+        </Card>
+
         {/* Library Collection */}
         <Card>
           <div className="px-6 py-4 border-b border-gray-200">
             <div className="flex justify-between items-center">
-              <h2 className="text-xl font-semibold text-gray-900">Library Collection</h2>
-              <Button variant="outline" size="sm">
-                <Download className="w-4 h-4 mr-2" />
-                Export / Print
-              </Button>
+              <div className="flex items-center space-x-3">
+                <h2 className="text-xl font-semibold text-gray-900">Library Collection</h2>
+                {ddcFilter && !searchQuery && (
+                  <Button variant="outline" size="sm" onClick={() => setDdcFilter(null)}>
+                    {describeDdcPrefix(ddcFilter)}
+                    <X className="w-3 h-3 ml-2" />
+                  </Button>
+                )}
+              </div>
+              <ExportMenu path="/api/export/books" filters={{ search: searchQuery, ddc: ddcFilter }} />
             </div>
           </div>
           
@@ -135,6 +164,7 @@ export default function Home() {
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead className="w-14"><span className="sr-only">Cover</span></TableHead>
                       <TableHead>Book No.</TableHead>
                       <TableHead>Title</TableHead>
                       <TableHead>Author</TableHead>
@@ -147,21 +177,42 @@ export default function Home() {
                   </TableHeader>
                   <TableBody>
                     {displayBooks.map((book) => {
-                      const borrower = issuedBooks.find(item => item.book.id === book.id)?.member;
+                      const borrowers = issuedBooks
+                        .filter(item => item.book.id === book.id)
+                        .map(item => item.member.fullName);
+                      const highlights = "highlights" in book ? book.highlights : undefined;
                       return (
                         <TableRow key={book.id}>
+                          <TableCell className="py-2">
+                            {book.coverImage ? (
+                              <img
+                                src={coverUrl(book.coverImage, "thumb")}
+                                alt={`Cover of ${book.title}`}
+                                loading="lazy"
+                                className="w-10 h-14 object-contain bg-gray-100 rounded"
+                              />
+                            ) : (
+                              <div className="w-10 h-14 bg-gray-100 rounded flex items-center justify-center">
+                                <BookOpen className="w-4 h-4 text-gray-400" />
+                              </div>
+                            )}
+                          </TableCell>
                           <TableCell className="font-medium">{book.id}</TableCell>
-                          <TableCell>{book.title}</TableCell>
-                          <TableCell>{book.author}</TableCell>
-                          <TableCell>{book.ddc}</TableCell>
-                          <TableCell>{book.publisher}</TableCell>
+                          <TableCell><HighlightedText text={highlights?.title ?? book.title} /></TableCell>
+                          <TableCell><HighlightedText text={highlights?.author ?? book.author} /></TableCell>
+                          <TableCell><HighlightedText text={highlights?.ddc ?? book.ddc} /></TableCell>
+                          <TableCell><HighlightedText text={highlights?.publisher ?? book.publisher} /></TableCell>
                           <TableCell>${book.price}</TableCell>
-                          <TableCell>{book.category}</TableCell>
+                          <TableCell><HighlightedText text={highlights?.category ?? book.category} /></TableCell>
                           <TableCell>
-                            {borrower ? (
-                              <span className="text-red-600">Issued to {borrower.fullName}</span>
+                            {book.availableCopies > 0 ? (
+                              <span className="text-green-600">
+                                {book.availableCopies} of {book.totalCopies} available
+                              </span>
+                            ) : borrowers.length > 0 ? (
+                              <span className="text-red-600">Issued to {borrowers.join(", ")}</span>
                             ) : (
-                              <span className="text-green-600">Available</span>
+                              <span className="text-gray-600">Unavailable</span>
                             )}
                           </TableCell>
                         </TableRow>
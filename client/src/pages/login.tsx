@@ -5,6 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Home, LogIn } from "lucide-react";
 
 export default function LoginPage() {
@@ -18,27 +19,26 @@ export default function LoginPage() {
     e.preventDefault();
     setIsLoading(true);
 
-    // Check credentials
-    if (username === "Muhimmathlibrary" && password === "Muhimmathlibrary2025") {
-      // Store login status in localStorage
-      localStorage.setItem("isAdminLoggedIn", "true");
-      
+    try {
+      const response = await apiRequest("POST", "/api/auth/login", { username, password });
+      queryClient.setQueryData(["/api/auth/me"], await response.json());
+
       toast({
         title: "Login Successful",
         description: "Welcome to the admin dashboard!",
       });
-      
+
       // Redirect to admin page
       setLocation("/admin");
-    } else {
+    } catch (error) {
       toast({
         title: "Login Failed",
         description: "Invalid username or password. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setIsLoading(false);
     }
-    
-    setIsLoading(false);
   };
 
   const handleReturnHome = () => {
@@ -0,0 +1,59 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { RequestHandler } from "express";
+
+export type AuditActor = { id: number; username: string };
+
+const actorStorage = new AsyncLocalStorage<AuditActor | null>();
+
+// Makes the signed-in staff member available to storage for the rest of the
+// request, so audit entries can name who made a change without every storage
+// method taking the user as a parameter.
+export const trackAuditActor: RequestHandler = (req, _res, next) => {
+  const actor = req.isAuthenticated() ? { id: req.user.id, username: req.user.username } : null;
+  actorStorage.run(actor, next);
+};
+
+// Null for public submissions and background jobs
+export function currentAuditActor(): AuditActor | null {
+  return actorStorage.getStore() ?? null;
+}
+
+// Fields whose values never go into the log; a change is still recorded
+const REDACTED_FIELDS = new Set(["passwordHash"]);
+const REDACTED = "[redacted]";
+
+type AuditSnapshot = Record<string, unknown>;
+
+function toJson(value: object): AuditSnapshot {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function redact(snapshot: AuditSnapshot | null) {
+  if (!snapshot) return null;
+  for (const field of Object.keys(snapshot)) {
+    if (REDACTED_FIELDS.has(field)) snapshot[field] = REDACTED;
+  }
+  return snapshot;
+}
+
+// Reduces a record's before and after states to what the log keeps: the
+// whole record for a create or delete, and only the fields that differ for
+// an update. Returns null for an update that changed nothing.
+export function diffForAudit(before: object | null, after: object | null) {
+  if (!before || !after) {
+    return { before: redact(before && toJson(before)), after: redact(after && toJson(after)) };
+  }
+
+  const previous = toJson(before);
+  const next = toJson(after);
+  const changedBefore: AuditSnapshot = {};
+  const changedAfter: AuditSnapshot = {};
+  for (const field of Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))) {
+    if (JSON.stringify(previous[field]) !== JSON.stringify(next[field])) {
+      changedBefore[field] = previous[field] ?? null;
+      changedAfter[field] = next[field] ?? null;
+    }
+  }
+  if (Object.keys(changedAfter).length === 0) return null;
+  return { before: redact(changedBefore), after: redact(changedAfter) };
+}
@@ -0,0 +1,155 @@
+import { importedBookSchema, type BookImportRow } from "@shared/schema";
+import { readSpreadsheet } from "./spreadsheet";
+import { controlFieldValue, MARC_LANGUAGES, readMarcFile, subfieldValues, type MarcRecord } from "./marc";
+
+// Accepted headers for each book field, compared after normalisation
+const BOOK_COLUMNS = {
+  title: ["title", "book title", "book name", "name"],
+  author: ["author", "authors", "author name", "writer"],
+  category: ["category", "subject", "genre"],
+  language: ["language", "lang"],
+  price: ["price", "cost", "mrp", "price rs", "rate"],
+  publisher: ["publisher", "publishers", "publication", "published by"],
+  ddc: ["ddc", "dewey", "ddc no", "call no", "call number", "class no", "classification"],
+  isbn: ["isbn", "isbn 13", "isbn 10", "isbn no"],
+  edition: ["edition"],
+  publicationYear: ["year", "publication year", "year of publication", "published"],
+  pageCount: ["pages", "page count", "no of pages"],
+  subjects: ["subjects", "subject headings", "keywords"],
+  notes: ["notes", "note", "remarks"],
+  copies: ["copies", "no of copies", "quantity", "qty"],
+  shelfLocation: ["shelf", "shelf location", "location", "rack"],
+};
+
+type BookColumn = keyof typeof BOOK_COLUMNS;
+
+const REQUIRED_COLUMNS: BookColumn[] = ["title", "author", "category", "language", "price", "publisher", "ddc"];
+
+const FIELD_LABELS: Record<BookColumn, string> = {
+  title: "Title",
+  author: "Author",
+  category: "Category",
+  language: "Language",
+  price: "Price",
+  publisher: "Publisher",
+  ddc: "DDC",
+  isbn: "ISBN",
+  edition: "Edition",
+  publicationYear: "Year",
+  pageCount: "Pages",
+  subjects: "Subjects",
+  notes: "Notes",
+  copies: "Copies",
+  shelfLocation: "Shelf location",
+};
+
+// MARC records name the field each error points at
+const MARC_FIELD_LABELS: Record<BookColumn, string> = {
+  ...FIELD_LABELS,
+  title: "Title (245 $a)",
+  author: "Author (100 $a)",
+  language: "Language (008/35-37 or 041 $a)",
+  publisher: "Publisher (260 $b)",
+  ddc: "DDC (082 $a)",
+  isbn: "ISBN (020 $a)",
+};
+
+type BookValues = Partial<Record<BookColumn, string>>;
+
+// Reads numbers written as "₹1,250", "Rs. 80" or "3"
+function parseNumber(value: string) {
+  return Number(value.replace(/₹|rs\.?|[,\s]/gi, ""));
+}
+
+// Maps and validates every row of an uploaded catalogue spreadsheet against
+// importedBookSchema. Duplicates and categories are checked by
+// storage.previewBookImport.
+export async function parseBookImport(file: Express.Multer.File): Promise<BookImportRow[]> {
+  return (await readSpreadsheet(file, BOOK_COLUMNS, REQUIRED_COLUMNS)).map(({ rowNumber, values }) => ({
+    rowNumber,
+    ...validateBook(values, FIELD_LABELS),
+    duplicateOf: null,
+  }));
+}
+
+// Like parseBookImport, for a MARC 21 (.mrc) or MARCXML file. Row numbers
+// are record numbers. MARC has no local category, so every record is filed
+// under `category`; records without a price (020 $c) are priced at 0.
+export function parseMarcImport(file: Express.Multer.File, category: string): BookImportRow[] {
+  return readMarcFile(file.buffer).map(({ recordNumber, record, error }) => ({
+    rowNumber: recordNumber,
+    ...(record
+      ? validateBook({ price: "0", ...marcBookValues(record), category }, MARC_FIELD_LABELS)
+      : { book: null, errors: [error!] }),
+    duplicateOf: null,
+  }));
+}
+
+// Removes the ISBD punctuation that closes MARC headings, e.g. "Title /".
+// A closing full stop is kept where it may end an abbreviation ("2nd ed.").
+function trimPunctuation(value: string | undefined, keepFullStop = false) {
+  const trimmed = value?.replace(/\s*[/:;,=]\s*$/, "");
+  return (keepFullStop ? trimmed : trimmed?.replace(/([^.\s]{2})\.$/, "$1"))?.trim() || undefined;
+}
+
+function marcBookValues(record: MarcRecord): BookValues {
+  const first = (tag: string, code: string) => subfieldValues(record, tag, code)[0];
+  const title = [trimPunctuation(first("245", "a")), trimPunctuation(first("245", "b"))].filter(Boolean).join(": ");
+  const languageCode = controlFieldValue(record, "008")?.slice(35, 38).trim() || first("041", "a");
+  // RDA records put publication details in 264 instead of 260
+  const published = (code: string) => first("260", code) ?? first("264", code);
+  const isbns = subfieldValues(record, "020", "a");
+  const prices = subfieldValues(record, "020", "c");
+
+  return Object.fromEntries(Object.entries({
+    title: title || undefined,
+    author: trimPunctuation(first("100", "a") ?? first("110", "a") ?? first("700", "a")),
+    language: languageCode ? MARC_LANGUAGES[languageCode] ?? languageCode : undefined,
+    publisher: trimPunctuation(published("b")),
+    ddc: [first("082", "a")?.replace(/\/|\s*[;:]$/g, ""), first("082", "b")].filter(Boolean).join(" ") || undefined,
+    // "0140449132 (pbk.)": the qualifier follows the number
+    isbn: isbns[0]?.split(/\s/)[0],
+    price: prices.map((price) => price.match(/\d[\d,]*(\.\d+)?/)?.[0]).find(Boolean),
+    edition: trimPunctuation(first("250", "a"), true),
+    publicationYear: published("c")?.match(/\d{4}/)?.[0],
+    pageCount: first("300", "a")?.match(/(\d+)\s*(p\b|pages)/)?.[1],
+    subjects: subfieldValues(record, "650", "a").map((subject) => trimPunctuation(subject)).filter(Boolean).join(";"),
+    notes: subfieldValues(record, "500", "a").join(" ") || undefined,
+  }).filter(([, value]) => value !== undefined && value !== ""));
+}
+
+// Converts an import row's text values and validates them against
+// importedBookSchema, naming fields with `labels` in the errors
+function validateBook(values: BookValues, labels: Record<BookColumn, string>): Pick<BookImportRow, "book" | "errors"> {
+  const errors: string[] = [];
+  const price = values.price !== undefined ? parseNumber(values.price) : undefined;
+  const copies = values.copies !== undefined ? parseNumber(values.copies) : undefined;
+  const publicationYear = values.publicationYear !== undefined ? parseNumber(values.publicationYear) : undefined;
+  const pageCount = values.pageCount !== undefined ? parseNumber(values.pageCount) : undefined;
+  if (Number.isNaN(price)) errors.push("Price must be a number");
+  if (Number.isNaN(copies)) errors.push("Copies must be a number");
+  if (Number.isNaN(publicationYear)) errors.push("Year must be a number");
+  if (Number.isNaN(pageCount)) errors.push("Pages must be a number");
+
+  const result = importedBookSchema.safeParse({
+    ...values,
+    price: price !== undefined && !Number.isNaN(price) ? Math.round(price) : undefined,
+    copies: copies !== undefined && !Number.isNaN(copies) ? copies : undefined,
+    publicationYear: publicationYear !== undefined && !Number.isNaN(publicationYear) ? publicationYear : undefined,
+    pageCount: pageCount !== undefined && !Number.isNaN(pageCount) ? pageCount : undefined,
+    // Subjects are separated by semicolons or vertical bars
+    subjects: values.subjects?.split(/[;|]/).map((subject) => subject.trim()).filter(Boolean),
+  });
+  if (!result.success) {
+    for (const issue of result.error.errors) {
+      const label = labels[issue.path[0] as BookColumn] ?? String(issue.path[0]);
+      if (issue.message === "Required" && errors.some((error) => error.startsWith(label))) continue;
+      errors.push(issue.message === "Required" ? `${label} is required` : `${label}: ${issue.message}`);
+    }
+  }
+
+  return {
+    book: errors.length === 0 && result.success ? result.data : null,
+    errors,
+  };
+}
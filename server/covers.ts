@@ -0,0 +1,105 @@
+import { AsyncResource } from "async_hooks";
+import { randomBytes } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import express, { type RequestHandler } from "express";
+import multer from "multer";
+import sharp from "sharp";
+import { coverSizes, type CoverSize } from "@shared/schema";
+
+const MAX_COVER_BYTES = 5 * 1024 * 1024;
+const ACCEPTED_FORMATS = new Set(["jpeg", "png", "webp", "gif", "avif", "tiff"]);
+// A small, highly compressed file can decode to a huge bitmap, so images are
+// refused above this many pixels (e.g. 8000 x 5000), well below sharp's default
+const MAX_COVER_PIXELS = 40_000_000;
+
+// Width of each stored rendition; covers are never enlarged
+const COVER_WIDTHS: Record<CoverSize, number> = {
+  thumb: 160,
+  medium: 400,
+  large: 800,
+};
+
+// Covers live on local disk, outside the build, so they survive deploys.
+// Set COVER_UPLOAD_DIR to keep them elsewhere, e.g. on a mounted volume.
+const coverDir = path.resolve(process.env.COVER_UPLOAD_DIR || "uploads/covers");
+
+// Public URL prefix; books.coverImage holds this plus the cover's key
+const COVER_URL_PREFIX = "/covers/";
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_COVER_BYTES },
+}).single("cover");
+
+// Accepts a single image upload in the `cover` field. Like spreadsheetUpload,
+// failures are answered with a 400 and the callback keeps the request's
+// async context for the audit log.
+export const coverUpload: RequestHandler = (req, res, next) => {
+  upload(req, res, AsyncResource.bind((error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return res.status(400).json({ error: error.code === "LIMIT_FILE_SIZE" ? "The image is larger than 5 MB" : error.message });
+    }
+    next(error);
+  }));
+};
+
+// Serves stored covers. Every upload gets a new key, so a file never
+// changes once written and browsers may cache it for good.
+export const serveCovers = express.static(coverDir, {
+  immutable: true,
+  maxAge: "365d",
+  fallthrough: false,
+});
+
+// An upload that is not a usable image
+export class CoverError extends Error {}
+
+function coverFile(key: string, size: CoverSize) {
+  return path.join(coverDir, `${key}-${size}.webp`);
+}
+
+// Checks the upload by reading it rather than trusting its name or MIME
+// type, then writes a WebP rendition at each size, one after another so only
+// one decode is in memory at a time. Returns the value for books.coverImage.
+export async function saveCover(bookId: number, file: Express.Multer.File): Promise<string> {
+  // Reading the header decodes no pixels, so it needs no limit
+  const metadata = await sharp(file.buffer).metadata().catch(() => null);
+  if (!metadata) {
+    throw new CoverError("The file is not an image");
+  }
+  if (!metadata.format || !ACCEPTED_FORMATS.has(metadata.format)) {
+    throw new CoverError("Upload a JPEG, PNG, WebP, GIF, AVIF or TIFF image");
+  }
+  if ((metadata.width ?? 0) * (metadata.height ?? 0) > MAX_COVER_PIXELS) {
+    throw new CoverError("The image has too many pixels; upload one under 40 megapixels");
+  }
+
+  const key = `${bookId}-${randomBytes(6).toString("hex")}`;
+  await fs.mkdir(coverDir, { recursive: true });
+  const image = sharp(file.buffer, { limitInputPixels: MAX_COVER_PIXELS })
+    .rotate(); // apply the camera's EXIF orientation
+  try {
+    for (const size of coverSizes) {
+      await image
+        .clone()
+        .resize({ width: COVER_WIDTHS[size], withoutEnlargement: true })
+        .webp({ quality: size === "thumb" ? 70 : 80 })
+        .toFile(coverFile(key, size));
+    }
+  } catch {
+    await removeCover(`${COVER_URL_PREFIX}${key}`);
+    throw new CoverError("The image could not be read");
+  }
+  return `${COVER_URL_PREFIX}${key}`;
+}
+
+// Deletes the stored renditions of a cover. Anything other than an uploaded
+// cover (e.g. an external image URL) is left alone, as are files already gone.
+export async function removeCover(coverImage: string | null) {
+  if (!coverImage?.startsWith(COVER_URL_PREFIX)) return;
+  const key = path.basename(coverImage.slice(COVER_URL_PREFIX.length));
+  await Promise.all(coverSizes.map((size) =>
+    fs.rm(coverFile(key, size), { force: true })
+  ));
+}
@@ -0,0 +1,104 @@
+import { db } from "./db";
+import { eq, sql } from "drizzle-orm";
+import { books } from "@shared/schema";
+import { normalizeDdc } from "@shared/ddc";
+
+// Idempotent data fixes that `drizzle-kit push` cannot express. Each step
+// must be safe to run on every startup.
+export async function runDataMigrations() {
+  await backfillBookCopies();
+  await linkBookCategories();
+  await normalizeBookDdc();
+  await createCatalogueSearch();
+}
+
+// Titles created before book_copies existed get one copy each, carrying the
+// title's status, and their loans are pointed at that copy.
+async function backfillBookCopies() {
+  const { rowCount } = await db.execute(sql`
+    insert into book_copies (book_id, accession_no, status, acquisition_date, created_at)
+    select b.id, lpad(b.id::text, 6, '0') || '-L', b.status, b.created_at, now()
+    from books b
+    where not exists (select 1 from book_copies c where c.book_id = b.id)
+  `);
+  if (!rowCount) return;
+
+  await db.execute(sql`
+    update circulation ci
+    set copy_id = c.id
+    from book_copies c
+    where ci.copy_id is null and c.book_id = ci.book_id
+  `);
+  console.log(`📦 Created ${rowCount} book copies for existing titles`);
+}
+
+// Books used to name their category as free text. Names no category row
+// matches become categories, then every book is linked to its category by
+// name, ignoring case, and takes the category's spelling.
+async function linkBookCategories() {
+  const { rowCount: created } = await db.execute(sql`
+    insert into categories (name, created_at)
+    select distinct on (lower(b.category)) b.category, now()
+    from books b
+    where b.category_id is null
+      and not exists (select 1 from categories c where lower(c.name) = lower(b.category))
+    order by lower(b.category), b.category
+    on conflict (name) do nothing
+  `);
+  const { rowCount: linked } = await db.execute(sql`
+    update books b
+    set category_id = c.id, category = c.name
+    from categories c
+    where b.category_id is null and lower(c.name) = lower(b.category)
+  `);
+  if (!linked) return;
+  console.log(`🗂️ Linked ${linked} books to their categories (${created ?? 0} categories created)`);
+}
+
+// DDC numbers typed before createBookSchema normalised them, e.g. "82.5" or
+// "823,914 sha", are rewritten the same way so the browse tree can place
+// them. Values that are not DDC numbers are left as they are.
+async function normalizeBookDdc() {
+  let updated = 0;
+  for (const book of await db.select({ id: books.id, ddc: books.ddc }).from(books)) {
+    const ddc = normalizeDdc(book.ddc);
+    if (ddc === null || ddc === book.ddc) continue;
+    await db.update(books).set({ ddc }).where(eq(books.id, book.id));
+    updated++;
+  }
+  if (updated > 0) console.log(`🔢 Normalised ${updated} DDC numbers`);
+}
+
+// Catalogue search (see DatabaseStorage.searchBooks). Text is lowercased and
+// stripped of Arabic diacritics and tatweel so a title typed with or without
+// harakat matches either way. The 'simple' text search configuration does
+// no stemming, which keeps Malayalam, Arabic and Urdu words intact.
+async function createCatalogueSearch() {
+  await db.execute(sql`create extension if not exists pg_trgm`);
+
+  await db.execute(sql`
+    create or replace function library_search_normalize(input text) returns text
+    language sql immutable parallel safe as $$
+      select lower(regexp_replace(coalesce(input, ''), '[\u064B-\u065F\u0670\u0640]', '', 'g'))
+    $$
+  `);
+  await db.execute(sql`
+    create or replace function book_search_document(
+      title text, author text, publisher text, ddc text, category text, language text
+    ) returns text
+    language sql immutable parallel safe as $$
+      select library_search_normalize(concat_ws(' ', title, author, publisher, ddc, category, language))
+    $$
+  `);
+
+  await db.execute(sql`
+    create index if not exists books_search_fts_idx on books using gin (
+      to_tsvector('simple', book_search_document(title, author, publisher, ddc, category, language))
+    )
+  `);
+  await db.execute(sql`
+    create index if not exists books_search_trgm_idx on books using gin (
+      book_search_document(title, author, publisher, ddc, category, language) gin_trgm_ops
+    )
+  `);
+}
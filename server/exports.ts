@@ -0,0 +1,141 @@
+import type { Response } from "express";
+import PDFDocument from "pdfkit";
+import ExcelJS from "exceljs";
+import type { ExportFormat } from "@shared/schema";
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+  width?: number; // relative share of the PDF page width, 1 by default
+}
+
+export interface ExportTable<T> {
+  title: string;
+  filename: string; // without extension
+  description?: string; // filters in effect, printed under the PDF title
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+export function formatDate(date: Date | string | null | undefined) {
+  return date ? new Date(date).toISOString().slice(0, 10) : "";
+}
+
+function cellText<T>(column: ExportColumn<T>, row: T) {
+  const value = column.value(row);
+  return value === null || value === undefined ? "" : String(value);
+}
+
+function escapeCsv(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Writes the table in the requested format. CSV is written row by row; XLSX
+// and PDF are assembled first, since the workbook is zipped as a whole and the
+// PDF footer needs the page count. PDFs open inline so the browser can print
+// them.
+export async function sendExport<T>(res: Response, table: ExportTable<T>, format: ExportFormat) {
+  const disposition = format === "pdf" ? "inline" : "attachment";
+  res.setHeader("Content-Disposition", `${disposition}; filename="${table.filename}.${format}"`);
+
+  if (format === "csv") {
+    res.type("text/csv; charset=utf-8");
+    // The byte order mark makes Excel read the file as UTF-8
+    res.write("\uFEFF" + table.columns.map((column) => escapeCsv(column.header)).join(",") + "\r\n");
+    for (const row of table.rows) {
+      res.write(table.columns.map((column) => escapeCsv(cellText(column, row))).join(",") + "\r\n");
+    }
+    res.end();
+    return;
+  }
+
+  if (format === "xlsx") {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet(table.title.slice(0, 31));
+    sheet.addRow(table.columns.map((column) => column.header));
+    sheet.addRows(table.rows.map((row) => table.columns.map((column) => column.value(row) ?? "")));
+    res.type("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    res.send(Buffer.from(await workbook.xlsx.writeBuffer()));
+    return;
+  }
+
+  res.type("application/pdf");
+  writePdf(res, table);
+}
+
+const PDF_MARGIN = 36;
+const PDF_FONT_SIZE = 8;
+const PDF_CELL_PADDING = 3;
+
+export interface PdfFonts {
+  font: string;
+  boldFont: string;
+}
+
+// The fonts for a PDF export, label sheet or ID card. Set PDF_FONT_PATH to a
+// Unicode TTF (e.g. Noto Sans Malayalam) to print non-Latin titles; the
+// built-in Helvetica only covers Latin text.
+export function pdfFonts(doc: PDFKit.PDFDocument): PdfFonts {
+  const fontPath = process.env.PDF_FONT_PATH;
+  if (!fontPath) return { font: "Helvetica", boldFont: "Helvetica-Bold" };
+  doc.registerFont("export", fontPath);
+  return { font: "export", boldFont: "export" };
+}
+
+// Renders the table on landscape A4 pages, repeating the header row on each
+// page
+function writePdf<T>(res: Response, table: ExportTable<T>) {
+  const doc = new PDFDocument({ size: "A4", layout: "landscape", margin: PDF_MARGIN, bufferPages: true });
+  doc.pipe(res);
+  const { font, boldFont } = pdfFonts(doc);
+
+  doc.font(boldFont).fontSize(14).text(table.title);
+  doc.font(font).fontSize(9).fillColor("#555555")
+    .text([table.description, `Generated ${new Date().toLocaleString()} · ${table.rows.length} record(s)`].filter(Boolean).join(" · "));
+  doc.moveDown();
+
+  const pageWidth = doc.page.width - PDF_MARGIN * 2;
+  const totalShare = table.columns.reduce((sum, column) => sum + (column.width ?? 1), 0);
+  const widths = table.columns.map((column) => (pageWidth * (column.width ?? 1)) / totalShare);
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    doc.font(bold ? boldFont : font).fontSize(PDF_FONT_SIZE).fillColor("#000000");
+    const height = Math.max(...cells.map((cell, i) =>
+      doc.heightOfString(cell, { width: widths[i] - PDF_CELL_PADDING * 2 }))) + PDF_CELL_PADDING * 2;
+
+    if (doc.y + height > doc.page.height - PDF_MARGIN) {
+      doc.addPage();
+      if (!bold) drawRow(table.columns.map((column) => column.header), true);
+    }
+
+    const top = doc.y;
+    let x = PDF_MARGIN;
+    cells.forEach((cell, i) => {
+      doc.text(cell, x + PDF_CELL_PADDING, top + PDF_CELL_PADDING, { width: widths[i] - PDF_CELL_PADDING * 2 });
+      x += widths[i];
+    });
+    doc.moveTo(PDF_MARGIN, top + height).lineTo(PDF_MARGIN + pageWidth, top + height)
+      .lineWidth(bold ? 1 : 0.25).strokeColor("#999999").stroke();
+    doc.x = PDF_MARGIN;
+    doc.y = top + height;
+  };
+
+  drawRow(table.columns.map((column) => column.header), true);
+  for (const row of table.rows) {
+    drawRow(table.columns.map((column) => cellText(column, row)), false);
+  }
+
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise start a new page
+    doc.page.margins.bottom = 0;
+    doc.font(font).fontSize(8).fillColor("#555555")
+      .text(`Page ${i + 1} of ${range.count}`, PDF_MARGIN, doc.page.height - PDF_MARGIN + 10, {
+        width: pageWidth,
+        align: "right",
+        lineBreak: false,
+      });
+  }
+  doc.end();
+}
@@ -2,6 +2,9 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { testDatabaseConnection } from "./test-db";
+import { runDataMigrations } from "./data-migrations";
+import { storage } from "./storage";
+import { sendReminders } from "./reminders";
 
 const app = express();
 app.use(express.json());
@@ -40,9 +43,50 @@ app.use((req, res, next) => {
 (async () => {
   // Test database connection on startup
   await testDatabaseConnection();
+  await runDataMigrations();
   
   const server = await registerRoutes(app);
 
+  // Lapse uncollected holds so their copies move on to the next member
+  const expireHolds = async () => {
+    try {
+      const expired = await storage.expireReservations();
+      if (expired > 0) log(`expired ${expired} uncollected hold(s)`);
+    } catch (error) {
+      console.error("Failed to expire reservations:", error);
+    }
+  };
+  await expireHolds();
+  setInterval(expireHolds, 60 * 60 * 1000);
+
+  // Remind members of loans coming due and overdue; each loan is only
+  // reminded as often as the reminder settings allow, however often this runs.
+  // The first run is not awaited: delivering a backlog can take minutes and
+  // must not hold up the server starting to listen.
+  const remindMembers = async () => {
+    try {
+      const { generated, sent, failed, skipped } = await sendReminders();
+      if (generated > 0 || failed > 0) {
+        log(`reminders: ${generated} new, ${sent} sent, ${failed} failed, ${skipped} skipped`);
+      }
+    } catch (error) {
+      console.error("Failed to send reminders:", error);
+    }
+  };
+  remindMembers();
+  setInterval(remindMembers, 60 * 60 * 1000);
+
+  // Tell staff about loans that went overdue today
+  const notifyOverdue = async () => {
+    try {
+      await storage.notifyOverdueLoans();
+    } catch (error) {
+      console.error("Failed to notify overdue loans:", error);
+    }
+  };
+  await notifyOverdue();
+  setInterval(notifyOverdue, 60 * 60 * 1000);
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
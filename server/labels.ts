@@ -0,0 +1,142 @@
+import type { Response } from "express";
+import PDFDocument from "pdfkit";
+import bwipjs from "bwip-js/node";
+import { pdfFonts, type PdfFonts } from "./exports";
+import type { Book, BookCopy, Member, LabelLayout, Symbology } from "@shared/schema";
+
+const LIBRARY_NAME = "Muhimmath Library";
+
+const mm = (value: number) => value * 2.8346; // millimetres to PDF points
+
+interface SheetLayout {
+  size: "A4" | "LETTER";
+  columns: number;
+  rows: number;
+  width: number; // label size, points
+  height: number;
+  left: number; // offset of the first label from the page corner
+  top: number;
+  pitchX: number; // distance between the left edges of neighbouring labels
+  pitchY: number;
+}
+
+// Common label stock: Avery L7159 (A4, 24 per sheet), Avery L7163 (A4, 14
+// per sheet) and Avery 5160 (US Letter, 30 per sheet). The counts must agree
+// with labelsPerSheet, which bounds `skip`.
+const LABEL_SHEETS: Record<LabelLayout, SheetLayout> = {
+  "a4-3x8": { size: "A4", columns: 3, rows: 8, width: mm(64), height: mm(33.9), left: mm(7.2), top: mm(13.1), pitchX: mm(66.6), pitchY: mm(33.9) },
+  "a4-2x7": { size: "A4", columns: 2, rows: 7, width: mm(99.1), height: mm(38.1), left: mm(4.65), top: mm(15.1), pitchX: mm(101.6), pitchY: mm(38.1) },
+  "letter-3x10": { size: "LETTER", columns: 3, rows: 10, width: 189, height: 72, left: 13.5, top: 36, pitchX: 198, pitchY: 72 },
+};
+
+// ID-1 (credit card) sized member cards, ten to an A4 sheet, with cut lines
+const CARD_SHEET: SheetLayout = {
+  size: "A4", columns: 2, rows: 5, width: mm(85.6), height: mm(54), left: mm(19.4), top: mm(13.5), pitchX: mm(85.6), pitchY: mm(54),
+};
+
+const LABEL_PADDING = mm(2);
+
+export type BookLabel = { copy: BookCopy; book: Book };
+
+function renderBarcode(text: string, symbology: Symbology): Promise<Buffer> {
+  return symbology === "qr"
+    ? bwipjs.toBuffer({ bcid: "qrcode", text, scale: 4 })
+    : bwipjs.toBuffer({ bcid: "code128", text, scale: 3, height: 10 });
+}
+
+// Lays items out left to right, top to bottom, starting `skip` positions into
+// the first sheet so a partly used sheet can be fed again.
+async function writeSheets<T>(
+  res: Response,
+  sheet: SheetLayout,
+  items: T[],
+  skip: number,
+  drawItem: (doc: PDFKit.PDFDocument, fonts: PdfFonts, item: T, x: number, y: number) => Promise<void>
+) {
+  const doc = new PDFDocument({ size: sheet.size, margin: 0, autoFirstPage: false });
+  doc.pipe(res);
+  const fonts = pdfFonts(doc);
+
+  const perSheet = sheet.columns * sheet.rows;
+  for (let i = 0; i < items.length; i++) {
+    const position = (i + skip) % perSheet;
+    if (i === 0 || position === 0) doc.addPage();
+    const x = sheet.left + (position % sheet.columns) * sheet.pitchX;
+    const y = sheet.top + Math.floor(position / sheet.columns) * sheet.pitchY;
+    await drawItem(doc, fonts, items[i], x, y);
+  }
+  if (items.length === 0) doc.addPage();
+  doc.end();
+}
+
+// Spine/back labels, one per copy: the copy's accession number as a Code128
+// barcode or QR code, with the title and DDC call number.
+export async function writeBookLabels(res: Response, labels: BookLabel[], symbology: Symbology, layout: LabelLayout, skip: number) {
+  const sheet = LABEL_SHEETS[layout];
+  const innerWidth = sheet.width - LABEL_PADDING * 2;
+  const innerHeight = sheet.height - LABEL_PADDING * 2;
+
+  res.type("application/pdf");
+  res.setHeader("Content-Disposition", 'inline; filename="book-labels.pdf"');
+
+  await writeSheets(res, sheet, labels, skip, async (doc, { font, boldFont }, { copy, book }, x, y) => {
+    const left = x + LABEL_PADDING;
+    const top = y + LABEL_PADDING;
+    const barcode = await renderBarcode(copy.accessionNo, symbology);
+    const callNumber = [book.ddc, copy.shelfLocation].filter(Boolean).join(" · ");
+
+    if (symbology === "qr") {
+      doc.image(barcode, left, top, { fit: [innerHeight, innerHeight] });
+      const textLeft = left + innerHeight + LABEL_PADDING;
+      const textWidth = innerWidth - innerHeight - LABEL_PADDING;
+      doc.font(boldFont).fontSize(8).fillColor("#000000")
+        .text(book.title, textLeft, top, { width: textWidth, height: innerHeight * 0.5, ellipsis: true });
+      doc.font(font).fontSize(9).text(callNumber, textLeft, top + innerHeight * 0.55, { width: textWidth, lineBreak: false, ellipsis: true });
+      doc.fontSize(7).text(copy.accessionNo, textLeft, top + innerHeight * 0.8, { width: textWidth, lineBreak: false });
+      return;
+    }
+
+    doc.font(boldFont).fontSize(7).fillColor("#000000")
+      .text(book.title, left, top, { width: innerWidth, height: 9, lineBreak: false, ellipsis: true });
+    doc.font(font).fontSize(8)
+      .text(callNumber, left, top + 9, { width: innerWidth, lineBreak: false, ellipsis: true });
+    doc.image(barcode, left, top + 20, { fit: [innerWidth, innerHeight - 29], align: "center" });
+    doc.fontSize(7).text(copy.accessionNo, left, top + innerHeight - 8, { width: innerWidth, align: "center", lineBreak: false });
+  });
+}
+
+// Member ID cards carrying the registration number as a barcode, for
+// scanning at the desk.
+export async function writeMemberCards(res: Response, members: Member[], symbology: Symbology) {
+  const sheet = CARD_SHEET;
+  const innerWidth = sheet.width - LABEL_PADDING * 2;
+
+  res.type("application/pdf");
+  res.setHeader("Content-Disposition", 'inline; filename="member-cards.pdf"');
+
+  await writeSheets(res, sheet, members, 0, async (doc, { font, boldFont }, member, x, y) => {
+    const left = x + LABEL_PADDING * 2;
+    const width = innerWidth - LABEL_PADDING * 2;
+    doc.rect(x, y, sheet.width, sheet.height).lineWidth(0.25).dash(3, { space: 3 }).strokeColor("#999999").stroke().undash();
+    doc.rect(x, y, sheet.width, mm(10)).fillColor("#1e3a8a").fill();
+    doc.font(boldFont).fontSize(11).fillColor("#ffffff")
+      .text(LIBRARY_NAME, left, y + mm(2), { width, lineBreak: false });
+    doc.font(font).fontSize(7)
+      .text("MEMBER ID CARD", left, y + mm(2.5), { width, align: "right", lineBreak: false });
+
+    const barcode = await renderBarcode(member.registrationNo, symbology);
+    const detailsTop = y + mm(13);
+    const detailsWidth = symbology === "qr" ? width - mm(26) : width;
+    doc.font(boldFont).fontSize(11).fillColor("#000000")
+      .text(member.fullName, left, detailsTop, { width: detailsWidth, height: 28, ellipsis: true });
+    doc.font(font).fontSize(9)
+      .text(`Class: ${member.class}`, left, detailsTop + mm(10), { width: detailsWidth, lineBreak: false })
+      .text(`Reg. No: ${member.registrationNo}`, left, detailsTop + mm(14.5), { width: detailsWidth, lineBreak: false });
+
+    if (symbology === "qr") {
+      doc.image(barcode, x + sheet.width - LABEL_PADDING * 2 - mm(24), detailsTop, { fit: [mm(24), mm(24)] });
+    } else {
+      doc.image(barcode, left, y + sheet.height - mm(20), { fit: [width, mm(12)], align: "center" });
+    }
+  });
+}
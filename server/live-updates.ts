@@ -0,0 +1,41 @@
+import { EventEmitter } from "events";
+import type { RequestHandler } from "express";
+import type { EntityChangeEvent, LiveEntityType } from "@shared/schema";
+
+// Keeps proxies from closing an idle stream, and notices closed connections
+const HEARTBEAT_MS = 25_000;
+
+const changes = new EventEmitter();
+// One listener per open dashboard
+changes.setMaxListeners(0);
+
+// Tells every open dashboard which kinds of record a committed transaction
+// changed. Storage calls this after commit, so nothing rolled back is sent.
+export function publishChanges(entityTypes: Iterable<LiveEntityType>) {
+  const event: EntityChangeEvent = { entityTypes: Array.from(new Set(entityTypes)) };
+  if (event.entityTypes.length > 0) changes.emit("change", event);
+}
+
+// Server-sent event stream of entity changes. Events carry only record types,
+// never the records, so the client refetches through the usual endpoints and
+// their permission checks.
+export const serveLiveUpdates: RequestHandler = (req, res) => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write(": connected\n\n");
+
+  const send = (event: EntityChangeEvent) => {
+    res.write(`event: change\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_MS);
+
+  changes.on("change", send);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    changes.off("change", send);
+  });
+};
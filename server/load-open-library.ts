@@ -0,0 +1,157 @@
+import { createReadStream } from "fs";
+import { createGunzip } from "zlib";
+import readline from "readline";
+import { sql } from "drizzle-orm";
+import { db, pool } from "./db";
+import { bibliographicRecords, type BibliographicRecord } from "@shared/schema";
+import { normalizeIsbn } from "@shared/isbn";
+import { normalizeDdc } from "@shared/ddc";
+import { MARC_LANGUAGES } from "./marc";
+
+// Loads an Open Library editions dump (https://openlibrary.org/developers/dumps)
+// into bibliographic_records, so "fill from ISBN" works without network access:
+//
+//   npm run db:load-bib -- ol_dump_editions_latest.txt.gz [--authors ol_dump_authors_latest.txt.gz]
+//
+// Author names come from each edition's "by" statement unless the authors
+// dump is given; it is read into memory first, which takes several GB for
+// the full dump. Loading again replaces records with the same ISBN.
+
+const BATCH_SIZE = 1000;
+
+// The edition fields used here; records carry many more
+interface OpenLibraryEdition {
+  title?: string;
+  subtitle?: string;
+  authors?: { key: string }[];
+  by_statement?: string;
+  publishers?: string[];
+  publish_date?: string;
+  number_of_pages?: number;
+  edition_name?: string;
+  isbn_10?: string[];
+  isbn_13?: string[];
+  subjects?: string[];
+  dewey_decimal_class?: string[];
+  languages?: { key: string }[];
+}
+
+function readLines(file: string) {
+  const stream = createReadStream(file);
+  return readline.createInterface({
+    input: file.endsWith(".gz") ? stream.pipe(createGunzip()) : stream,
+    crlfDelay: Infinity,
+  });
+}
+
+// Dump lines are tab-separated: type, key, revision, last modified, JSON
+function parseDumpLine<T>(line: string): { key: string; record: T } | null {
+  const columns = line.split("\t");
+  if (columns.length < 5) return null;
+  try {
+    return { key: columns[1], record: JSON.parse(columns[4]) as T };
+  } catch {
+    return null;
+  }
+}
+
+async function loadAuthorNames(file: string) {
+  const names = new Map<string, string>();
+  for await (const line of readLines(file)) {
+    const entry = parseDumpLine<{ name?: string }>(line);
+    if (entry?.record.name) names.set(entry.key, entry.record.name);
+  }
+  console.log(`👤 Read ${names.size} author names`);
+  return names;
+}
+
+// One record per valid ISBN of the edition; editions without a title or a
+// valid ISBN are skipped
+function toRecords(key: string, edition: OpenLibraryEdition, authorNames: Map<string, string>): BibliographicRecord[] {
+  if (!edition.title) return [];
+  const isbns = new Set(
+    [...(edition.isbn_13 ?? []), ...(edition.isbn_10 ?? [])]
+      .map(normalizeIsbn)
+      .filter((isbn): isbn is string => isbn !== null)
+  );
+  if (isbns.size === 0) return [];
+
+  const authors = edition.authors?.map((author) => authorNames.get(author.key)).filter(Boolean).join(", ")
+    || edition.by_statement?.replace(/^by\s+/i, "").replace(/\.$/, "")
+    || null;
+  const year = edition.publish_date?.match(/\b(1[5-9]\d\d|20\d\d)\b/)?.[1];
+  // Open Library language keys are MARC language codes, e.g. /languages/eng
+  const language = edition.languages?.[0]?.key.split("/").pop();
+
+  return Array.from(isbns).map((isbn) => ({
+    isbn,
+    title: edition.subtitle ? `${edition.title}: ${edition.subtitle}` : edition.title!,
+    authors,
+    publisher: edition.publishers?.[0] ?? null,
+    publicationYear: year ? Number(year) : null,
+    pageCount: edition.number_of_pages ?? null,
+    edition: edition.edition_name ?? null,
+    subjects: edition.subjects ?? [],
+    ddc: edition.dewey_decimal_class?.map(normalizeDdc).find((ddc) => ddc !== null) ?? null,
+    language: language ? MARC_LANGUAGES[language] ?? language : null,
+    source: `openlibrary:${key}`,
+  }));
+}
+
+async function saveBatch(records: BibliographicRecord[]) {
+  await db
+    .insert(bibliographicRecords)
+    .values(records)
+    .onConflictDoUpdate({
+      target: bibliographicRecords.isbn,
+      set: {
+        title: sql`excluded.title`,
+        authors: sql`excluded.authors`,
+        publisher: sql`excluded.publisher`,
+        publicationYear: sql`excluded.publication_year`,
+        pageCount: sql`excluded.page_count`,
+        edition: sql`excluded.edition`,
+        subjects: sql`excluded.subjects`,
+        ddc: sql`excluded.ddc`,
+        language: sql`excluded.language`,
+        source: sql`excluded.source`,
+      },
+    });
+}
+
+async function main() {
+  const [editionsFile, ...options] = process.argv.slice(2);
+  if (!editionsFile) {
+    console.error("Usage: npm run db:load-bib -- <editions dump> [--authors <authors dump>]");
+    process.exit(1);
+  }
+  const authorsFile = options.includes("--authors") ? options[options.indexOf("--authors") + 1] : undefined;
+  const authorNames = authorsFile ? await loadAuthorNames(authorsFile) : new Map<string, string>();
+
+  // Keyed by ISBN, since one insert cannot update the same row twice
+  let batch = new Map<string, BibliographicRecord>();
+  let loaded = 0;
+  const flush = async () => {
+    if (batch.size === 0) return;
+    await saveBatch(Array.from(batch.values()));
+    loaded += batch.size;
+    batch = new Map();
+    console.log(`📚 Loaded ${loaded} bibliographic records`);
+  };
+
+  for await (const line of readLines(editionsFile)) {
+    const entry = parseDumpLine<OpenLibraryEdition>(line);
+    if (!entry) continue;
+    for (const record of toRecords(entry.key, entry.record, authorNames)) {
+      batch.set(record.isbn, record);
+    }
+    if (batch.size >= BATCH_SIZE) await flush();
+  }
+  await flush();
+  await pool.end();
+}
+
+main().catch((error) => {
+  console.error("❌ Loading bibliographic records failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,446 @@
+import type { Book } from "@shared/schema";
+
+// MARC 21 bibliographic records, read from and written to ISO 2709 (.mrc)
+// and MARCXML. Only what the catalogue exchanges is supported: records are
+// written as UTF-8, and MARC-8 input is read as Latin-1.
+
+export interface MarcSubfield {
+  code: string;
+  value: string;
+}
+
+export type MarcField =
+  | { tag: string; value: string } // control field, 001-009
+  | { tag: string; ind1: string; ind2: string; subfields: MarcSubfield[] };
+
+export interface MarcRecord {
+  leader: string;
+  fields: MarcField[];
+}
+
+// One record of an uploaded file; `record` is null when it could not be read
+export interface MarcFileEntry {
+  recordNumber: number;
+  record: MarcRecord | null;
+  error: string | null;
+}
+
+// A problem with the file as a whole, as opposed to one of its records
+export class MarcError extends Error {}
+
+// MARC language codes (008/35-37, 041) of the languages the library holds;
+// other codes are kept as they are
+export const MARC_LANGUAGES: Record<string, string> = {
+  eng: "English",
+  mal: "Malayalam",
+  ara: "Arabic",
+  urd: "Urdu",
+  hin: "Hindi",
+  tam: "Tamil",
+  kan: "Kannada",
+  per: "Persian",
+};
+
+const RECORD_TERMINATOR = 0x1d;
+const FIELD_TERMINATOR = "\x1e";
+const SUBFIELD_DELIMITER = "\x1f";
+
+function isControlTag(tag: string) {
+  return /^00\d$/.test(tag);
+}
+
+// The values of one subfield across every occurrence of a field
+export function subfieldValues(record: MarcRecord, tag: string, code: string): string[] {
+  return record.fields.flatMap((field) =>
+    field.tag === tag && "subfields" in field
+      ? field.subfields.filter((subfield) => subfield.code === code).map((subfield) => subfield.value)
+      : []
+  );
+}
+
+export function controlFieldValue(record: MarcRecord, tag: string): string | undefined {
+  const field = record.fields.find((field) => field.tag === tag && "value" in field);
+  return field && "value" in field ? field.value : undefined;
+}
+
+// Reading
+
+// Reads a .mrc or MARCXML upload, telling them apart by content
+export function readMarcFile(buffer: Buffer): MarcFileEntry[] {
+  const text = buffer.toString("utf8").replace(/^\uFEFF/, "").trimStart();
+  const entries = text.startsWith("<") ? readMarcXml(text) : readIso2709(buffer);
+  if (entries.length === 0) {
+    throw new MarcError("The file has no MARC records");
+  }
+  return entries;
+}
+
+function readIso2709(buffer: Buffer): MarcFileEntry[] {
+  const entries: MarcFileEntry[] = [];
+  let start = 0;
+  while (start < buffer.length) {
+    let end = buffer.indexOf(RECORD_TERMINATOR, start);
+    if (end < 0) end = buffer.length;
+    const bytes = buffer.subarray(start, end);
+    start = end + 1;
+    // Line breaks between records are common in files passed through email
+    if (bytes.toString("latin1").trim() === "") continue;
+
+    const recordNumber = entries.length + 1;
+    try {
+      entries.push({ recordNumber, record: parseIso2709Record(bytes), error: null });
+    } catch (error) {
+      entries.push({ recordNumber, record: null, error: (error as Error).message });
+    }
+  }
+  return entries;
+}
+
+function parseIso2709Record(raw: Buffer): MarcRecord {
+  const bytes = raw.subarray(raw.findIndex((byte) => byte > 0x20));
+  if (bytes.length < 25) {
+    throw new Error("Record is too short to be MARC");
+  }
+  const leader = bytes.subarray(0, 24).toString("latin1");
+  const baseAddress = Number(leader.slice(12, 17));
+  if (!/^\d{5}$/.test(leader.slice(12, 17)) || baseAddress < 25 || baseAddress > bytes.length) {
+    throw new Error("Leader has an invalid base address; the file may not be MARC 21");
+  }
+  // Leader/09 "a" is UCS/Unicode; anything else is MARC-8
+  const encoding = leader[9] === "a" ? "utf8" : "latin1";
+  const directory = bytes.subarray(24, baseAddress - 1).toString("latin1");
+  if (directory.length % 12 !== 0) {
+    throw new Error("Record directory is malformed");
+  }
+
+  const fields: MarcField[] = [];
+  for (let i = 0; i < directory.length; i += 12) {
+    const tag = directory.slice(i, i + 3);
+    const length = Number(directory.slice(i + 3, i + 7));
+    const offset = Number(directory.slice(i + 7, i + 12));
+    if (Number.isNaN(length) || Number.isNaN(offset) || baseAddress + offset + length > bytes.length) {
+      throw new Error(`Field ${tag} lies outside the record`);
+    }
+    const data = bytes
+      .subarray(baseAddress + offset, baseAddress + offset + length)
+      .toString(encoding)
+      .replace(new RegExp(`${FIELD_TERMINATOR}$`), "");
+
+    if (isControlTag(tag)) {
+      fields.push({ tag, value: data });
+    } else {
+      const [indicators, ...subfields] = data.split(SUBFIELD_DELIMITER);
+      fields.push({
+        tag,
+        ind1: indicators[0] ?? " ",
+        ind2: indicators[1] ?? " ",
+        subfields: subfields
+          .filter((subfield) => subfield.length > 0)
+          .map((subfield) => ({ code: subfield[0], value: subfield.slice(1) })),
+      });
+    }
+  }
+  return { leader, fields };
+}
+
+// Throws on a character reference that is not a Unicode code point, e.g. &#x110000;
+function decodeXml(value: string) {
+  return value.replace(/&(#x[\da-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const codePoint = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      if (!(codePoint <= 0x10ffff)) throw new Error(`Invalid character reference ${match}`);
+      return String.fromCodePoint(codePoint);
+    }
+    return { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" }[entity.toLowerCase()]!;
+  });
+}
+
+// Attributes of a start tag, e.g. ` tag="245" ind1="1"`. Values are left
+// encoded. Reading stops at the first malformed attribute.
+function xmlAttributes(source: string) {
+  const attributes = new Map<string, string>();
+  let position = 0;
+  const isSpace = (char: string | undefined) => char !== undefined && /\s/.test(char);
+  while (position < source.length) {
+    while (isSpace(source[position])) position++;
+    const nameStart = position;
+    while (position < source.length && source[position] !== "=" && !isSpace(source[position])) position++;
+    if (position === nameStart) break;
+    const name = source.slice(nameStart, position);
+    while (isSpace(source[position])) position++;
+    if (source[position] !== "=") break;
+    position++;
+    while (isSpace(source[position])) position++;
+    const quote = source[position];
+    if (quote !== "\"" && quote !== "'") break;
+    const end = source.indexOf(quote, position + 1);
+    if (end < 0) break;
+    attributes.set(name.replace(/^[\w.-]+:/, ""), source.slice(position + 1, end));
+    position = end + 1;
+  }
+  return attributes;
+}
+
+type XmlToken =
+  | { kind: "start"; name: string; attributes: string; selfClosing: boolean }
+  | { kind: "end"; name: string }
+  | { kind: "text"; value: string; cdata: boolean };
+
+// Splits XML into tags and the text between them in one pass, skipping
+// comments, processing instructions and doctypes. Every search starts where
+// the last one ended, so malformed input (an unclosed tag, say) cannot make
+// reading slower than linear. Element names lose their namespace prefix.
+function scanXml(text: string, onToken: (token: XmlToken) => void) {
+  let position = 0;
+  while (position < text.length) {
+    const open = text.indexOf("<", position);
+    if (open < 0) {
+      onToken({ kind: "text", value: text.slice(position), cdata: false });
+      return;
+    }
+    if (open > position) onToken({ kind: "text", value: text.slice(position, open), cdata: false });
+
+    if (text.startsWith("<!--", open) || text.startsWith("<![CDATA[", open)) {
+      const comment = text.startsWith("<!--", open);
+      const end = text.indexOf(comment ? "-->" : "]]>", open);
+      if (end < 0) return;
+      if (!comment) onToken({ kind: "text", value: text.slice(open + 9, end), cdata: true });
+      position = end + 3;
+      continue;
+    }
+    const close = text.indexOf(">", open);
+    if (close < 0) return;
+    position = close + 1;
+
+    const tag = text.slice(open + 1, close);
+    const qualifiedName = tag.match(/^\/?([\w.:-]+)/)?.[1];
+    if (!qualifiedName) continue; // <?xml ...?>, <!DOCTYPE ...> and stray "<"
+    const name = qualifiedName.replace(/^[\w.-]+:/, "");
+    if (tag[0] === "/") {
+      onToken({ kind: "end", name });
+    } else {
+      const selfClosing = tag.endsWith("/");
+      onToken({ kind: "start", name, attributes: tag.slice(qualifiedName.length, selfClosing ? -1 : undefined), selfClosing });
+    }
+  }
+}
+
+interface XmlRecord {
+  leader: string;
+  fields: MarcField[];
+  error: string | null;
+}
+
+// MARCXML (http://www.loc.gov/standards/marcxml/), with or without a
+// namespace prefix. Only the record structure is read, so this is not a
+// general XML parser. Problems inside a record, such as a bad character
+// reference or a missing end tag, are reported for that record alone.
+function readMarcXml(text: string): MarcFileEntry[] {
+  const entries: MarcFileEntry[] = [];
+  let isMarcXml = false;
+  let record: XmlRecord | null = null;
+  let field: Extract<MarcField, { subfields: MarcSubfield[] }> | null = null;
+  // The leader, control field or subfield whose text is being read
+  let element: { name: string; attributes: Map<string, string>; text: string } | null = null;
+
+  const decode = (value: string) => {
+    try {
+      return decodeXml(value);
+    } catch (error) {
+      record!.error ??= (error as Error).message;
+      return "";
+    }
+  };
+  const finishRecord = (error?: string) => {
+    const recordNumber = entries.length + 1;
+    const { leader, fields } = record!;
+    const problem = error ?? record!.error
+      ?? (fields.some((field) => !/^\d{3}$/.test(field.tag)) ? "Record has a field without a valid tag" : null);
+    record = null;
+    field = null;
+    element = null;
+    if (problem) {
+      entries.push({ recordNumber, record: null, error: problem });
+      return;
+    }
+    // Directory order is by tag; the XML may list control and data fields apart
+    fields.sort((a, b) => a.tag.localeCompare(b.tag));
+    entries.push({ recordNumber, record: { leader: leader.padEnd(24).slice(0, 24), fields }, error: null });
+  };
+  const endElement = (name: string) => {
+    if (!record || !element || element.name !== name) return;
+    const attribute = (attributeName: string) => decode(element!.attributes.get(attributeName) ?? "");
+    if (name === "leader") {
+      record.leader = element.text;
+    } else if (name === "controlfield") {
+      record.fields.push({ tag: attribute("tag"), value: element.text });
+    } else if (field) {
+      field.subfields.push({ code: attribute("code"), value: element.text });
+    }
+    element = null;
+  };
+
+  scanXml(text, (token) => {
+    if (token.kind === "text") {
+      if (element) element.text += token.cdata ? token.value : decode(token.value);
+      return;
+    }
+    const { name } = token;
+    if (name === "collection" || name === "record") isMarcXml = true;
+
+    if (token.kind === "start") {
+      if (name === "record") {
+        if (record) finishRecord("Record is not closed");
+        record = { leader: "", fields: [], error: null };
+        if (token.selfClosing) finishRecord();
+      } else if (!record) {
+        return;
+      } else if (name === "datafield") {
+        const attributes = xmlAttributes(token.attributes);
+        field = {
+          tag: decode(attributes.get("tag") ?? ""),
+          ind1: decode(attributes.get("ind1") ?? "") || " ",
+          ind2: decode(attributes.get("ind2") ?? "") || " ",
+          subfields: [],
+        };
+        record.fields.push(field);
+        if (token.selfClosing) field = null;
+      } else if (name === "leader" || name === "controlfield" || (name === "subfield" && field)) {
+        element = { name, attributes: xmlAttributes(token.attributes), text: "" };
+        if (token.selfClosing) endElement(name);
+      }
+    } else if (name === "record" && record) {
+      finishRecord();
+    } else if (name === "datafield") {
+      field = null;
+    } else {
+      endElement(name);
+    }
+  });
+  if (record) finishRecord("Record is not closed");
+
+  if (!isMarcXml) {
+    throw new MarcError("The XML file is not MARCXML");
+  }
+  return entries;
+}
+
+// Writing
+
+// ISBD punctuation ends each part of a heading, e.g. 245 $a "Title :" $b "subtitle /"
+function withPunctuation(value: string, mark: string) {
+  return /[.?!]$/.test(value) && mark === "." ? value : `${value}${mark}`;
+}
+
+function dataField(tag: string, ind1: string, ind2: string, subfields: [string, string | null | undefined][]): MarcField | null {
+  const present = subfields.filter((subfield): subfield is [string, string] => Boolean(subfield[1]));
+  if (present.length === 0) return null;
+  return { tag, ind1, ind2, subfields: present.map(([code, value]) => ({ code, value })) };
+}
+
+function languageCode(language: string) {
+  const code = Object.entries(MARC_LANGUAGES).find(([, name]) => name.toLowerCase() === language.toLowerCase())?.[0];
+  return code ?? (/^[a-z]{3}$/i.test(language) ? language.toLowerCase() : "und");
+}
+
+function fixedLengthData(book: Book) {
+  const entered = book.createdAt ?? new Date();
+  const date = [entered.getFullYear() % 100, entered.getMonth() + 1, entered.getDate()]
+    .map((part) => String(part).padStart(2, "0"))
+    .join("");
+  const dates = book.publicationYear ? `s${book.publicationYear}    ` : "nuuuuuuuu";
+  // 008/15-34: place of publication unknown, books material fields blank
+  return `${date}${dates}xx ${" ".repeat(17)}${languageCode(book.language)} d`;
+}
+
+// Maps a catalogued book onto a MARC 21 bibliographic record: 020 ISBN and
+// price, 082 DDC, 100 author, 245 title, 250 edition, 260 publication,
+// 300 pages, 500 notes and 650 subjects. The book number is the 001
+// control number.
+export function bookToMarc(book: Book): MarcRecord {
+  const [classNumber, bookNumber] = book.ddc.split(" ");
+  const fields: (MarcField | null)[] = [
+    { tag: "001", value: String(book.id) },
+    { tag: "008", value: fixedLengthData(book) },
+    dataField("020", " ", " ", [["a", book.isbn], ["c", `Rs. ${book.price}`]]),
+    dataField("082", "0", "4", [["a", classNumber], ["b", bookNumber]]),
+    dataField("100", "1", " ", [["a", withPunctuation(book.author, ".")]]),
+    dataField("245", "1", "0", [["a", withPunctuation(book.title, ".")]]),
+    dataField("250", " ", " ", [["a", book.edition]]),
+    dataField("260", " ", " ", [
+      ["b", book.publicationYear ? withPunctuation(book.publisher, ",") : withPunctuation(book.publisher, ".")],
+      ["c", book.publicationYear ? `${book.publicationYear}.` : null],
+    ]),
+    dataField("300", " ", " ", [["a", book.pageCount ? `${book.pageCount} p.` : null]]),
+    dataField("500", " ", " ", [["a", book.notes]]),
+    ...book.subjects.map((subject) => dataField("650", " ", "4", [["a", subject]])),
+  ];
+  return {
+    // New record, language material, monograph, Unicode, full level
+    leader: "00000nam a2200000 a 4500",
+    fields: fields.filter((field): field is MarcField => field !== null),
+  };
+}
+
+function fieldData(field: MarcField) {
+  return "value" in field
+    ? field.value
+    : field.ind1 + field.ind2 + field.subfields.map((subfield) => SUBFIELD_DELIMITER + subfield.code + subfield.value).join("");
+}
+
+// ISO 2709 with UTF-8 data; lengths and offsets are counted in bytes
+export function writeIso2709(records: MarcRecord[]): Buffer {
+  return Buffer.concat(records.map((record) => {
+    const data = record.fields.map((field) => Buffer.from(fieldData(field) + FIELD_TERMINATOR, "utf8"));
+    let offset = 0;
+    const directory = record.fields.map((field, i) => {
+      const entry = field.tag + String(data[i].length).padStart(4, "0") + String(offset).padStart(5, "0");
+      offset += data[i].length;
+      return entry;
+    }).join("") + FIELD_TERMINATOR;
+
+    const baseAddress = 24 + directory.length;
+    const recordLength = baseAddress + offset + 1;
+    const leader = String(recordLength).padStart(5, "0") +
+      record.leader.slice(5, 9) + "a22" + String(baseAddress).padStart(5, "0") + record.leader.slice(17, 20) + "4500";
+    return Buffer.concat([
+      Buffer.from(leader + directory, "latin1"),
+      ...data,
+      Buffer.from([RECORD_TERMINATOR]),
+    ]);
+  }));
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab and line breaks are not allowed in XML
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, "");
+}
+
+export function writeMarcXml(records: MarcRecord[]): string {
+  const lines = [
+    "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+    "<collection xmlns=\"http://www.loc.gov/MARC21/slim\">",
+  ];
+  for (const record of records) {
+    lines.push("  <record>", `    <leader>${escapeXml(record.leader)}</leader>`);
+    for (const field of record.fields) {
+      if ("value" in field) {
+        lines.push(`    <controlfield tag="${field.tag}">${escapeXml(field.value)}</controlfield>`);
+        continue;
+      }
+      lines.push(`    <datafield tag="${field.tag}" ind1="${escapeXml(field.ind1)}" ind2="${escapeXml(field.ind2)}">`);
+      for (const subfield of field.subfields) {
+        lines.push(`      <subfield code="${escapeXml(subfield.code)}">${escapeXml(subfield.value)}</subfield>`);
+      }
+      lines.push("    </datafield>");
+    }
+    lines.push("  </record>");
+  }
+  lines.push("</collection>", "");
+  return lines.join("\n");
+}
@@ -0,0 +1,57 @@
+import { insertMemberSchema, type MemberImportRow } from "@shared/schema";
+import { readSpreadsheet } from "./spreadsheet";
+
+// Accepted headers for each member field, compared after normalisation
+const MEMBER_COLUMNS = {
+  fullName: ["full name", "name", "student name", "member name"],
+  class: ["class", "grade", "standard", "std", "class division"],
+  registrationNo: ["registration no", "registration number", "registration", "reg no", "regno", "admission no", "admission number"],
+  email: ["email", "email address", "e mail"],
+  phone: ["phone", "phone no", "phone number", "mobile", "mobile no", "whatsapp"],
+};
+
+type MemberColumn = keyof typeof MEMBER_COLUMNS;
+
+const FIELD_LABELS: Record<MemberColumn, string> = {
+  fullName: "Full name",
+  class: "Class",
+  registrationNo: "Registration no.",
+  email: "Email",
+  phone: "Phone",
+};
+
+// Maps and validates every row of an uploaded class roster against
+// insertMemberSchema. Matching against existing members is done by
+// storage.previewMemberImport.
+export async function parseMemberImport(file: Express.Multer.File): Promise<MemberImportRow[]> {
+  const firstRowFor = new Map<string, number>();
+
+  return (await readSpreadsheet(file, MEMBER_COLUMNS, ["fullName", "class", "registrationNo"])).map(({ rowNumber, values }) => {
+    const errors: string[] = [];
+    const result = insertMemberSchema.safeParse(values);
+    if (!result.success) {
+      for (const issue of result.error.errors) {
+        const label = FIELD_LABELS[issue.path[0] as MemberColumn] ?? String(issue.path[0]);
+        errors.push(issue.message === "Required" ? `${label} is required` : `${label}: ${issue.message}`);
+      }
+    }
+
+    if (values.registrationNo) {
+      const key = values.registrationNo.toLowerCase();
+      const firstRow = firstRowFor.get(key);
+      if (firstRow !== undefined) {
+        errors.push(`Registration no. repeats row ${firstRow}`);
+      } else {
+        firstRowFor.set(key, rowNumber);
+      }
+    }
+
+    return {
+      rowNumber,
+      member: errors.length === 0 && result.success ? result.data : null,
+      errors,
+      action: null,
+      existing: null,
+    };
+  });
+}
@@ -0,0 +1,139 @@
+import { storage } from "./storage";
+import { notifierFor, notifiers } from "./notifier";
+import type { DueNotice, Member, Notice, NoticeRunResult, NoticeTemplate, noticePlaceholders } from "@shared/schema";
+
+// Failed deliveries are retried on later runs, up to this many attempts
+const MAX_ATTEMPTS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type PlaceholderValues = Record<keyof typeof noticePlaceholders, string>;
+
+function placeholderValues({ loan, book, copy, member }: DueNotice, fineRatePerDay: number): PlaceholderValues {
+  const dueDate = loan.dueDate!;
+  const daysOverdue = Math.max(0, Math.ceil((Date.now() - dueDate.getTime()) / DAY_MS));
+  return {
+    memberName: member.fullName,
+    registrationNo: member.registrationNo,
+    bookTitle: book.title,
+    author: book.author,
+    accessionNo: copy?.accessionNo ?? "",
+    dueDate: dueDate.toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" }),
+    daysLeft: String(Math.max(0, Math.ceil((dueDate.getTime() - Date.now()) / DAY_MS))),
+    daysOverdue: String(daysOverdue),
+    fineSoFar: String(daysOverdue * fineRatePerDay),
+  };
+}
+
+// Replaces each {{placeholder}}; unknown ones are left as written so a typo
+// shows up in the message rather than vanishing
+export function renderTemplate(text: string, values: Record<string, string>) {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+}
+
+type DeliveryOutcome = "sent" | "failed" | "skipped";
+
+async function deliver(notice: Notice, recipient = notice.recipient): Promise<DeliveryOutcome> {
+  const notifier = notifierFor(notice.channel);
+  if (!notifier) {
+    await storage.recordNoticeAttempt(notice.id, { status: "failed", error: `The ${notice.channel} channel is not configured` });
+    return "failed";
+  }
+  if (!recipient) {
+    await storage.recordNoticeAttempt(notice.id, {
+      status: "skipped",
+      error: `The member has no ${notice.channel === "email" ? "email address" : "phone number"}`,
+      recipient: null,
+    });
+    return "skipped";
+  }
+  try {
+    await notifier.send({ recipient, subject: notice.subject, body: notice.body });
+    await storage.recordNoticeAttempt(notice.id, { status: "sent", recipient });
+    return "sent";
+  } catch (error) {
+    await storage.recordNoticeAttempt(notice.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      recipient,
+    });
+    return "failed";
+  }
+}
+
+// The run in progress, which a second caller joins rather than starting
+// another that would find and send the same notices
+let currentRun: Promise<NoticeRunResult> | null = null;
+
+// One run of the reminder job: creates a notice on every configured channel
+// for each loan that is due soon or overdue, sends them, and retries earlier
+// failures. A member who cannot be reached on any channel gets a single
+// skipped notice, so the gap shows in the delivery log. The hourly job and
+// "Send Reminders Now" share one run at a time.
+export function sendReminders(): Promise<NoticeRunResult> {
+  currentRun ??= runReminders().finally(() => {
+    currentRun = null;
+  });
+  return currentRun;
+}
+
+async function runReminders(): Promise<NoticeRunResult> {
+  const librarySettings = await storage.getSettings();
+  const templates = new Map<string, NoticeTemplate>(
+    (await storage.getNoticeTemplates()).map((template) => [template.kind, template])
+  );
+  const result: NoticeRunResult = { generated: 0, sent: 0, failed: 0, skipped: 0 };
+  const count = (outcome: DeliveryOutcome) => result[outcome]++;
+
+  for (const retry of await storage.getRetryableNotices(MAX_ATTEMPTS)) {
+    count(await deliver(retry));
+  }
+
+  for (const due of await storage.getDueNotices(librarySettings)) {
+    const template = templates.get(due.kind)!;
+    const values = placeholderValues(due, librarySettings.fineRatePerDay);
+    const message = {
+      kind: due.kind,
+      circulationId: due.loan.id,
+      memberId: due.member.id,
+      subject: renderTemplate(template.subject, values),
+      body: renderTemplate(template.body, values),
+      dueDate: due.loan.dueDate!,
+    };
+
+    const reachable = notifiers.flatMap((notifier) => {
+      const recipient = notifier.recipientFor(due.member);
+      return recipient ? [{ channel: notifier.channel, recipient }] : [];
+    });
+    if (reachable.length === 0) {
+      const skipped = await storage.createNotice({
+        ...message,
+        channel: notifiers[0].channel,
+        status: "skipped",
+        error: "The member has no email address or phone number",
+      });
+      if (skipped) {
+        result.generated++;
+        count("skipped");
+      }
+      continue;
+    }
+
+    for (const { channel, recipient } of reachable) {
+      // Undefined when another server already created this due-soon notice
+      const notice = await storage.createNotice({ ...message, channel, recipient, status: "pending" });
+      if (!notice) continue;
+      result.generated++;
+      count(await deliver(notice));
+    }
+  }
+  return result;
+}
+
+// Sends a notice again, e.g. after the member's contact details were
+// corrected. The recipient is looked up afresh.
+export async function resendNotice(notice: Notice, member: Member): Promise<Notice> {
+  const recipient = notifierFor(notice.channel)?.recipientFor(member) ?? null;
+  await deliver(notice, recipient);
+  return (await storage.getNotice(notice.id))!;
+}
@@ -1,19 +1,100 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, CirculationError } from "./storage";
+import { setupAuth, requireAuth, requirePermission, hashPassword, toPublicUser } from "./auth";
+import { trackAuditActor } from "./audit";
+import { spreadsheetUpload, SpreadsheetError } from "./spreadsheet";
+import { coverUpload, serveCovers, saveCover, removeCover, CoverError } from "./covers";
+import { parseBookImport, parseMarcImport } from "./book-import";
+import { bookToMarc, writeIso2709, writeMarcXml, MarcError } from "./marc";
+import { notifiers } from "./notifier";
+import { sendReminders, resendNotice } from "./reminders";
+import { serveLiveUpdates } from "./live-updates";
+import { parseMemberImport } from "./member-import";
+import { sendExport, formatDate } from "./exports";
+import { writeBookLabels, writeMemberCards } from "./labels";
 import { 
-  insertBookSchema, insertMemberSchema, insertCategorySchema,
-  insertBookSuggestionSchema, insertBookReviewSchema, insertCirculationSchema
+  createBookSchema, updateBookSchema, bookImportOptionsSchema, marcImportPreviewSchema, marcImportOptionsSchema, insertBookCopySchema,
+  insertMemberSchema, memberImportOptionsSchema, promoteClassSchema, insertCategorySchema, deleteCategoryQuerySchema,
+  insertBookSuggestionSchema, insertBookReviewSchema,
+  staffAccountSchema, updateStaffAccountSchema, issueBookSchema, returnBookSchema, deskScanSchema,
+  insertReservationSchema, insertCirculationPolicySchema,
+  bookListQuerySchema, memberListQuerySchema, circulationListQuerySchema, auditListQuerySchema,
+  bookExportQuerySchema, marcExportQuerySchema, memberExportQuerySchema, circulationExportQuerySchema,
+  bookLabelQuerySchema, memberCardQuerySchema, fineTransactionSchema, fineSettingsSchema, reminderSettingsSchema,
+  noticeKinds, noticeTemplateSchema, noticeListQuerySchema, notificationReadSchema, visibleNotificationKinds,
+  hasPermission, type BookImportPreview, type MemberImportPreview, type Member, type PublicMember
 } from "@shared/schema";
+import { normalizeIsbn } from "@shared/isbn";
 import { z } from "zod";
 
+// Postgres unique_violation, e.g. a duplicate accession number
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === "23505";
+}
+
+// Postgres foreign_key_violation, e.g. deleting a row other records point at
+function isForeignKeyViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === "23503";
+}
+
+// Lists a rejected import in the notification centre. Errors here are only
+// logged, so the import's own error still reaches the client.
+async function notifyImportFailed(
+  kind: "book_import_failed" | "member_import_failed",
+  req: Request,
+  reason: string,
+) {
+  try {
+    await storage.createNotification({
+      kind,
+      title: kind === "book_import_failed" ? "Book import failed" : "Member import failed",
+      message: `${req.file?.originalname ?? "An upload"} from ${req.user?.username ?? "a staff member"}: ${reason}`,
+    });
+  } catch (error) {
+    console.error("Failed to record import notification:", error);
+  }
+}
+
+// Members' email and phone are for staff who manage members or view history;
+// the public pages only need enough to pick a member
+function canSeeMemberContacts(req: Request): boolean {
+  return req.isAuthenticated()
+    && (["members:manage", "history:view"] as const).some((permission) => hasPermission(req.user.role, permission));
+}
+
+function toPublicMember({ id, fullName, class: memberClass, registrationNo }: Member): PublicMember {
+  return { id, fullName, class: memberClass, registrationNo };
+}
+
+function rowErrorSummary(preview: BookImportPreview | MemberImportPreview, unit: string) {
+  const invalid = preview.rows.filter((row) => row.errors.length > 0).length;
+  return `${invalid} ${unit}${invalid === 1 ? "" : "s"} with errors`;
+}
+
+// "status: active · class: 10th A" for the filters that are set, printed on exports
+function describeFilters(filters: Record<string, string | undefined>): string | undefined {
+  const parts = Object.entries(filters)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}: ${value}`);
+  return parts.length > 0 ? parts.join(" · ") : undefined;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  await setupAuth(app);
+  app.use(trackAuditActor);
+  app.use("/covers", serveCovers);
+
   // Books
   app.get("/api/books", async (req, res) => {
     try {
-      const books = await storage.getBooks();
-      res.json(books);
+      const query = bookListQuerySchema.parse(req.query);
+      const books = await storage.getBooks(query);
+      res.json(query.page ? books : books.items);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to fetch books" });
     }
   });
@@ -31,6 +112,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Bibliographic lookup for the book form, from the locally loaded dataset
+  app.get("/api/books/isbn/:isbn", requirePermission("catalogue:edit"), async (req, res) => {
+    try {
+      const isbn = normalizeIsbn(req.params.isbn);
+      if (!isbn) {
+        return res.status(400).json({ error: "Enter a valid ISBN-10 or ISBN-13" });
+      }
+      const lookup = await storage.lookupIsbn(isbn);
+      res.json(lookup);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to look up ISBN" });
+    }
+  });
+
+  // Book counts per Dewey class and division for the public browse tree
+  app.get("/api/books/ddc-tree", async (req, res) => {
+    try {
+      const tree = await storage.getDdcTree();
+      res.json(tree);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch DDC tree" });
+    }
+  });
+
   app.get("/api/books/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -44,57 +149,312 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/books", async (req, res) => {
+  app.post("/api/books", requirePermission("catalogue:edit"), async (req, res) => {
     try {
-      const data = insertBookSchema.parse(req.body);
+      const data = createBookSchema.parse(req.body);
       const book = await storage.createBook(data);
       res.status(201).json(book);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid book data", details: error.errors });
       }
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to create book" });
     }
   });
 
-  app.put("/api/books/:id", async (req, res) => {
+  // Catalogue import: the preview validates an uploaded CSV/XLSX file without
+  // saving anything; the import re-reads the same file and saves it whole.
+  app.post("/api/books/import/preview", requirePermission("catalogue:edit"), spreadsheetUpload, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "A CSV or Excel file is required" });
+      }
+      const preview = await storage.previewBookImport(await parseBookImport(req.file));
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof SpreadsheetError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to read import file" });
+    }
+  });
+
+  app.post("/api/books/import", requirePermission("catalogue:edit"), spreadsheetUpload, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "A CSV or Excel file is required" });
+      }
+      const { skipDuplicates } = bookImportOptionsSchema.parse(req.body);
+      const preview = await storage.previewBookImport(await parseBookImport(req.file));
+      if (preview.rows.some((row) => row.errors.length > 0)) {
+        await notifyImportFailed("book_import_failed", req, rowErrorSummary(preview, "row"));
+        return res.status(400).json({ error: "Fix the rows with errors before importing", preview });
+      }
+      const result = await storage.importBooks(preview, skipDuplicates);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof SpreadsheetError) {
+        await notifyImportFailed("book_import_failed", req, error.message);
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid import options", details: error.errors });
+      }
+      await notifyImportFailed("book_import_failed", req, "the books could not be saved");
+      res.status(500).json({ error: "Failed to import books" });
+    }
+  });
+
+  // The same preview and import for MARC 21 (.mrc) and MARCXML files, with
+  // errors reported per record
+  app.post("/api/books/import/marc/preview", requirePermission("catalogue:edit"), spreadsheetUpload, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "A MARC or MARCXML file is required" });
+      }
+      const { category } = marcImportPreviewSchema.parse(req.body);
+      const preview = await storage.previewBookImport(parseMarcImport(req.file, category));
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof MarcError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid import options", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to read MARC file" });
+    }
+  });
+
+  app.post("/api/books/import/marc", requirePermission("catalogue:edit"), spreadsheetUpload, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "A MARC or MARCXML file is required" });
+      }
+      const { skipDuplicates, category } = marcImportOptionsSchema.parse(req.body);
+      const preview = await storage.previewBookImport(parseMarcImport(req.file, category));
+      if (preview.rows.some((row) => row.errors.length > 0)) {
+        await notifyImportFailed("book_import_failed", req, rowErrorSummary(preview, "record"));
+        return res.status(400).json({ error: "Fix the records with errors before importing", preview });
+      }
+      const result = await storage.importBooks(preview, skipDuplicates);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof MarcError) {
+        await notifyImportFailed("book_import_failed", req, error.message);
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid import options", details: error.errors });
+      }
+      await notifyImportFailed("book_import_failed", req, "the records could not be saved");
+      res.status(500).json({ error: "Failed to import books" });
+    }
+  });
+
+  app.put("/api/books/:id", requirePermission("catalogue:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
+      const updates = updateBookSchema.parse(req.body);
       const book = await storage.updateBook(id, updates);
       if (!book) {
         return res.status(404).json({ error: "Book not found" });
       }
       res.json(book);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid book data", details: error.errors });
+      }
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to update book" });
     }
   });
 
-  app.delete("/api/books/:id", async (req, res) => {
+  // Deleting moves the book to the Trash; purging removes it for good
+  app.delete("/api/books/:id", requirePermission("records:delete"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteBook(id);
-      if (!deleted) {
+      const book = await storage.setBookArchived(parseInt(req.params.id), true);
+      if (!book) {
         return res.status(404).json({ error: "Book not found" });
       }
       res.status(204).send();
     } catch (error) {
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to delete book" });
     }
   });
 
+  app.post("/api/books/:id/restore", requirePermission("records:delete"), async (req, res) => {
+    try {
+      const book = await storage.setBookArchived(parseInt(req.params.id), false);
+      if (!book) {
+        return res.status(404).json({ error: "Book not found" });
+      }
+      res.json(book);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore book" });
+    }
+  });
+
+  app.delete("/api/books/:id/purge", requirePermission("records:delete"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const book = await storage.getBook(id);
+      const purged = await storage.purgeBook(id);
+      if (!purged) {
+        return res.status(404).json({ error: "Book not found" });
+      }
+      await removeCover(book?.coverImage ?? null);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to delete book permanently" });
+    }
+  });
+
+  // Cover images. Uploading replaces any existing cover; the old files are
+  // deleted once the book points at the new one.
+  app.put("/api/books/:id/cover", requirePermission("catalogue:edit"), coverUpload, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!req.file) {
+        return res.status(400).json({ error: "An image file is required" });
+      }
+      const book = await storage.getBook(id);
+      if (!book) {
+        return res.status(404).json({ error: "Book not found" });
+      }
+      const coverImage = await saveCover(id, req.file);
+      const updated = await storage.updateBook(id, { coverImage });
+      await removeCover(book.coverImage);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof CoverError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to save cover image" });
+    }
+  });
+
+  app.delete("/api/books/:id/cover", requirePermission("catalogue:edit"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const book = await storage.getBook(id);
+      if (!book) {
+        return res.status(404).json({ error: "Book not found" });
+      }
+      const updated = await storage.updateBook(id, { coverImage: null });
+      await removeCover(book.coverImage);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove cover image" });
+    }
+  });
+
+  // Book copies
+  app.get("/api/books/:id/copies", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const copies = await storage.getBookCopies(id);
+      res.json(copies);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch book copies" });
+    }
+  });
+
+  app.post("/api/books/:id/copies", requirePermission("catalogue:edit"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const data = insertBookCopySchema.parse(req.body);
+      if (!(await storage.getBook(id))) {
+        return res.status(404).json({ error: "Book not found" });
+      }
+      const copy = await storage.createBookCopy(id, data);
+      res.status(201).json(copy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid copy data", details: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "Accession number is already in use" });
+      }
+      res.status(500).json({ error: "Failed to create book copy" });
+    }
+  });
+
+  app.put("/api/copies/:id", requirePermission("catalogue:edit"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const data = insertBookCopySchema.partial().parse(req.body);
+      const copy = await storage.updateBookCopy(id, data);
+      if (!copy) {
+        return res.status(404).json({ error: "Copy not found" });
+      }
+      res.json(copy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid copy data", details: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "Accession number is already in use" });
+      }
+      res.status(500).json({ error: "Failed to update book copy" });
+    }
+  });
+
+  app.delete("/api/copies/:id", requirePermission("records:delete"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteBookCopy(id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Copy not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (isForeignKeyViolation(error)) {
+        return res.status(409).json({ error: "Copy has loan or reservation history and cannot be removed" });
+      }
+      res.status(500).json({ error: "Failed to delete book copy" });
+    }
+  });
+
   // Members
   app.get("/api/members", async (req, res) => {
     try {
-      const members = await storage.getMembers();
-      res.json(members);
+      const query = memberListQuerySchema.parse(req.query);
+      const members = await storage.getMembers(query);
+      const items = canSeeMemberContacts(req) ? members.items : members.items.map(toPublicMember);
+      res.json(query.page ? { ...members, items } : items);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to fetch members" });
     }
   });
 
-  app.get("/api/members/search", async (req, res) => {
+  app.get("/api/members/classes", async (req, res) => {
+    try {
+      const classes = await storage.getMemberClasses();
+      res.json(classes);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch member classes" });
+    }
+  });
+
+  app.get("/api/members/search", requirePermission("members:manage", "history:view"), async (req, res) => {
     try {
       const { q } = req.query;
       if (!q || typeof q !== "string") {
@@ -107,7 +467,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/members", async (req, res) => {
+  app.post("/api/members", requirePermission("members:manage"), async (req, res) => {
     try {
       const data = insertMemberSchema.parse(req.body);
       const member = await storage.createMember(data);
@@ -120,7 +480,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/members/:id", async (req, res) => {
+  app.put("/api/members/:id", requirePermission("members:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const data = insertMemberSchema.parse(req.body);
@@ -137,11 +497,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/members/:id", async (req, res) => {
+  // Deleting archives the member, as /archive does; purging removes it for good
+  app.delete("/api/members/:id", requirePermission("records:delete"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteMember(id);
-      if (!deleted) {
+      const member = await storage.setMemberArchived(parseInt(req.params.id), true);
+      if (!member) {
         return res.status(404).json({ error: "Member not found" });
       }
       res.status(204).send();
@@ -150,6 +510,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.delete("/api/members/:id/purge", requirePermission("records:delete"), async (req, res) => {
+    try {
+      const purged = await storage.purgeMember(parseInt(req.params.id));
+      if (!purged) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to delete member permanently" });
+    }
+  });
+
+  app.post("/api/members/:id/archive", requirePermission("members:manage"), async (req, res) => {
+    try {
+      const member = await storage.setMemberArchived(parseInt(req.params.id), true);
+      if (!member) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      res.json(member);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to archive member" });
+    }
+  });
+
+  app.post("/api/members/:id/restore", requirePermission("members:manage"), async (req, res) => {
+    try {
+      const member = await storage.setMemberArchived(parseInt(req.params.id), false);
+      if (!member) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      res.json(member);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore member" });
+    }
+  });
+
+  app.post("/api/members/promote", requirePermission("members:manage"), async (req, res) => {
+    try {
+      const { fromClass, toClass } = promoteClassSchema.parse(req.body);
+      const promoted = await storage.promoteClass(fromClass, toClass);
+      res.json({ promoted });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid promotion", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to promote class" });
+    }
+  });
+
+  // Roster import: the preview matches an uploaded CSV/XLSX roster against
+  // existing members without saving; the import re-reads the file and
+  // applies it whole.
+  app.post("/api/members/import/preview", requirePermission("members:manage"), spreadsheetUpload, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "A CSV or Excel file is required" });
+      }
+      const { archiveMissing } = memberImportOptionsSchema.parse(req.body);
+      const preview = await storage.previewMemberImport(await parseMemberImport(req.file), archiveMissing);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof SpreadsheetError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid import options", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to read import file" });
+    }
+  });
+
+  app.post("/api/members/import", requirePermission("members:manage"), spreadsheetUpload, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "A CSV or Excel file is required" });
+      }
+      const { updateConflicts, archiveMissing } = memberImportOptionsSchema.parse(req.body);
+      const preview = await storage.previewMemberImport(await parseMemberImport(req.file), archiveMissing);
+      if (preview.rows.some((row) => row.errors.length > 0)) {
+        await notifyImportFailed("member_import_failed", req, rowErrorSummary(preview, "row"));
+        return res.status(400).json({ error: "Fix the rows with errors before importing", preview });
+      }
+      const result = await storage.importMembers(preview, updateConflicts);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof SpreadsheetError) {
+        await notifyImportFailed("member_import_failed", req, error.message);
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid import options", details: error.errors });
+      }
+      if (isUniqueViolation(error)) {
+        await notifyImportFailed("member_import_failed", req, "a registration number was taken while importing");
+        return res.status(409).json({ error: "A registration number was taken while importing; preview the roster again" });
+      }
+      await notifyImportFailed("member_import_failed", req, "the roster could not be saved");
+      res.status(500).json({ error: "Failed to import members" });
+    }
+  });
+
   // Categories
   app.get("/api/categories", async (req, res) => {
     try {
@@ -160,7 +624,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/categories", async (req, res) => {
+  app.post("/api/categories", requirePermission("categories:manage"), async (req, res) => {
     try {
       const data = insertCategorySchema.parse(req.body);
       const category = await storage.createCategory(data);
@@ -169,11 +633,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid category data", details: error.errors });
       }
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "A category with that name already exists" });
+      }
       res.status(500).json({ error: "Failed to create category" });
     }
   });
 
-  app.put("/api/categories/:id", async (req, res) => {
+  app.put("/api/categories/:id", requirePermission("categories:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const data = insertCategorySchema.parse(req.body);
@@ -186,25 +656,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid category data", details: error.errors });
       }
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "A category with that name already exists" });
+      }
       res.status(500).json({ error: "Failed to update category" });
     }
   });
 
-  app.delete("/api/categories/:id", async (req, res) => {
+  // Books still filed under the category move to `replacementId`; without
+  // one the delete is refused
+  app.delete("/api/categories/:id", requirePermission("categories:manage"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteCategory(id);
-      if (!deleted) {
+      const { replacementId } = deleteCategoryQuerySchema.parse(req.query);
+      const category = await storage.setCategoryArchived(parseInt(req.params.id), true, replacementId);
+      if (!category) {
         return res.status(404).json({ error: "Category not found" });
       }
       res.status(204).send();
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid replacement category", details: error.errors });
+      }
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to delete category" });
     }
   });
 
+  app.post("/api/categories/:id/restore", requirePermission("categories:manage"), async (req, res) => {
+    try {
+      const category = await storage.setCategoryArchived(parseInt(req.params.id), false);
+      if (!category) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      res.json(category);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore category" });
+    }
+  });
+
+  app.delete("/api/categories/:id/purge", requirePermission("records:delete"), async (req, res) => {
+    try {
+      const purged = await storage.purgeCategory(parseInt(req.params.id));
+      if (!purged) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to delete category permanently" });
+    }
+  });
+
+  // Trash
+  app.get("/api/trash", requirePermission("records:delete"), async (req, res) => {
+    try {
+      const trash = await storage.getTrash();
+      res.json(trash);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch trash" });
+    }
+  });
+
   // Reader Data
-  app.get("/api/members/:id/issued-books", async (req, res) => {
+  app.get("/api/members/:id/issued-books", requirePermission("history:view"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const books = await storage.getIssuedBooksForMember(id);
@@ -214,7 +735,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/members/:id/returned-books", async (req, res) => {
+  app.get("/api/members/:id/returned-books", requirePermission("history:view"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const books = await storage.getReturnedBooksForMember(id);
@@ -224,7 +745,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/members/:id/reviews", async (req, res) => {
+  app.get("/api/members/:id/reviews", requirePermission("history:view"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const reviews = await storage.getBookReviewsForMember(id);
@@ -234,7 +755,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/members/:id/suggestions", async (req, res) => {
+  app.get("/api/members/:id/suggestions", requirePermission("history:view"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const suggestions = await storage.getBookSuggestionsForMember(id);
@@ -245,7 +766,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Book Suggestions
-  app.get("/api/book-suggestions", async (req, res) => {
+  app.get("/api/book-suggestions", requirePermission("feedback:view"), async (req, res) => {
     try {
       const suggestions = await storage.getBookSuggestions();
       res.json(suggestions);
@@ -301,16 +822,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Circulation
-  app.get("/api/circulation", async (req, res) => {
+  app.get("/api/circulation", requirePermission("history:view"), async (req, res) => {
     try {
-      const circulation = await storage.getCirculation();
-      res.json(circulation);
+      const query = circulationListQuerySchema.parse(req.query);
+      const circulation = await storage.getCirculation(query);
+      res.json(query.page ? circulation : circulation.items);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to fetch circulation records" });
     }
   });
 
-  app.get("/api/circulation/active", async (req, res) => {
+  app.get("/api/circulation/active", requirePermission("circulation:manage", "history:view"), async (req, res) => {
     try {
       const activeCirculation = await storage.getActiveCirculation();
       res.json(activeCirculation);
@@ -319,7 +844,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/circulation/overdue", async (req, res) => {
+  app.get("/api/circulation/overdue", requirePermission("circulation:manage", "history:view"), async (req, res) => {
     try {
       const overdueCirculation = await storage.getOverdueCirculation();
       res.json(overdueCirculation);
@@ -328,47 +853,393 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/circulation", async (req, res) => {
+  app.post("/api/circulation/issue", requirePermission("circulation:manage"), async (req, res) => {
     try {
-      // Handle date conversion manually before validation
-      const requestData = { ...req.body };
-      if (requestData.dueDate && typeof requestData.dueDate === 'string') {
-        requestData.dueDate = new Date(requestData.dueDate);
-      }
-      if (requestData.returnDate && typeof requestData.returnDate === 'string') {
-        requestData.returnDate = new Date(requestData.returnDate);
-      }
-      
-      const data = insertCirculationSchema.parse(requestData);
-      const circulation = await storage.createCirculationRecord(data);
-      res.status(201).json(circulation);
+      const { bookId, memberId, copyId } = issueBookSchema.parse(req.body);
+      const result = await storage.issueBook(bookId, memberId, copyId);
+      res.status(201).json(result);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ error: "Invalid circulation data", details: error.errors });
+        return res.status(400).json({ error: "Invalid issue data", details: error.errors });
       }
-      res.status(500).json({ error: "Failed to create circulation record" });
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to issue book" });
     }
   });
 
-  app.put("/api/circulation/:id", async (req, res) => {
+  app.post("/api/circulation/return", requirePermission("circulation:manage"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      // Handle date conversion manually before validation
-      const requestData = { ...req.body };
-      if (requestData.dueDate && typeof requestData.dueDate === 'string') {
-        requestData.dueDate = new Date(requestData.dueDate);
-      }
-      if (requestData.returnDate && typeof requestData.returnDate === 'string') {
-        requestData.returnDate = new Date(requestData.returnDate);
+      const target = returnBookSchema.parse(req.body);
+      const result = await storage.returnBook(target);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid return data", details: error.errors });
       }
-      
-      const circulation = await storage.updateCirculationRecord(id, requestData);
-      if (!circulation) {
-        return res.status(404).json({ error: "Circulation record not found" });
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
       }
-      res.json(circulation);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to update circulation record" });
+      res.status(500).json({ error: "Failed to return book" });
+    }
+  });
+
+  app.post("/api/circulation/scan", requirePermission("circulation:manage"), async (req, res) => {
+    try {
+      const { code, memberId, target } = deskScanSchema.parse(req.body);
+      const result = await storage.deskScan(code, memberId, target);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid scan", details: error.errors });
+      }
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to process scan" });
+    }
+  });
+
+  app.post("/api/circulation/:id/renew", requirePermission("circulation:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const record = await storage.renewLoan(id, req.user!.id);
+      res.json(record);
+    } catch (error) {
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to renew loan" });
+    }
+  });
+
+  app.get("/api/circulation/:id/renewals", requirePermission("circulation:manage", "history:view"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const renewals = await storage.getRenewals(id);
+      res.json(renewals);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch renewals" });
+    }
+  });
+
+  // Circulation policies
+  app.get("/api/circulation-policies", requireAuth, async (req, res) => {
+    try {
+      const policies = await storage.getCirculationPolicies();
+      res.json(policies);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch circulation policies" });
+    }
+  });
+
+  app.get("/api/circulation-policies/resolve", requirePermission("circulation:manage"), async (req, res) => {
+    try {
+      const memberId = parseInt(req.query.memberId as string);
+      const bookId = parseInt(req.query.bookId as string);
+      if (!memberId || !bookId) {
+        return res.status(400).json({ error: "memberId and bookId are required" });
+      }
+      const policy = await storage.resolveCirculationPolicy(memberId, bookId);
+      if (!policy) {
+        return res.status(404).json({ error: "Member or book not found" });
+      }
+      res.json(policy);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to resolve circulation policy" });
+    }
+  });
+
+  app.post("/api/circulation-policies", requirePermission("policies:manage"), async (req, res) => {
+    try {
+      const policyData = insertCirculationPolicySchema.parse(req.body);
+      const policy = await storage.createCirculationPolicy(policyData);
+      res.status(201).json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid policy data", details: error.errors });
+      }
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "A policy for this member class and category already exists" });
+      }
+      res.status(500).json({ error: "Failed to create circulation policy" });
+    }
+  });
+
+  app.put("/api/circulation-policies/:id", requirePermission("policies:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = insertCirculationPolicySchema.partial().parse(req.body);
+      const policy = await storage.updateCirculationPolicy(id, updates);
+      if (!policy) {
+        return res.status(404).json({ error: "Circulation policy not found" });
+      }
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid policy data", details: error.errors });
+      }
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "A policy for this member class and category already exists" });
+      }
+      res.status(500).json({ error: "Failed to update circulation policy" });
+    }
+  });
+
+  app.delete("/api/circulation-policies/:id", requirePermission("policies:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteCirculationPolicy(id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Circulation policy not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete circulation policy" });
+    }
+  });
+
+  // Reservations (holds queue)
+  app.get("/api/reservations", requirePermission("circulation:manage", "history:view"), async (req, res) => {
+    try {
+      const bookId = req.query.bookId ? parseInt(req.query.bookId as string) : undefined;
+      const queue = await storage.getReservations(bookId);
+      res.json(queue);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch reservations" });
+    }
+  });
+
+  app.post("/api/reservations", requirePermission("circulation:manage"), async (req, res) => {
+    try {
+      const reservationData = insertReservationSchema.parse(req.body);
+      const reservation = await storage.createReservation(reservationData);
+      res.status(201).json(reservation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid reservation data", details: error.errors });
+      }
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to place hold" });
+    }
+  });
+
+  app.delete("/api/reservations/:id", requirePermission("circulation:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const reservation = await storage.cancelReservation(id);
+      if (!reservation) {
+        return res.status(404).json({ error: "Reservation not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to cancel reservation" });
+    }
+  });
+
+  // Exports: CSV, XLSX or printable PDF of the lists the UI shows, with the
+  // same filters. Paging parameters are ignored so the whole list is exported.
+  app.get("/api/export/books", async (req, res) => {
+    try {
+      const { format, search, page, ...query } = bookExportQuerySchema.parse(req.query);
+      const books = search
+        ? await storage.searchBooks(search)
+        : (await storage.getBooks(query)).items;
+      await sendExport(res, {
+        title: "Library Catalogue",
+        filename: "catalogue",
+        description: search ? `Search: "${search}"` : describeFilters({ q: query.q, category: query.category, language: query.language, status: query.status, ddc: query.ddc }),
+        columns: [
+          { header: "Book No.", value: (book) => book.id, width: 0.6 },
+          { header: "Title", value: (book) => book.title, width: 2.5 },
+          { header: "Author", value: (book) => book.author, width: 1.6 },
+          { header: "Category", value: (book) => book.category },
+          { header: "Language", value: (book) => book.language, width: 0.8 },
+          { header: "Publisher", value: (book) => book.publisher, width: 1.3 },
+          { header: "DDC", value: (book) => book.ddc, width: 0.7 },
+          { header: "ISBN", value: (book) => book.isbn ?? "", width: 1 },
+          { header: "Year", value: (book) => book.publicationYear ?? "", width: 0.5 },
+          { header: "Price (₹)", value: (book) => book.price, width: 0.6 },
+          { header: "Copies", value: (book) => book.totalCopies, width: 0.5 },
+          { header: "Available", value: (book) => book.availableCopies, width: 0.6 },
+        ],
+        rows: books,
+      }, format);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to export books" });
+    }
+  });
+
+  // MARC 21 records for exchange with other catalogues: the selected books
+  // (`bookIds`) or every book matching the list filters
+  app.get("/api/export/books/marc", async (req, res) => {
+    try {
+      const { format, bookIds, page, ...query } = marcExportQuerySchema.parse(req.query);
+      const books = bookIds
+        ? await storage.getBooksByIds(bookIds)
+        : (await storage.getBooks(query)).items;
+      const records = books.map(bookToMarc);
+      res.setHeader("Content-Disposition", `attachment; filename="catalogue.${format}"`);
+      if (format === "xml") {
+        res.type("application/marcxml+xml; charset=utf-8").send(writeMarcXml(records));
+      } else {
+        res.type("application/marc").send(writeIso2709(records));
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to export MARC records" });
+    }
+  });
+
+  app.get("/api/export/members", requirePermission("members:manage"), async (req, res) => {
+    try {
+      const { format, page, ...query } = memberExportQuerySchema.parse(req.query);
+      const { items: members } = await storage.getMembers(query);
+      await sendExport(res, {
+        title: "Members",
+        filename: "members",
+        description: describeFilters({ q: query.q, class: query.class, status: query.status }),
+        columns: [
+          { header: "Registration No.", value: (member) => member.registrationNo },
+          { header: "Full Name", value: (member) => member.fullName, width: 2 },
+          { header: "Class", value: (member) => member.class },
+          { header: "Status", value: (member) => (member.archivedAt ? "Archived" : "Active") },
+          { header: "Joined", value: (member) => formatDate(member.createdAt) },
+        ],
+        rows: members,
+      }, format);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to export members" });
+    }
+  });
+
+  app.get("/api/export/circulation", requirePermission("history:view"), async (req, res) => {
+    try {
+      const { format, page, ...query } = circulationExportQuerySchema.parse(req.query);
+      const { items: records } = await storage.getCirculation(query);
+      const now = new Date();
+      await sendExport(res, {
+        title: "Circulation History",
+        filename: "circulation-history",
+        description: describeFilters({
+          action: query.action,
+          status: query.status,
+          from: query.from && formatDate(query.from),
+          // `to` is exclusive; print the last day included
+          to: query.to && formatDate(new Date(query.to.getTime() - 1)),
+        }),
+        columns: [
+          { header: "Book No.", value: (record) => record.bookId, width: 0.6 },
+          { header: "Title", value: (record) => record.book.title, width: 2.2 },
+          { header: "Member", value: (record) => record.member.fullName, width: 1.6 },
+          { header: "Class", value: (record) => record.member.class, width: 0.7 },
+          { header: "Action", value: (record) => record.action, width: 0.6 },
+          { header: "Date", value: (record) => formatDate(record.date), width: 0.8 },
+          { header: "Due", value: (record) => formatDate(record.dueDate), width: 0.8 },
+          { header: "Returned", value: (record) => formatDate(record.returnDate), width: 0.8 },
+          {
+            header: "Status",
+            value: (record) =>
+              record.status === "active" && record.dueDate && record.dueDate < now ? "overdue" : record.status,
+            width: 0.7,
+          },
+        ],
+        rows: records,
+      }, format);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to export circulation history" });
+    }
+  });
+
+  app.get("/api/export/overdue", requirePermission("circulation:manage", "history:view"), async (req, res) => {
+    try {
+      const { format } = circulationExportQuerySchema.parse(req.query);
+      const { items: loans } = await storage.getCirculation(
+        circulationListQuerySchema.parse({ action: "borrow", status: "overdue", sortBy: "dueDate" }),
+      );
+      const now = Date.now();
+      await sendExport(res, {
+        title: "Overdue Books",
+        filename: "overdue",
+        columns: [
+          { header: "Book No.", value: (loan) => loan.bookId, width: 0.6 },
+          { header: "Title", value: (loan) => loan.book.title, width: 2.2 },
+          { header: "Member", value: (loan) => loan.member.fullName, width: 1.6 },
+          { header: "Class", value: (loan) => loan.member.class, width: 0.7 },
+          { header: "Registration No.", value: (loan) => loan.member.registrationNo },
+          { header: "Issued", value: (loan) => formatDate(loan.date), width: 0.8 },
+          { header: "Due", value: (loan) => formatDate(loan.dueDate), width: 0.8 },
+          {
+            header: "Days Overdue",
+            value: (loan) => Math.ceil((now - loan.dueDate!.getTime()) / (24 * 60 * 60 * 1000)),
+            width: 0.7,
+          },
+        ],
+        rows: loans,
+      }, format);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to export overdue books" });
+    }
+  });
+
+  // Printable label sheets (PDF)
+  app.get("/api/labels/books", requirePermission("catalogue:edit"), async (req, res) => {
+    try {
+      const { bookIds, symbology, layout, skip } = bookLabelQuerySchema.parse(req.query);
+      const labels = await storage.getCopiesWithBooks(bookIds);
+      if (labels.length === 0) {
+        return res.status(404).json({ error: "The selected books have no copies to label" });
+      }
+      await writeBookLabels(res, labels, symbology, layout, skip);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid label request", details: error.errors });
+      }
+      if (res.headersSent) return res.end();
+      res.status(500).json({ error: "Failed to generate book labels" });
+    }
+  });
+
+  app.get("/api/labels/members", requirePermission("members:manage"), async (req, res) => {
+    try {
+      const { memberIds, symbology } = memberCardQuerySchema.parse(req.query);
+      const members = await storage.getMembersByIds(memberIds);
+      if (members.length === 0) {
+        return res.status(404).json({ error: "Members not found" });
+      }
+      await writeMemberCards(res, members, symbology);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid card request", details: error.errors });
+      }
+      if (res.headersSent) return res.end();
+      res.status(500).json({ error: "Failed to generate member cards" });
     }
   });
 
@@ -385,7 +1256,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/analytics/most-active-readers", async (req, res) => {
     try {
       const mostActiveReaders = await storage.getMostActiveReaders();
-      res.json(mostActiveReaders);
+      res.json(canSeeMemberContacts(req)
+        ? mostActiveReaders
+        : mostActiveReaders.map((reader) => ({ ...reader, member: toPublicMember(reader.member) })));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch most active readers" });
     }
@@ -394,12 +1267,281 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/analytics/issued-books", async (req, res) => {
     try {
       const issuedBooks = await storage.getIssuedBooks();
-      res.json(issuedBooks);
+      res.json(canSeeMemberContacts(req)
+        ? issuedBooks
+        : issuedBooks.map((issued) => ({ ...issued, member: toPublicMember(issued.member) })));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch issued books" });
     }
   });
 
+  // Fines
+  app.get("/api/fines", requirePermission("circulation:manage", "history:view"), async (req, res) => {
+    try {
+      const memberId = req.query.memberId ? parseInt(req.query.memberId as string) : undefined;
+      const fineList = await storage.getFines(memberId);
+      res.json(fineList);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch fines" });
+    }
+  });
+
+  app.get("/api/fines/balances", requirePermission("circulation:manage", "history:view", "members:manage"), async (req, res) => {
+    try {
+      const balances = await storage.getMemberBalances();
+      res.json(balances);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch member balances" });
+    }
+  });
+
+  app.get("/api/fines/:id/payments", requirePermission("circulation:manage", "history:view"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const payments = await storage.getFinePayments(id);
+      res.json(payments);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch fine payments" });
+    }
+  });
+
+  app.post("/api/fines/:id/payments", requirePermission("circulation:manage", "fines:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const transaction = fineTransactionSchema.parse(req.body);
+      if (transaction.kind === "waiver" && !hasPermission(req.user!.role, "fines:manage")) {
+        return res.status(403).json({ error: "You do not have permission to waive fines" });
+      }
+      const fine = await storage.recordFineTransaction(id, transaction, req.user!.id);
+      if (!fine) {
+        return res.status(404).json({ error: "Fine not found" });
+      }
+      res.status(201).json(fine);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid payment data", details: error.errors });
+      }
+      if (error instanceof CirculationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to record payment" });
+    }
+  });
+
+  // Settings
+  app.get("/api/settings", requireAuth, async (req, res) => {
+    try {
+      const librarySettings = await storage.getSettings();
+      res.json(librarySettings);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/settings", requirePermission("fines:manage"), async (req, res) => {
+    try {
+      const updates = fineSettingsSchema.partial().parse(req.body);
+      const librarySettings = await storage.updateSettings(updates);
+      res.json(librarySettings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid settings", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update settings" });
+    }
+  });
+
+  // Reminders: the delivery log, running the reminder job on demand, the
+  // message templates and when reminders go out
+  app.get("/api/notices", requirePermission("notices:manage"), async (req, res) => {
+    try {
+      const query = noticeListQuerySchema.parse(req.query);
+      res.json(await storage.getNotices(query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch notices" });
+    }
+  });
+
+  app.get("/api/notices/channels", requirePermission("notices:manage"), (req, res) => {
+    res.json(notifiers.map((notifier) => notifier.channel));
+  });
+
+  app.post("/api/notices/run", requirePermission("notices:manage"), async (req, res) => {
+    try {
+      res.json(await sendReminders());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to send reminders" });
+    }
+  });
+
+  app.post("/api/notices/:id/resend", requirePermission("notices:manage"), async (req, res) => {
+    try {
+      const notice = await storage.getNotice(parseInt(req.params.id));
+      if (!notice) {
+        return res.status(404).json({ error: "Notice not found" });
+      }
+      const member = await storage.getMember(notice.memberId);
+      res.json(await resendNotice(notice, member!));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to resend notice" });
+    }
+  });
+
+  app.put("/api/notices/settings", requirePermission("notices:manage"), async (req, res) => {
+    try {
+      const updates = reminderSettingsSchema.partial().parse(req.body);
+      res.json(await storage.updateSettings(updates));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid settings", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update reminder settings" });
+    }
+  });
+
+  app.get("/api/notice-templates", requirePermission("notices:manage"), async (req, res) => {
+    try {
+      res.json(await storage.getNoticeTemplates());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch notice templates" });
+    }
+  });
+
+  app.put("/api/notice-templates/:kind", requirePermission("notices:manage"), async (req, res) => {
+    try {
+      const kind = z.enum(noticeKinds).parse(req.params.kind);
+      const template = noticeTemplateSchema.parse(req.body);
+      res.json(await storage.updateNoticeTemplate(kind, template));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid template", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update notice template" });
+    }
+  });
+
+  // Notification centre: each staff member sees the kinds their role can act on
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const { limit } = z.object({ limit: z.coerce.number().int().min(1).max(100).default(20) }).parse(req.query);
+      res.json(await storage.getNotifications(visibleNotificationKinds(req.user!.role), limit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post("/api/notifications/read", requireAuth, async (req, res) => {
+    try {
+      const { ids } = notificationReadSchema.parse(req.body);
+      const marked = await storage.markNotificationsRead(visibleNotificationKinds(req.user!.role), ids);
+      res.json({ marked });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid notification ids", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to mark notifications read" });
+    }
+  });
+
+  // Live updates: a server-sent event stream telling open dashboards what
+  // other staff have changed
+  app.get("/api/live", requireAuth, serveLiveUpdates);
+
+  // Staff accounts
+  app.get("/api/staff", requirePermission("staff:manage"), async (req, res) => {
+    try {
+      const users = await storage.getAdminUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch staff accounts" });
+    }
+  });
+
+  app.post("/api/staff", requirePermission("staff:manage"), async (req, res) => {
+    try {
+      const { password, ...data } = staffAccountSchema.parse(req.body);
+      if (await storage.getAdminUserByUsername(data.username)) {
+        return res.status(409).json({ error: "Username is already taken" });
+      }
+      const user = await storage.createAdminUser({
+        ...data,
+        passwordHash: await hashPassword(password),
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid staff data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create staff account" });
+    }
+  });
+
+  app.put("/api/staff/:id", requirePermission("staff:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { password, ...data } = updateStaffAccountSchema.parse(req.body);
+      const existing = await storage.getAdminUser(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Staff account not found" });
+      }
+      if (
+        existing.role === "librarian" && data.role && data.role !== "librarian" &&
+        (await storage.countAdminUsers("librarian")) <= 1
+      ) {
+        return res.status(409).json({ error: "At least one head librarian account is required" });
+      }
+      const updated = await storage.updateAdminUser(id, {
+        ...data,
+        ...(password ? { passwordHash: await hashPassword(password) } : {}),
+      });
+      res.json(toPublicUser(updated!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid staff data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update staff account" });
+    }
+  });
+
+  app.delete("/api/staff/:id", requirePermission("staff:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (id === req.user!.id) {
+        return res.status(409).json({ error: "You cannot delete your own account" });
+      }
+      const deleted = await storage.deleteAdminUser(id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Staff account not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (isForeignKeyViolation(error)) {
+        return res.status(409).json({ error: "Staff account is still referenced by other records and cannot be deleted" });
+      }
+      res.status(500).json({ error: "Failed to delete staff account" });
+    }
+  });
+
+  // Audit log
+  app.get("/api/audit", requirePermission("audit:view"), async (req, res) => {
+    try {
+      const query = auditListQuerySchema.parse(req.query);
+      const entries = await storage.getAuditLog(query);
+      res.json(query.page ? entries : entries.items);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid query", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
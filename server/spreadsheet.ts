@@ -0,0 +1,114 @@
+import { AsyncResource } from "async_hooks";
+import type { RequestHandler } from "express";
+import multer from "multer";
+import ExcelJS from "exceljs";
+import { parse as parseCsv } from "csv-parse/sync";
+
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES },
+}).single("file");
+
+// Accepts a single CSV or XLSX upload in the `file` field, kept in memory
+// because it is parsed once and discarded. Upload failures such as an
+// oversized file are answered with a 400. The callback is bound to the
+// request's async context, which multer's stream events would otherwise drop
+// (the audit log reads the signed-in user from it).
+export const spreadsheetUpload: RequestHandler = (req, res, next) => {
+  upload(req, res, AsyncResource.bind((error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return res.status(400).json({ error: error.code === "LIMIT_FILE_SIZE" ? "The file is larger than 5 MB" : error.message });
+    }
+    next(error);
+  }));
+};
+
+// A problem with the file as a whole (unreadable, empty, missing columns),
+// as opposed to a problem with one of its rows
+export class SpreadsheetError extends Error {}
+
+export interface SpreadsheetRow<F extends string> {
+  rowNumber: number; // as shown in the spreadsheet, the header being row 1
+  values: Partial<Record<F, string>>;
+}
+
+// Lower-cases a header and collapses punctuation, so "Book Title", "book_title"
+// and "BOOK-TITLE " all compare equal
+function normalizeHeader(header: string) {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Cell text as shown in Excel; dates are written as YYYY-MM-DD
+function excelCellText(cell: ExcelJS.Cell) {
+  return cell.value instanceof Date ? cell.value.toISOString().slice(0, 10) : cell.text;
+}
+
+// The first sheet of a workbook as rows of cell text, keeping blank rows so
+// row numbers match the spreadsheet
+async function readXlsxGrid(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+  const grid: string[][] = [];
+  for (let rowNumber = 1; rowNumber <= sheet.rowCount; rowNumber++) {
+    const row = sheet.getRow(rowNumber);
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(excelCellText(row.getCell(column)));
+    }
+    grid.push(cells);
+  }
+  return grid;
+}
+
+// Reads the first sheet of a CSV or XLSX file. Each field is matched to the
+// first column whose header equals one of its aliases; unknown columns are
+// ignored and blank rows skipped. Throws SpreadsheetError when a required
+// field has no column.
+export async function readSpreadsheet<F extends string>(
+  file: Express.Multer.File,
+  aliases: Record<F, string[]>,
+  required: F[]
+): Promise<SpreadsheetRow<F>[]> {
+  let grid: string[][];
+  try {
+    // CSV is decoded as UTF-8 so Malayalam and Arabic text survives
+    grid = /\.csv$/i.test(file.originalname) || file.mimetype === "text/csv"
+      ? parseCsv(file.buffer.toString("utf8"), { bom: true, relax_column_count: true, relax_quotes: true })
+      : await readXlsxGrid(file.buffer);
+  } catch {
+    throw new SpreadsheetError("The file could not be read as CSV or Excel (.xlsx)");
+  }
+
+  if (grid.length < 2) {
+    throw new SpreadsheetError("The file has no data rows");
+  }
+
+  const headers = grid[0].map((header) => normalizeHeader(String(header)));
+  const columns = new Map<F, number>();
+  for (const field of Object.keys(aliases) as F[]) {
+    const index = headers.findIndex((header) => aliases[field].includes(header));
+    if (index >= 0) columns.set(field, index);
+  }
+
+  const missing = required.filter((field) => !columns.has(field));
+  if (missing.length > 0) {
+    throw new SpreadsheetError(`Missing column(s): ${missing.join(", ")}`);
+  }
+
+  const rows: SpreadsheetRow<F>[] = [];
+  grid.slice(1).forEach((cells, index) => {
+    const values: Partial<Record<F, string>> = {};
+    columns.forEach((column, field) => {
+      const value = String(cells[column] ?? "").trim();
+      if (value) values[field] = value;
+    });
+    if (Object.keys(values).length > 0) {
+      rows.push({ rowNumber: index + 2, values });
+    }
+  });
+  return rows;
+}
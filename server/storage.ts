@@ -1,35 +1,179 @@
 import { 
-  Book, InsertBook, Member, InsertMember, Category, InsertCategory,
+  Book, CreateBook, BookCopy, InsertBookCopy, BookWithAvailability, BookSearchResult, IssuedBook,
+  BookImportRow, BookImportPreview, BookImportResult,
+  MemberImportRow, MemberImportPreview, MemberImportResult, MemberImportOptions,
+  Member, InsertMember, Category, InsertCategory, CategoryWithBookCount, DdcTree, IsbnLookup,
   BookSuggestion, InsertBookSuggestion, BookReview, InsertBookReview,
-  Circulation, InsertCirculation,
-  books, members, categories, bookSuggestions, bookReviews, circulation
+  Circulation, CirculationResult, CirculationWithDetails, CirculationRenewal,
+  DeskScan, DeskScanResult, DeskMemberStatus,
+  CirculationPolicy, InsertCirculationPolicy, ResolvedCirculationPolicy,
+  Reservation, InsertReservation, ReservationWithDetails,
+  Fine, FinePayment, FineTransaction, FineWithDetails, MemberBalance, LibrarySettings,
+  Notice, NoticeKind, NoticeStatus, NoticeTemplate, NoticeTemplateInput, NoticeWithDetails, NoticeListQuery, DueNotice,
+  Notification, InsertNotification, NotificationKind, NotificationFeed, LiveEntityType,
+  AdminUser, InsertAdminUser, AuditEntry, AuditEntityType, Trash,
+  Paginated, BookListQuery, MemberListQuery, CirculationListQuery, AuditListQuery,
+  books, bibliographicRecords, bookCopies, members, categories, bookSuggestions, bookReviews,
+  circulation, circulationRenewals, circulationPolicies, reservations,
+  fines, finePayments, settings, adminUsers, auditLog, noticeTemplates, notices, notifications,
+  defaultLibrarySettings, defaultCirculationPolicy, defaultNoticeTemplates, noticeKinds, SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END,
+  bookListQuerySchema, memberListQuerySchema, circulationListQuerySchema, auditListQuerySchema, noticeListQuerySchema
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, like, or, lt } from "drizzle-orm";
+import { db, pool } from "./db";
+import { currentAuditActor, diffForAudit } from "./audit";
+import { publishChanges } from "./live-updates";
+import { DDC_CLASSES } from "@shared/ddc";
+import { normalizeIsbn, isbn13To10 } from "@shared/isbn";
+import { eq, and, like, ilike, or, not, lt, lte, gte, inArray, notInArray, isNull, isNotNull, count, asc, desc, sql, getTableColumns, type SQL } from "drizzle-orm";
+import type { PgColumn, PgSelect } from "drizzle-orm/pg-core";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+
+const PostgresSessionStore = connectPg(session);
+
+// How long a returned copy is held for the next member in the queue
+export const HOLD_PICKUP_DAYS = 3;
+
+// How far back the hourly overdue notification job looks for lapsed loans
+const OVERDUE_NOTIFICATION_WINDOW_MS = 25 * 60 * 60 * 1000;
+
+const ACTIVE_RESERVATION_STATUSES = ["waiting", "ready"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEARCH_RESULT_LIMIT = 50;
+// Minimum word_similarity for a misspelt query to still match a title
+const SEARCH_FUZZY_THRESHOLD = 0.4;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Book columns plus copy counts, so list views can show "2 of 3 available".
+const bookWithAvailabilityColumns = {
+  ...getTableColumns(books),
+  totalCopies: sql<number>`(select count(*) from ${bookCopies} where ${bookCopies.bookId} = ${books.id})`.mapWith(Number),
+  availableCopies: sql<number>`(select count(*) from ${bookCopies} where ${bookCopies.bookId} = ${books.id} and ${bookCopies.status} = 'available')`.mapWith(Number),
+};
+
+// Limits a list query to the requested page; without a page every row is returned
+function withPage<T extends PgSelect>(query: T, { page, pageSize }: { page?: number; pageSize: number }) {
+  return page ? query.limit(pageSize).offset((page - 1) * pageSize) : query;
+}
+
+async function toPage<T>(items: T[], query: { page?: number; pageSize: number }, countTotal: () => Promise<number>): Promise<Paginated<T>> {
+  if (!query.page) {
+    return { items, total: items.length, page: 1, pageSize: items.length };
+  }
+  return { items, total: await countTotal(), page: query.page, pageSize: query.pageSize };
+}
+
+function sortBy(column: PgColumn | SQL, direction: "asc" | "desc") {
+  return direction === "desc" ? desc(column) : asc(column);
+}
+
+// Whether anything still refers to the record. Archived records with history
+// can be restored but not purged, so loans, reviews and fines keep resolving.
+const bookHasHistory = sql<boolean>`(
+  exists (select 1 from ${circulation} where ${circulation.bookId} = ${books.id})
+  or exists (select 1 from ${bookReviews} where ${bookReviews.bookId} = ${books.id})
+  or exists (select 1 from ${reservations} where ${reservations.bookId} = ${books.id})
+  or exists (select 1 from ${fines} where ${fines.bookId} = ${books.id})
+)`;
+const memberHasHistory = sql<boolean>`(
+  exists (select 1 from ${circulation} where ${circulation.memberId} = ${members.id})
+  or exists (select 1 from ${bookReviews} where ${bookReviews.memberId} = ${members.id})
+  or exists (select 1 from ${bookSuggestions} where ${bookSuggestions.memberId} = ${members.id})
+  or exists (select 1 from ${reservations} where ${reservations.memberId} = ${members.id})
+  or exists (select 1 from ${fines} where ${fines.memberId} = ${members.id})
+)`;
+const categoryHasHistory = sql<boolean>`exists (select 1 from ${books} where ${books.categoryId} = ${categories.id})`;
+
+// Ids of the categories matching `root` and of every category nested under
+// them, as a subquery
+function categorySubtree(root: SQL) {
+  return sql`(
+    with recursive subtree (id) as (
+      select ${categories.id} from ${categories} where ${root}
+      union all
+      select child.id from ${categories} child join subtree on child.parent_id = subtree.id
+    )
+    select id from subtree
+  )`;
+}
+
+function assertPurgeable(record: { archivedAt: Date | null; hasHistory: boolean }, label: string) {
+  if (!record.archivedAt) {
+    throw new CirculationError(`${label} must be moved to the Trash before it can be deleted permanently`);
+  }
+  if (record.hasHistory) {
+    throw new CirculationError(`${label} has history and can only be restored`);
+  }
+}
+
+// A LIKE pattern matching `text` anywhere, with % and _ typed by the user
+// taken literally
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+type NoticeAttempt = { status: NoticeStatus; error?: string | null; recipient?: string | null };
+
+// Raised when a circulation request breaks a lending rule (e.g. the book is
+// already issued). Routes translate it into a 4xx response.
+export class CirculationError extends Error {
+  constructor(message: string, public status = 409) {
+    super(message);
+    this.name = "CirculationError";
+  }
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // Books
-  getBooks(): Promise<Book[]>;
+  getBooks(query?: BookListQuery): Promise<Paginated<BookWithAvailability>>;
   getBook(id: number): Promise<Book | undefined>;
-  createBook(book: InsertBook): Promise<Book>;
+  getBooksByIds(ids: number[]): Promise<Book[]>;
+  createBook(book: CreateBook): Promise<Book>;
   updateBook(id: number, updates: Partial<Book>): Promise<Book | undefined>;
-  deleteBook(id: number): Promise<boolean>;
-  searchBooks(query: string): Promise<Book[]>;
+  setBookArchived(id: number, archived: boolean): Promise<Book | undefined>;
+  purgeBook(id: number): Promise<boolean>;
+  searchBooks(query: string): Promise<BookSearchResult[]>;
+  getDdcTree(): Promise<DdcTree>;
+  lookupIsbn(isbn: string): Promise<IsbnLookup>;
+  previewBookImport(rows: BookImportRow[]): Promise<BookImportPreview>;
+  importBooks(preview: BookImportPreview, skipDuplicates: boolean): Promise<BookImportResult>;
+
+  // Book copies
+  getBookCopies(bookId: number): Promise<BookCopy[]>;
+  getBookCopy(id: number): Promise<BookCopy | undefined>;
+  createBookCopy(bookId: number, copy: InsertBookCopy): Promise<BookCopy>;
+  updateBookCopy(id: number, updates: Partial<InsertBookCopy>): Promise<BookCopy | undefined>;
+  deleteBookCopy(id: number): Promise<boolean>;
+  getCopiesWithBooks(bookIds: number[]): Promise<{ copy: BookCopy; book: Book }[]>;
   
   // Members
-  getMembers(): Promise<Member[]>;
+  getMembers(query?: MemberListQuery): Promise<Paginated<Member>>;
   getMember(id: number): Promise<Member | undefined>;
+  getMembersByIds(ids: number[]): Promise<Member[]>;
   createMember(member: InsertMember): Promise<Member>;
   updateMember(id: number, updates: Partial<Member>): Promise<Member | undefined>;
-  deleteMember(id: number): Promise<boolean>;
+  purgeMember(id: number): Promise<boolean>;
   searchMembers(query: string): Promise<Member[]>;
+  getMemberClasses(): Promise<string[]>;
+  setMemberArchived(id: number, archived: boolean): Promise<Member | undefined>;
+  promoteClass(fromClass: string, toClass: string): Promise<number>;
+  previewMemberImport(rows: MemberImportRow[], archiveMissing: MemberImportOptions["archiveMissing"]): Promise<MemberImportPreview>;
+  importMembers(preview: MemberImportPreview, updateConflicts: boolean): Promise<MemberImportResult>;
   
   // Categories
-  getCategories(): Promise<Category[]>;
+  getCategories(): Promise<CategoryWithBookCount[]>;
   getCategory(id: number): Promise<Category | undefined>;
   createCategory(category: InsertCategory): Promise<Category>;
   updateCategory(id: number, updates: Partial<Category>): Promise<Category | undefined>;
-  deleteCategory(id: number): Promise<boolean>;
+  setCategoryArchived(id: number, archived: boolean, replacementId?: number): Promise<Category | undefined>;
+  purgeCategory(id: number): Promise<boolean>;
+
+  // Trash
+  getTrash(): Promise<Trash>;
   
   // Book Suggestions
   getBookSuggestions(): Promise<BookSuggestion[]>;
@@ -45,29 +189,118 @@ export interface IStorage {
   getBookReviewsByBook(bookId: number): Promise<BookReview[]>;
   
   // Circulation
-  getCirculation(): Promise<Circulation[]>;
+  getCirculation(query?: CirculationListQuery): Promise<Paginated<CirculationWithDetails>>;
   getCirculationRecord(id: number): Promise<Circulation | undefined>;
-  createCirculationRecord(circulation: InsertCirculation): Promise<Circulation>;
-  updateCirculationRecord(id: number, updates: Partial<Circulation>): Promise<Circulation | undefined>;
   getActiveCirculation(): Promise<Circulation[]>;
   getOverdueCirculation(): Promise<Circulation[]>;
+  issueBook(bookId: number, memberId: number, copyId?: number): Promise<CirculationResult>;
+  returnBook(target: { copyId?: number; bookId?: number }): Promise<CirculationResult>;
+  deskScan(code: string, memberId?: number, target?: DeskScan["target"]): Promise<DeskScanResult>;
+  renewLoan(circulationId: number, renewedBy?: number): Promise<Circulation>;
+  getRenewals(circulationId: number): Promise<CirculationRenewal[]>;
+
+  // Circulation policies
+  getCirculationPolicies(): Promise<CirculationPolicy[]>;
+  createCirculationPolicy(policy: InsertCirculationPolicy): Promise<CirculationPolicy>;
+  updateCirculationPolicy(id: number, updates: Partial<InsertCirculationPolicy>): Promise<CirculationPolicy | undefined>;
+  deleteCirculationPolicy(id: number): Promise<boolean>;
+  resolveCirculationPolicy(memberId: number, bookId: number): Promise<ResolvedCirculationPolicy | undefined>;
+
+  // Reservations
+  getReservations(bookId?: number): Promise<ReservationWithDetails[]>;
+  createReservation(reservation: InsertReservation): Promise<Reservation>;
+  cancelReservation(id: number): Promise<Reservation | undefined>;
+  expireReservations(): Promise<number>;
+
+  // Fines
+  getFines(memberId?: number): Promise<FineWithDetails[]>;
+  getFinePayments(fineId: number): Promise<FinePayment[]>;
+  getMemberBalances(): Promise<MemberBalance[]>;
+  recordFineTransaction(fineId: number, transaction: FineTransaction, recordedBy?: number): Promise<Fine | undefined>;
+
+  // Settings
+  getSettings(): Promise<LibrarySettings>;
+  updateSettings(updates: Partial<LibrarySettings>): Promise<LibrarySettings>;
+
+  // Notices
+  getNoticeTemplates(): Promise<NoticeTemplate[]>;
+  updateNoticeTemplate(kind: NoticeKind, template: NoticeTemplateInput): Promise<NoticeTemplate>;
+  getDueNotices(settings: Pick<LibrarySettings, "dueReminderDays" | "overdueNoticeIntervalDays">): Promise<DueNotice[]>;
+  getNotices(query?: NoticeListQuery): Promise<Paginated<NoticeWithDetails>>;
+  getNotice(id: number): Promise<Notice | undefined>;
+  getRetryableNotices(maxAttempts: number): Promise<Notice[]>;
+  createNotice(notice: typeof notices.$inferInsert): Promise<Notice | undefined>;
+  recordNoticeAttempt(id: number, outcome: NoticeAttempt): Promise<Notice | undefined>;
+
+  // Notifications
+  getNotifications(kinds: NotificationKind[], limit: number): Promise<NotificationFeed>;
+  markNotificationsRead(kinds: NotificationKind[], ids?: number[]): Promise<number>;
+  createNotification(notification: InsertNotification): Promise<Notification | undefined>;
+  notifyOverdueLoans(): Promise<number>;
   
   // Analytics
   getMostReadBooks(): Promise<{ book: Book; borrowCount: number }[]>;
   getMostActiveReaders(): Promise<{ member: Member; borrowCount: number }[]>;
-  getIssuedBooks(): Promise<{ book: Book; member: Member; dueDate: Date | null }>[];
+  getIssuedBooks(): Promise<IssuedBook[]>;
 
   // Member-specific data
   getIssuedBooksForMember(memberId: number): Promise<Circulation[]>;
   getReturnedBooksForMember(memberId: number): Promise<Circulation[]>;
   getBookSuggestionsForMember(memberId: number): Promise<BookSuggestion[]>;
   getBookReviewsForMember(memberId: number): Promise<BookReview[]>;
+
+  // Admin users
+  getAdminUsers(): Promise<AdminUser[]>;
+  getAdminUser(id: number): Promise<AdminUser | undefined>;
+  getAdminUserByUsername(username: string): Promise<AdminUser | undefined>;
+  createAdminUser(user: InsertAdminUser): Promise<AdminUser>;
+  updateAdminUser(id: number, updates: Partial<AdminUser>): Promise<AdminUser | undefined>;
+  deleteAdminUser(id: number): Promise<boolean>;
+  countAdminUsers(role?: string): Promise<number>;
+
+  // Audit log
+  getAuditLog(query?: AuditListQuery): Promise<Paginated<AuditEntry>>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+  // What each open transaction has changed, published once it commits
+  private pendingChanges = new WeakMap<Transaction, Set<LiveEntityType>>();
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
   // Books
-  async getBooks(): Promise<Book[]> {
-    return await db.select().from(books);
+  async getBooks(query: BookListQuery = bookListQuerySchema.parse({})): Promise<Paginated<BookWithAvailability>> {
+    const pattern = query.q ? containsPattern(query.q) : undefined;
+    const where = and(
+      pattern ? or(
+        ilike(books.title, pattern),
+        ilike(books.author, pattern),
+        ilike(books.category, pattern),
+        ilike(books.publisher, pattern),
+      ) : undefined,
+      query.status ? eq(books.status, query.status) : undefined,
+      query.category ? inArray(books.categoryId, categorySubtree(eq(categories.name, query.category))) : undefined,
+      query.ddc ? like(books.ddc, `${query.ddc}%`) : undefined,
+      query.language ? eq(books.language, query.language) : undefined,
+      isNull(books.archivedAt),
+    );
+
+    const items = await withPage(
+      db
+        .select(bookWithAvailabilityColumns)
+        .from(books)
+        .where(where)
+        .orderBy(sortBy(books[query.sortBy], query.sortDir), asc(books.id))
+        .$dynamic(),
+      query,
+    );
+    return await toPage(items, query, async () => {
+      const [{ total }] = await db.select({ total: count() }).from(books).where(where);
+      return total;
+    });
   }
 
   async getBook(id: number): Promise<Book | undefined> {
@@ -75,49 +308,516 @@ export class DatabaseStorage implements IStorage {
     return book || undefined;
   }
 
-  async createBook(book: InsertBook): Promise<Book> {
-    const [newBook] = await db
+  async getBooksByIds(ids: number[]): Promise<Book[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(books).where(inArray(books.id, ids)).orderBy(asc(books.id));
+  }
+
+  async createBook(book: CreateBook): Promise<Book> {
+    return await this.transaction((tx) => this.insertBook(tx, book));
+  }
+
+  private async insertBook(tx: Transaction, { copies, shelfLocation, ...book }: CreateBook): Promise<Book> {
+    const category = await this.categoryForBook(tx, book.categoryId);
+    const [newBook] = await tx
       .insert(books)
       .values({
         ...book,
+        category: category.name,
         status: "available",
         createdAt: new Date(),
       })
       .returning();
+
+    for (let i = 0; i < (copies ?? 1); i++) {
+      await this.insertCopy(tx, newBook.id, { shelfLocation, acquisitionDate: new Date() });
+    }
+    await this.audit(tx, "create", "book", newBook.id, null, { ...newBook, copies: copies ?? 1 });
     return newBook;
   }
 
   async updateBook(id: number, updates: Partial<Book>): Promise<Book | undefined> {
-    const [updatedBook] = await db
-      .update(books)
-      .set(updates)
-      .where(eq(books.id, id))
-      .returning();
-    return updatedBook || undefined;
+    return await this.transaction(async (tx) => {
+      const [book] = await tx.select().from(books).where(eq(books.id, id)).for("update");
+      if (!book) return undefined;
+      // The category name always follows the id, so it cannot be set on its own
+      const { category: _category, ...changes } = updates;
+      const newCategory = changes.categoryId != null && changes.categoryId !== book.categoryId
+        ? await this.categoryForBook(tx, changes.categoryId)
+        : undefined;
+      const [updatedBook] = await tx
+        .update(books)
+        .set(newCategory
+          ? { ...changes, category: newCategory.name }
+          : { ...changes, categoryId: book.categoryId })
+        .where(eq(books.id, id))
+        .returning();
+      await this.audit(tx, "update", "book", id, book, updatedBook);
+      return updatedBook;
+    });
   }
 
-  async deleteBook(id: number): Promise<boolean> {
-    const result = await db.delete(books).where(eq(books.id, id));
-    return (result.rowCount ?? 0) > 0;
+  // Books can only be filed under a category that is not in the Trash
+  private async categoryForBook(tx: Transaction, categoryId: number): Promise<Category> {
+    const [category] = await tx
+      .select()
+      .from(categories)
+      .where(and(eq(categories.id, categoryId), isNull(categories.archivedAt)));
+    if (!category) {
+      throw new CirculationError("Choose an existing category", 400);
+    }
+    return category;
   }
 
-  async searchBooks(query: string): Promise<Book[]> {
-    const lowerQuery = `%${query.toLowerCase()}%`;
-    return await db
-      .select()
+  // Deleting a book archives it: it leaves the catalogue but loans and
+  // reviews of it still resolve. Books on loan or on hold cannot be archived.
+  async setBookArchived(id: number, archived: boolean): Promise<Book | undefined> {
+    return await this.transaction(async (tx) => {
+      const [book] = await tx.select().from(books).where(eq(books.id, id)).for("update");
+      if (!book) return undefined;
+      if (archived) {
+        const [issued] = await tx
+          .select({ id: bookCopies.id })
+          .from(bookCopies)
+          .where(and(eq(bookCopies.bookId, id), eq(bookCopies.status, "issued")))
+          .limit(1);
+        if (issued) {
+          throw new CirculationError("Book has copies on loan; return them before deleting it");
+        }
+        const [hold] = await tx
+          .select({ id: reservations.id })
+          .from(reservations)
+          .where(and(eq(reservations.bookId, id), inArray(reservations.status, ACTIVE_RESERVATION_STATUSES)))
+          .limit(1);
+        if (hold) {
+          throw new CirculationError("Book has active holds; cancel them before deleting it");
+        }
+      }
+
+      const [updatedBook] = await tx
+        .update(books)
+        .set({ archivedAt: archived ? new Date() : null })
+        .where(eq(books.id, id))
+        .returning();
+      await this.audit(tx, archived ? "archive" : "restore", "book", id, book, updatedBook);
+      return updatedBook;
+    });
+  }
+
+  async purgeBook(id: number): Promise<boolean> {
+    return await this.transaction(async (tx) => {
+      const [book] = await tx
+        .select({ ...getTableColumns(books), hasHistory: bookHasHistory })
+        .from(books)
+        .where(eq(books.id, id))
+        .for("update");
+      if (!book) return false;
+      assertPurgeable(book, "Book");
+
+      await tx.delete(bookCopies).where(eq(bookCopies.bookId, id));
+      const [deleted] = await tx.delete(books).where(eq(books.id, id)).returning();
+      await this.audit(tx, "purge", "book", id, deleted, null);
+      return true;
+    });
+  }
+
+  // Counts catalogued books by DDC division for the public browse tree.
+  // Books are counted by the first digits of their DDC number, which
+  // createBookSchema normalises to three-digit class numbers.
+  async getDdcTree(): Promise<DdcTree> {
+    const division = sql<string | null>`substring(${books.ddc} from '^([0-9]{2})[0-9]')`;
+    const rows = await db
+      .select({ division, count: count() })
       .from(books)
-      .where(
+      .where(isNull(books.archivedAt))
+      .groupBy(division);
+    const counts = new Map(rows.map((row) => [row.division, row.count]));
+
+    const classes = DDC_CLASSES.map(({ code, name, divisions }) => {
+      const divisionNodes = divisions.map((divisionName, index) => ({
+        code: `${code[0]}${index}0`,
+        name: divisionName,
+        count: counts.get(`${code[0]}${index}`) ?? 0,
+      }));
+      const total = divisionNodes.reduce((sum, node) => sum + node.count, 0);
+      return { code, name, count: total, divisions: divisionNodes };
+    });
+    return { classes, unclassified: counts.get(null) ?? 0 };
+  }
+
+  // "Fill from ISBN" for the book form. Only the local bibliographic table
+  // is consulted, never a remote service. `isbn` must be a valid ISBN-13.
+  async lookupIsbn(isbn: string): Promise<IsbnLookup> {
+    const [[record], existingBooks] = await Promise.all([
+      db.select().from(bibliographicRecords).where(eq(bibliographicRecords.isbn, isbn)),
+      db.select({ id: books.id, title: books.title }).from(books).where(eq(books.isbn, isbn)),
+    ]);
+    return { isbn, isbn10: isbn13To10(isbn), record: record || null, existingBooks };
+  }
+
+  // Ranked catalogue search. A title matches on whole or partial words
+  // (full-text, prefix per word), on a substring, on a close misspelling
+  // (trigram similarity), on its book number, ISBN or a copy's accession number,
+  // or when it is on loan to a member whose name matches. The search
+  // functions and indexes are created in data-migrations.ts.
+  async searchBooks(query: string): Promise<BookSearchResult[]> {
+    const text = query.trim();
+    if (!text) return [];
+    const words = text
+      .split(/\s+/)
+      .map((word) => word.replace(/['\\]/g, ""))
+      .filter(Boolean);
+    const pattern = containsPattern(text);
+    const isbn = normalizeIsbn(text);
+
+    const document = sql`book_search_document(${books.title}, ${books.author}, ${books.publisher}, ${books.ddc}, ${books.category}, ${books.language})`;
+    const needle = sql`library_search_normalize(${text})`;
+    // Each word is quoted so operators typed by the user stay plain text
+    const tsQuery = words.length > 0
+      ? sql`to_tsquery('simple', library_search_normalize(${words.map((word) => `'${word}':*`).join(" & ")}))`
+      : sql`''::tsquery`;
+    const exactRecord = or(
+      /^\d+$/.test(text) ? eq(books.id, Number(text)) : sql`false`,
+      isbn ? eq(books.isbn, isbn) : sql`false`,
+      sql`exists (select 1 from ${bookCopies} where ${bookCopies.bookId} = ${books.id} and lower(${bookCopies.accessionNo}) = lower(${text}))`
+    )!;
+    const borrowerMatches = sql`exists (
+      select 1 from ${circulation} join ${members} on ${members.id} = ${circulation.memberId}
+      where ${circulation.bookId} = ${books.id} and ${circulation.action} = 'borrow' and ${circulation.status} = 'active'
+        and ${members.fullName} ilike ${pattern}
+    )`;
+
+    const headlineOptions = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, HighlightAll=true`;
+    const headline = (column: PgColumn) => sql<string>`ts_headline('simple', ${column}, ${tsQuery}, ${headlineOptions})`;
+    const rank = sql<number>`(
+      ts_rank(to_tsvector('simple', ${document}), ${tsQuery})
+      + word_similarity(${needle}, ${document})
+      + case when ${exactRecord} then 1 else 0 end
+    )`.mapWith(Number);
+
+    const rows = await db
+      .select({
+        ...bookWithAvailabilityColumns,
+        rank,
+        highlightTitle: headline(books.title),
+        highlightAuthor: headline(books.author),
+        highlightPublisher: headline(books.publisher),
+        highlightDdc: headline(books.ddc),
+        highlightCategory: headline(books.category),
+      })
+      .from(books)
+      .where(and(
+        isNull(books.archivedAt),
         or(
-          like(books.title, lowerQuery),
-          like(books.author, lowerQuery),
-          like(books.category, lowerQuery)
+          sql`to_tsvector('simple', ${document}) @@ ${tsQuery}`,
+          sql`${document} like library_search_normalize(${pattern})`,
+          sql`word_similarity(${needle}, ${document}) >= ${SEARCH_FUZZY_THRESHOLD}`,
+          exactRecord,
+          borrowerMatches
         )
+      ))
+      .orderBy(desc(rank), asc(books.title))
+      .limit(SEARCH_RESULT_LIMIT);
+
+    return rows.map(({ highlightTitle, highlightAuthor, highlightPublisher, highlightDdc, highlightCategory, ...book }) => ({
+      ...book,
+      highlights: {
+        title: highlightTitle,
+        author: highlightAuthor,
+        publisher: highlightPublisher,
+        ddc: highlightDdc,
+        category: highlightCategory,
+      },
+    }));
+  }
+
+  // Catalogue import. Valid rows get their category spelt as the existing
+  // category (matched case-insensitively) and are flagged as duplicates when
+  // a title by the same author, or a book with the same ISBN, is already
+  // catalogued or appears earlier in the file.
+  async previewBookImport(rows: BookImportRow[]): Promise<BookImportPreview> {
+    const categoryNames = new Map<string, string>();
+    const archivedCategories = new Set<string>();
+    for (const category of await db.select().from(categories)) {
+      categoryNames.set(category.name.toLowerCase(), category.name);
+      if (category.archivedAt) archivedCategories.add(category.name.toLowerCase());
+    }
+    const newCategories: string[] = [];
+
+    const bookKey = (title: string, author: string) => `${title.toLowerCase()}|${author.toLowerCase()}`;
+    const isbnKey = (isbn: string) => `isbn:${isbn}`;
+    const bookKeys = (book: { title: string; author: string; isbn: string | null }) =>
+      book.isbn ? [isbnKey(book.isbn), bookKey(book.title, book.author)] : [bookKey(book.title, book.author)];
+    const keys = rows.flatMap(({ book }) => (book ? [bookKey(book.title, book.author)] : []));
+    const isbns = rows.flatMap(({ book }) => (book?.isbn ? [book.isbn] : []));
+    const existing = new Map<string, { id: number; title: string }>();
+    if (keys.length > 0) {
+      const matches = await db
+        .select({ id: books.id, title: books.title, author: books.author, isbn: books.isbn })
+        .from(books)
+        .where(or(
+          inArray(sql`lower(${books.title}) || '|' || lower(${books.author})`, keys),
+          inArray(books.isbn, isbns),
+        ));
+      for (const match of matches) {
+        for (const key of bookKeys(match)) {
+          existing.set(key, { id: match.id, title: match.title });
+        }
+      }
+    }
+    const seenInFile = new Map<string, number>();
+
+    const previewRows = rows.map((row): BookImportRow => {
+      if (!row.book) return row;
+
+      const categoryKey = row.book.category.toLowerCase();
+      if (archivedCategories.has(categoryKey)) {
+        return {
+          ...row,
+          book: null,
+          errors: [`Category "${categoryNames.get(categoryKey)}" is in the Trash; restore it or use another category`],
+        };
+      }
+      if (!categoryNames.has(categoryKey)) {
+        categoryNames.set(categoryKey, row.book.category);
+        newCategories.push(row.book.category);
+      }
+      const book = { ...row.book, category: categoryNames.get(categoryKey)! };
+
+      const keysOfBook = bookKeys(book);
+      const existingBook = keysOfBook.map((key) => existing.get(key)).find(Boolean);
+      const earlierRow = keysOfBook.map((key) => seenInFile.get(key)).find((rowNumber) => rowNumber !== undefined);
+      for (const key of keysOfBook) {
+        if (!seenInFile.has(key)) seenInFile.set(key, row.rowNumber);
+      }
+
+      const duplicateOf = existingBook
+        ? { bookId: existingBook.id, rowNumber: null, title: existingBook.title }
+        : earlierRow !== undefined
+          ? { bookId: null, rowNumber: earlierRow, title: book.title }
+          : null;
+      return { ...row, book, duplicateOf };
+    });
+
+    return { rows: previewRows, newCategories };
+  }
+
+  // Saves a previewed import in one transaction, so either every row is
+  // catalogued or none is. The preview must have no rows with errors.
+  async importBooks(preview: BookImportPreview, skipDuplicates: boolean): Promise<BookImportResult> {
+    const rows = preview.rows.filter((row) => !(skipDuplicates && row.duplicateOf));
+
+    return await this.transaction(async (tx) => {
+      const usedCategories = new Set(rows.map((row) => row.book!.category));
+      const newCategories = preview.newCategories.filter((name) => usedCategories.has(name));
+      const createdCategories = newCategories.length > 0
+        ? await tx
+            .insert(categories)
+            .values(newCategories.map((name) => ({ name, createdAt: new Date() })))
+            .onConflictDoNothing()
+            .returning()
+        : [];
+      for (const category of createdCategories) {
+        await this.audit(tx, "create", "category", category.id, null, category);
+      }
+
+      const categoryIds = new Map<string, number>();
+      const usedCategoryRows = await tx
+        .select()
+        .from(categories)
+        .where(inArray(categories.name, Array.from(usedCategories)));
+      for (const category of usedCategoryRows) {
+        categoryIds.set(category.name, category.id);
+      }
+      for (const row of rows) {
+        const { category, ...book } = row.book!;
+        await this.insertBook(tx, { ...book, categoryId: categoryIds.get(category)! });
+      }
+      return {
+        imported: rows.length,
+        skipped: preview.rows.length - rows.length,
+        categoriesCreated: createdCategories.length,
+      };
+    });
+  }
+
+  // Book copies
+  async getBookCopies(bookId: number): Promise<BookCopy[]> {
+    return await db
+      .select()
+      .from(bookCopies)
+      .where(eq(bookCopies.bookId, bookId))
+      .orderBy(asc(bookCopies.accessionNo));
+  }
+
+  async getBookCopy(id: number): Promise<BookCopy | undefined> {
+    const [copy] = await db.select().from(bookCopies).where(eq(bookCopies.id, id));
+    return copy || undefined;
+  }
+
+  async createBookCopy(bookId: number, copy: InsertBookCopy): Promise<BookCopy> {
+    return await this.transaction(async (tx) => {
+      const newCopy = await this.releaseCopy(tx, await this.insertCopy(tx, bookId, copy));
+      await this.refreshBookStatus(tx, bookId);
+      await this.audit(tx, "create", "copy", newCopy.id, null, newCopy);
+      return newCopy;
+    });
+  }
+
+  async updateBookCopy(id: number, updates: Partial<InsertBookCopy>): Promise<BookCopy | undefined> {
+    return await this.transaction(async (tx) => {
+      const [copy] = await tx.select().from(bookCopies).where(eq(bookCopies.id, id)).for("update");
+      if (!copy) return undefined;
+      const [updatedCopy] = await tx
+        .update(bookCopies)
+        .set(updates)
+        .where(eq(bookCopies.id, id))
+        .returning();
+      await this.audit(tx, "update", "copy", id, copy, updatedCopy);
+      return updatedCopy;
+    });
+  }
+
+  async deleteBookCopy(id: number): Promise<boolean> {
+    return await this.transaction(async (tx) => {
+      const [copy] = await tx.select().from(bookCopies).where(eq(bookCopies.id, id)).for("update");
+      if (!copy) return false;
+      if (copy.status === "issued") {
+        throw new CirculationError("Copy is currently issued and cannot be removed");
+      }
+      if (copy.status === "reserved") {
+        throw new CirculationError("Copy is being held for a reservation and cannot be removed");
+      }
+      // Loan and hold history keeps pointing at the copy, so a copy that has
+      // ever circulated stays on record
+      const [loan] = await tx.select({ id: circulation.id }).from(circulation).where(eq(circulation.copyId, id)).limit(1);
+      const [hold] = await tx.select({ id: reservations.id }).from(reservations).where(eq(reservations.copyId, id)).limit(1);
+      if (loan || hold) {
+        throw new CirculationError("Copy has loan or reservation history and cannot be removed");
+      }
+      await tx.delete(bookCopies).where(eq(bookCopies.id, id));
+      await this.refreshBookStatus(tx, copy.bookId);
+      await this.audit(tx, "delete", "copy", id, copy, null);
+      return true;
+    });
+  }
+
+  // Copies of the given titles with their book, in shelf order for labels
+  async getCopiesWithBooks(bookIds: number[]): Promise<{ copy: BookCopy; book: Book }[]> {
+    if (bookIds.length === 0) return [];
+    return await db
+      .select({ copy: bookCopies, book: books })
+      .from(bookCopies)
+      .innerJoin(books, eq(books.id, bookCopies.bookId))
+      .where(inArray(bookCopies.bookId, bookIds))
+      .orderBy(asc(books.ddc), asc(books.title), asc(bookCopies.accessionNo));
+  }
+
+  // Copies without an explicit accession number get the next number from
+  // the copy id sequence, zero-padded (e.g. "000042").
+  private async insertCopy(tx: Transaction, bookId: number, copy: InsertBookCopy): Promise<BookCopy> {
+    let id: number | undefined;
+    let accessionNo = copy.accessionNo;
+    if (!accessionNo) {
+      const { rows } = await tx.execute<{ id: string }>(
+        sql`select nextval(pg_get_serial_sequence('book_copies', 'id')) as id`,
       );
+      id = Number(rows[0].id);
+      accessionNo = String(id).padStart(6, "0");
+    }
+
+    const [newCopy] = await tx
+      .insert(bookCopies)
+      .values({
+        ...copy,
+        ...(id !== undefined ? { id } : {}),
+        bookId,
+        accessionNo,
+        status: "available",
+        createdAt: new Date(),
+      })
+      .returning();
+    return newCopy;
+  }
+
+  // Puts a copy back into circulation: it is held for the oldest waiting
+  // reservation on its title if there is one, otherwise it becomes available.
+  private async releaseCopy(tx: Transaction, copy: BookCopy): Promise<BookCopy> {
+    const [nextHold] = await tx
+      .select()
+      .from(reservations)
+      .where(and(eq(reservations.bookId, copy.bookId), eq(reservations.status, "waiting")))
+      .orderBy(asc(reservations.createdAt), asc(reservations.id))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    if (nextHold) {
+      const now = new Date();
+      const expiresAt = new Date(now);
+      expiresAt.setDate(expiresAt.getDate() + HOLD_PICKUP_DAYS);
+      await tx
+        .update(reservations)
+        .set({ status: "ready", copyId: copy.id, readyAt: now, expiresAt })
+        .where(eq(reservations.id, nextHold.id));
+
+      const [holder] = await tx
+        .select({ title: books.title, fullName: members.fullName })
+        .from(books)
+        .innerJoin(members, eq(members.id, nextHold.memberId))
+        .where(eq(books.id, nextHold.bookId));
+      await this.notify(tx, {
+        kind: "hold_ready",
+        title: "Reservation ready for pickup",
+        message: `Copy ${copy.accessionNo} of "${holder.title}" is held for ${holder.fullName} until ${expiresAt.toLocaleDateString("en-GB")}.`,
+      });
+    }
+
+    const [updatedCopy] = await tx
+      .update(bookCopies)
+      .set({ status: nextHold ? "reserved" : "available" })
+      .where(eq(bookCopies.id, copy.id))
+      .returning();
+    return updatedCopy;
+  }
+
+  // Keeps books.status as a summary of its copies so title-level listings
+  // can still show a single status.
+  private async refreshBookStatus(tx: Transaction, bookId: number): Promise<Book> {
+    const copies = await tx.select({ status: bookCopies.status }).from(bookCopies).where(eq(bookCopies.bookId, bookId));
+    const has = (status: string) => copies.some(copy => copy.status === status);
+    const status = has("available") ? "available" : has("reserved") ? "reserved" : has("issued") ? "issued" : "available";
+
+    const [book] = await tx.update(books).set({ status }).where(eq(books.id, bookId)).returning();
+    return book;
   }
 
   // Members
-  async getMembers(): Promise<Member[]> {
-    return await db.select().from(members);
+  async getMembers(query: MemberListQuery = memberListQuerySchema.parse({})): Promise<Paginated<Member>> {
+    const pattern = query.q ? containsPattern(query.q) : undefined;
+    const where = and(
+      pattern ? or(
+        ilike(members.fullName, pattern),
+        ilike(members.class, pattern),
+        ilike(members.registrationNo, pattern),
+      ) : undefined,
+      query.class ? eq(members.class, query.class) : undefined,
+      query.status === "active" ? isNull(members.archivedAt) : undefined,
+      query.status === "archived" ? isNotNull(members.archivedAt) : undefined,
+    );
+
+    const items = await withPage(
+      db
+        .select()
+        .from(members)
+        .where(where)
+        .orderBy(sortBy(members[query.sortBy], query.sortDir), asc(members.id))
+        .$dynamic(),
+      query,
+    );
+    return await toPage(items, query, async () => {
+      const [{ total }] = await db.select({ total: count() }).from(members).where(where);
+      return total;
+    });
   }
 
   async getMember(id: number): Promise<Member | undefined> {
@@ -125,48 +825,218 @@ export class DatabaseStorage implements IStorage {
     return member || undefined;
   }
 
+  async getMembersByIds(ids: number[]): Promise<Member[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .select()
+      .from(members)
+      .where(inArray(members.id, ids))
+      .orderBy(asc(members.class), asc(members.fullName));
+  }
+
   async createMember(member: InsertMember): Promise<Member> {
-    const [newMember] = await db
-      .insert(members)
-      .values({
-        ...member,
-        createdAt: new Date(),
-      })
-      .returning();
-    return newMember;
+    return await this.transaction(async (tx) => {
+      const [newMember] = await tx
+        .insert(members)
+        .values({
+          ...member,
+          createdAt: new Date(),
+        })
+        .returning();
+      await this.audit(tx, "create", "member", newMember.id, null, newMember);
+      return newMember;
+    });
   }
 
   async updateMember(id: number, updates: Partial<Member>): Promise<Member | undefined> {
-    const [updatedMember] = await db
-      .update(members)
-      .set(updates)
-      .where(eq(members.id, id))
-      .returning();
-    return updatedMember || undefined;
+    return await this.transaction(async (tx) => {
+      const [member] = await tx.select().from(members).where(eq(members.id, id)).for("update");
+      if (!member) return undefined;
+      const [updatedMember] = await tx
+        .update(members)
+        .set(updates)
+        .where(eq(members.id, id))
+        .returning();
+      await this.audit(tx, "update", "member", id, member, updatedMember);
+      return updatedMember;
+    });
+  }
+
+  async purgeMember(id: number): Promise<boolean> {
+    return await this.transaction(async (tx) => {
+      const [member] = await tx
+        .select({ ...getTableColumns(members), hasHistory: memberHasHistory })
+        .from(members)
+        .where(eq(members.id, id))
+        .for("update");
+      if (!member) return false;
+      assertPurgeable(member, "Member");
+
+      const [deleted] = await tx.delete(members).where(eq(members.id, id)).returning();
+      await this.audit(tx, "purge", "member", id, deleted, null);
+      return true;
+    });
+  }
+
+  // Classes of active members
+  async getMemberClasses(): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ class: members.class })
+      .from(members)
+      .where(isNull(members.archivedAt))
+      .orderBy(asc(members.class));
+    return rows.map(row => row.class);
+  }
+
+  async setMemberArchived(id: number, archived: boolean): Promise<Member | undefined> {
+    return await this.transaction(async (tx) => {
+      const [member] = await tx.select().from(members).where(eq(members.id, id)).for("update");
+      if (!member) return undefined;
+      const [updatedMember] = await tx
+        .update(members)
+        .set({ archivedAt: archived ? new Date() : null })
+        .where(eq(members.id, id))
+        .returning();
+      await this.audit(tx, archived ? "archive" : "restore", "member", id, member, updatedMember);
+      return updatedMember;
+    });
+  }
+
+  // Moves every active member of a class to the next class, e.g. at the
+  // start of an academic year. Returns the number of members moved.
+  async promoteClass(fromClass: string, toClass: string): Promise<number> {
+    return await this.transaction(async (tx) => {
+      const promoted = await tx
+        .update(members)
+        .set({ class: toClass })
+        .where(and(eq(members.class, fromClass), isNull(members.archivedAt)))
+        .returning();
+      for (const member of promoted) {
+        await this.audit(tx, "promote", "member", member.id, { ...member, class: fromClass }, member);
+      }
+      return promoted.length;
+    });
+  }
+
+  // Roster import. Rows are matched to members by registration number; a
+  // match with a different name is a conflict rather than an update, since
+  // it usually means a mistyped number. Contact details left blank in the
+  // roster keep the member's current ones.
+  async previewMemberImport(rows: MemberImportRow[], archiveMissing: MemberImportOptions["archiveMissing"]): Promise<MemberImportPreview> {
+    const registrationNos = rows.flatMap(({ member }) => (member ? [member.registrationNo] : []));
+    const existing = new Map<string, Member>();
+    if (registrationNos.length > 0) {
+      const matches = await db.select().from(members).where(inArray(members.registrationNo, registrationNos));
+      for (const match of matches) {
+        existing.set(match.registrationNo, match);
+      }
+    }
+
+    const sameName = (a: string, b: string) => a.replace(/\s+/g, " ").toLowerCase() === b.replace(/\s+/g, " ").toLowerCase();
+    const contactChanged = (match: Member, member: InsertMember) =>
+      (!!member.email && member.email !== match.email) || (!!member.phone && member.phone !== match.phone);
+    const previewRows = rows.map((row): MemberImportRow => {
+      if (!row.member) return row;
+      const match = existing.get(row.member.registrationNo) ?? null;
+      const action = !match
+        ? "create"
+        : !sameName(match.fullName, row.member.fullName)
+          ? "conflict"
+          : match.class !== row.member.class || match.fullName !== row.member.fullName || match.archivedAt ||
+              contactChanged(match, row.member)
+            ? "update"
+            : "unchanged";
+      return { ...row, action, existing: match };
+    });
+
+    let toArchive: Member[] = [];
+    if (archiveMissing !== "none") {
+      const rosterClasses = Array.from(new Set(rows.flatMap(({ member }) => (member ? [member.class] : []))));
+      if (archiveMissing === "all" || rosterClasses.length > 0) {
+        toArchive = await db
+          .select()
+          .from(members)
+          .where(and(
+            isNull(members.archivedAt),
+            registrationNos.length > 0 ? notInArray(members.registrationNo, registrationNos) : undefined,
+            archiveMissing === "classes" ? inArray(members.class, rosterClasses) : undefined,
+          ))
+          .orderBy(asc(members.class), asc(members.fullName));
+      }
+    }
+
+    return { rows: previewRows, toArchive };
   }
 
-  async deleteMember(id: number): Promise<boolean> {
-    const result = await db.delete(members).where(eq(members.id, id));
-    return (result.rowCount ?? 0) > 0;
+  // Saves a previewed roster in one transaction. Updating a member also
+  // restores it if it was archived. The preview must have no rows with errors.
+  async importMembers(preview: MemberImportPreview, updateConflicts: boolean): Promise<MemberImportResult> {
+    return await this.transaction(async (tx) => {
+      const result: MemberImportResult = { created: 0, updated: 0, conflictsSkipped: 0, archived: 0 };
+
+      for (const { member, action, existing } of preview.rows) {
+        if (!member) continue;
+        if (action === "create") {
+          const [newMember] = await tx.insert(members).values({ ...member, createdAt: new Date() }).returning();
+          await this.audit(tx, "import", "member", newMember.id, null, newMember);
+          result.created++;
+        } else if (action === "update" || (action === "conflict" && updateConflicts)) {
+          const [updatedMember] = await tx
+            .update(members)
+            .set({
+              fullName: member.fullName,
+              class: member.class,
+              email: member.email ?? existing!.email,
+              phone: member.phone ?? existing!.phone,
+              archivedAt: null,
+            })
+            .where(eq(members.id, existing!.id))
+            .returning();
+          await this.audit(tx, "import", "member", existing!.id, existing, updatedMember);
+          result.updated++;
+        } else if (action === "conflict") {
+          result.conflictsSkipped++;
+        }
+      }
+
+      if (preview.toArchive.length > 0) {
+        const archived = await tx
+          .update(members)
+          .set({ archivedAt: new Date() })
+          .where(and(inArray(members.id, preview.toArchive.map((member) => member.id)), isNull(members.archivedAt)))
+          .returning();
+        for (const member of archived) {
+          await this.audit(tx, "archive", "member", member.id, { ...member, archivedAt: null }, member);
+        }
+        result.archived = archived.length;
+      }
+      return result;
+    });
   }
 
   async searchMembers(query: string): Promise<Member[]> {
-    const lowerQuery = `%${query.toLowerCase()}%`;
+    const pattern = containsPattern(query);
     return await db
       .select()
       .from(members)
       .where(
         or(
-          like(members.fullName, lowerQuery),
-          like(members.class, lowerQuery),
-          like(members.registrationNo, lowerQuery)
+          ilike(members.fullName, pattern),
+          ilike(members.class, pattern),
+          ilike(members.registrationNo, pattern)
         )
       );
   }
 
   // Categories
-  async getCategories(): Promise<Category[]> {
-    return await db.select().from(categories);
+  async getCategories(): Promise<CategoryWithBookCount[]> {
+    return await db
+      .select({
+        ...getTableColumns(categories),
+        bookCount: sql<number>`(select count(*) from ${books} where ${books.categoryId} = ${categories.id})`.mapWith(Number),
+      })
+      .from(categories)
+      .where(isNull(categories.archivedAt));
   }
 
   async getCategory(id: number): Promise<Category | undefined> {
@@ -175,28 +1045,160 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createCategory(category: InsertCategory): Promise<Category> {
-    const [newCategory] = await db
-      .insert(categories)
-      .values({
-        ...category,
-        createdAt: new Date(),
-      })
-      .returning();
-    return newCategory;
+    return await this.transaction(async (tx) => {
+      if (category.parentId != null) {
+        await this.assertCategoryParent(tx, category.parentId);
+      }
+      const [newCategory] = await tx
+        .insert(categories)
+        .values({
+          ...category,
+          createdAt: new Date(),
+        })
+        .returning();
+      await this.audit(tx, "create", "category", newCategory.id, null, newCategory);
+      return newCategory;
+    });
   }
 
   async updateCategory(id: number, updates: Partial<Category>): Promise<Category | undefined> {
-    const [updatedCategory] = await db
-      .update(categories)
-      .set(updates)
-      .where(eq(categories.id, id))
-      .returning();
-    return updatedCategory || undefined;
+    return await this.transaction(async (tx) => {
+      const [category] = await tx.select().from(categories).where(eq(categories.id, id)).for("update");
+      if (!category) return undefined;
+      if (updates.parentId != null && updates.parentId !== category.parentId) {
+        await this.assertCategoryParent(tx, updates.parentId, id);
+      }
+      const [updatedCategory] = await tx
+        .update(categories)
+        .set(updates)
+        .where(eq(categories.id, id))
+        .returning();
+
+      // A rename carries over to the books filed under the category and to
+      // the circulation policies that name it; the category's own audit entry
+      // records the change
+      if (updatedCategory.name !== category.name) {
+        await tx.update(books).set({ category: updatedCategory.name }).where(eq(books.categoryId, id));
+        await tx
+          .update(circulationPolicies)
+          .set({ category: updatedCategory.name })
+          .where(sql`lower(${circulationPolicies.category}) = lower(${category.name})`);
+      }
+      await this.audit(tx, "update", "category", id, category, updatedCategory);
+      return updatedCategory;
+    });
+  }
+
+  // A parent must be a live category, and moving a category may not put it
+  // under itself or one of its own subcategories
+  private async assertCategoryParent(tx: Transaction, parentId: number, categoryId?: number) {
+    const [parent] = await tx
+      .select()
+      .from(categories)
+      .where(and(eq(categories.id, parentId), isNull(categories.archivedAt)));
+    if (!parent) {
+      throw new CirculationError("Choose an existing parent category", 400);
+    }
+    if (categoryId === undefined) return;
+
+    const subtree = await tx
+      .select({ id: categories.id })
+      .from(categories)
+      .where(inArray(categories.id, categorySubtree(eq(categories.id, categoryId))));
+    if (subtree.some(({ id }) => id === parentId)) {
+      throw new CirculationError("A category cannot be moved under itself or its subcategories", 400);
+    }
+  }
+
+  // Archived categories are hidden from pickers and hold no books: archiving
+  // one that still has books (including books in the Trash) needs a
+  // replacement category to move them to. Its subcategories, including any
+  // already in the Trash, move up to its parent, so a parent is never archived.
+  async setCategoryArchived(id: number, archived: boolean, replacementId?: number): Promise<Category | undefined> {
+    return await this.transaction(async (tx) => {
+      const [category] = await tx.select().from(categories).where(eq(categories.id, id)).for("update");
+      if (!category) return undefined;
+
+      const filedBooks = archived
+        ? await tx.select().from(books).where(eq(books.categoryId, id)).for("update")
+        : [];
+      if (filedBooks.length > 0) {
+        if (replacementId === undefined) {
+          throw new CirculationError(
+            `${filedBooks.length} book(s) are filed under "${category.name}"; choose a category to move them to`,
+          );
+        }
+        if (replacementId === id) {
+          throw new CirculationError("Choose a different category to move the books to", 400);
+        }
+        const replacement = await this.categoryForBook(tx, replacementId);
+        const movedBooks = await tx
+          .update(books)
+          .set({ categoryId: replacement.id, category: replacement.name })
+          .where(eq(books.categoryId, id))
+          .returning();
+        for (const movedBook of movedBooks) {
+          await this.audit(tx, "update", "book", movedBook.id, filedBooks.find((book) => book.id === movedBook.id)!, movedBook);
+        }
+      }
+
+      if (archived) {
+        const movedCategories = await tx
+          .update(categories)
+          .set({ parentId: category.parentId })
+          .where(eq(categories.parentId, id))
+          .returning();
+        for (const movedCategory of movedCategories) {
+          await this.audit(tx, "update", "category", movedCategory.id, { ...movedCategory, parentId: id }, movedCategory);
+        }
+      }
+
+      const [updatedCategory] = await tx
+        .update(categories)
+        .set({ archivedAt: archived ? new Date() : null })
+        .where(eq(categories.id, id))
+        .returning();
+      await this.audit(tx, archived ? "archive" : "restore", "category", id, category, updatedCategory);
+      return updatedCategory;
+    });
   }
 
-  async deleteCategory(id: number): Promise<boolean> {
-    const result = await db.delete(categories).where(eq(categories.id, id));
-    return (result.rowCount ?? 0) > 0;
+  async purgeCategory(id: number): Promise<boolean> {
+    return await this.transaction(async (tx) => {
+      const [category] = await tx
+        .select({ ...getTableColumns(categories), hasHistory: categoryHasHistory })
+        .from(categories)
+        .where(eq(categories.id, id))
+        .for("update");
+      if (!category) return false;
+      assertPurgeable(category, "Category");
+
+      const [deleted] = await tx.delete(categories).where(eq(categories.id, id)).returning();
+      await this.audit(tx, "purge", "category", id, deleted, null);
+      return true;
+    });
+  }
+
+  // Trash
+  async getTrash(): Promise<Trash> {
+    const [trashedBooks, trashedMembers, trashedCategories] = await Promise.all([
+      db
+        .select({ ...getTableColumns(books), hasHistory: bookHasHistory })
+        .from(books)
+        .where(isNotNull(books.archivedAt))
+        .orderBy(desc(books.archivedAt)),
+      db
+        .select({ ...getTableColumns(members), hasHistory: memberHasHistory })
+        .from(members)
+        .where(isNotNull(members.archivedAt))
+        .orderBy(desc(members.archivedAt)),
+      db
+        .select({ ...getTableColumns(categories), hasHistory: categoryHasHistory })
+        .from(categories)
+        .where(isNotNull(categories.archivedAt))
+        .orderBy(desc(categories.archivedAt)),
+    ]);
+    return { books: trashedBooks, members: trashedMembers, categories: trashedCategories };
   }
 
   // Book Suggestions
@@ -210,24 +1212,37 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createBookSuggestion(suggestion: InsertBookSuggestion): Promise<BookSuggestion> {
-    const [newSuggestion] = await db
-      .insert(bookSuggestions)
-      .values({
-        ...suggestion,
-        status: "pending",
-        createdAt: new Date(),
-      })
-      .returning();
-    return newSuggestion;
+    return await this.transaction(async (tx) => {
+      const [newSuggestion] = await tx
+        .insert(bookSuggestions)
+        .values({
+          ...suggestion,
+          status: "pending",
+          createdAt: new Date(),
+        })
+        .returning();
+      await this.audit(tx, "create", "suggestion", newSuggestion.id, null, newSuggestion);
+      await this.notify(tx, {
+        kind: "suggestion",
+        title: "New book suggestion",
+        message: `"${newSuggestion.bookTitle}" by ${newSuggestion.author}`,
+      });
+      return newSuggestion;
+    });
   }
 
   async updateBookSuggestion(id: number, updates: Partial<BookSuggestion>): Promise<BookSuggestion | undefined> {
-    const [updatedSuggestion] = await db
-      .update(bookSuggestions)
-      .set(updates)
-      .where(eq(bookSuggestions.id, id))
-      .returning();
-    return updatedSuggestion || undefined;
+    return await this.transaction(async (tx) => {
+      const [suggestion] = await tx.select().from(bookSuggestions).where(eq(bookSuggestions.id, id)).for("update");
+      if (!suggestion) return undefined;
+      const [updatedSuggestion] = await tx
+        .update(bookSuggestions)
+        .set(updates)
+        .where(eq(bookSuggestions.id, id))
+        .returning();
+      await this.audit(tx, "update", "suggestion", id, suggestion, updatedSuggestion);
+      return updatedSuggestion;
+    });
   }
 
   // Book Reviews
@@ -241,23 +1256,41 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createBookReview(review: InsertBookReview): Promise<BookReview> {
-    const [newReview] = await db
-      .insert(bookReviews)
-      .values({
-        ...review,
-        createdAt: new Date(),
-      })
-      .returning();
-    return newReview;
+    return await this.transaction(async (tx) => {
+      const [newReview] = await tx
+        .insert(bookReviews)
+        .values({
+          ...review,
+          createdAt: new Date(),
+        })
+        .returning();
+      await this.audit(tx, "create", "review", newReview.id, null, newReview);
+      const [reviewed] = await tx
+        .select({ title: books.title, fullName: members.fullName })
+        .from(books)
+        .innerJoin(members, eq(members.id, newReview.memberId))
+        .where(eq(books.id, newReview.bookId));
+      await this.notify(tx, {
+        kind: "review",
+        title: "New review to check",
+        message: `${reviewed?.fullName ?? "A member"} rated "${reviewed?.title ?? "a book"}" ${newReview.rating}/5`,
+      });
+      return newReview;
+    });
   }
 
   async updateBookReview(id: number, updates: Partial<BookReview>): Promise<BookReview | undefined> {
-    const [updatedReview] = await db
-      .update(bookReviews)
-      .set(updates)
-      .where(eq(bookReviews.id, id))
-      .returning();
-    return updatedReview || undefined;
+    return await this.transaction(async (tx) => {
+      const [review] = await tx.select().from(bookReviews).where(eq(bookReviews.id, id)).for("update");
+      if (!review) return undefined;
+      const [updatedReview] = await tx
+        .update(bookReviews)
+        .set(updates)
+        .where(eq(bookReviews.id, id))
+        .returning();
+      await this.audit(tx, "update", "review", id, review, updatedReview);
+      return updatedReview;
+    });
   }
 
   async getBookReviewsByBook(bookId: number): Promise<BookReview[]> {
@@ -265,8 +1298,35 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Circulation
-  async getCirculation(): Promise<Circulation[]> {
-    return await db.select().from(circulation);
+  async getCirculation(query: CirculationListQuery = circulationListQuerySchema.parse({})): Promise<Paginated<CirculationWithDetails>> {
+    const where = and(
+      query.action ? eq(circulation.action, query.action) : undefined,
+      query.status === "overdue"
+        ? and(eq(circulation.status, "active"), lt(circulation.dueDate, new Date()))
+        : query.status ? eq(circulation.status, query.status) : undefined,
+      query.memberId ? eq(circulation.memberId, query.memberId) : undefined,
+      query.bookId ? eq(circulation.bookId, query.bookId) : undefined,
+      // `to` is exclusive so a month can be requested as [1st, 1st of next month)
+      query.from ? gte(circulation.date, query.from) : undefined,
+      query.to ? lt(circulation.date, query.to) : undefined,
+    );
+
+    const rows = await withPage(
+      db
+        .select({ record: circulation, book: books, member: members })
+        .from(circulation)
+        .innerJoin(books, eq(circulation.bookId, books.id))
+        .innerJoin(members, eq(circulation.memberId, members.id))
+        .where(where)
+        .orderBy(sortBy(circulation[query.sortBy], query.sortDir), asc(circulation.id))
+        .$dynamic(),
+      query,
+    );
+    const items = rows.map(({ record, book, member }) => ({ ...record, book, member }));
+    return await toPage(items, query, async () => {
+      const [{ total }] = await db.select({ total: count() }).from(circulation).where(where);
+      return total;
+    });
   }
 
   async getCirculationRecord(id: number): Promise<Circulation | undefined> {
@@ -274,27 +1334,6 @@ export class DatabaseStorage implements IStorage {
     return record || undefined;
   }
 
-  async createCirculationRecord(circulationData: InsertCirculation): Promise<Circulation> {
-    const [newCirculation] = await db
-      .insert(circulation)
-      .values({
-        ...circulationData,
-        date: new Date(),
-        status: circulationData.action === "return" ? "returned" : "active",
-      })
-      .returning();
-    return newCirculation;
-  }
-
-  async updateCirculationRecord(id: number, updates: Partial<Circulation>): Promise<Circulation | undefined> {
-    const [updatedRecord] = await db
-      .update(circulation)
-      .set(updates)
-      .where(eq(circulation.id, id))
-      .returning();
-    return updatedRecord || undefined;
-  }
-
   async getActiveCirculation(): Promise<Circulation[]> {
     return await db.select().from(circulation).where(eq(circulation.status, "active"));
   }
@@ -312,6 +1351,906 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
+  async issueBook(bookId: number, memberId: number, copyId?: number): Promise<CirculationResult> {
+    return await this.transaction(async (tx) => {
+      const [book] = await tx.select().from(books).where(eq(books.id, bookId)).for("update");
+      if (!book) {
+        throw new CirculationError("Book not found", 404);
+      }
+      if (book.archivedAt) {
+        throw new CirculationError("Book has been deleted and cannot be issued");
+      }
+      // Locking the member serialises concurrent issues against the loan limit
+      const [member] = await tx.select().from(members).where(eq(members.id, memberId)).for("update");
+      if (!member) {
+        throw new CirculationError("Member not found", 404);
+      }
+      if (member.archivedAt) {
+        throw new CirculationError("Member is archived and cannot borrow");
+      }
+
+      const { fineBlockThreshold } = await this.readSettings(tx);
+      const balance = await this.getOutstandingBalance(tx, memberId);
+      if (balance > fineBlockThreshold) {
+        throw new CirculationError(`Member owes ₹${balance} in unpaid fines; settle them before borrowing`);
+      }
+
+      const policy = await this.findPolicy(tx, member.class, book.category);
+      if (!policy.loanable) {
+        throw new CirculationError(`${book.category} books are for reference only and cannot be issued`);
+      }
+      if (policy.maxLoans !== null) {
+        const [{ activeLoans }] = await tx
+          .select({ activeLoans: count() })
+          .from(circulation)
+          .where(and(
+            eq(circulation.memberId, memberId),
+            eq(circulation.action, "borrow"),
+            eq(circulation.status, "active"),
+          ));
+        if (activeLoans >= policy.maxLoans) {
+          throw new CirculationError(`Member already has ${activeLoans} book(s) on loan, the limit for ${member.class}`);
+        }
+      }
+
+      const [hold] = await tx
+        .select()
+        .from(reservations)
+        .where(and(
+          eq(reservations.bookId, bookId),
+          eq(reservations.memberId, memberId),
+          inArray(reservations.status, ACTIVE_RESERVATION_STATUSES),
+        ))
+        .for("update");
+      const heldCopyId = hold?.status === "ready" ? hold.copyId : null;
+
+      let copy: BookCopy | undefined;
+      if (copyId || heldCopyId) {
+        [copy] = await tx
+          .select()
+          .from(bookCopies)
+          .where(and(eq(bookCopies.id, copyId ?? heldCopyId!), eq(bookCopies.bookId, bookId)))
+          .for("update");
+        if (!copy) {
+          throw new CirculationError("Copy not found", 404);
+        }
+        if (copy.status === "reserved" && copy.id !== heldCopyId) {
+          throw new CirculationError(`Copy ${copy.accessionNo} is being held for another member`);
+        }
+        if (copy.status === "issued") {
+          throw new CirculationError(`Copy ${copy.accessionNo} is already issued`);
+        }
+      } else {
+        [copy] = await tx
+          .select()
+          .from(bookCopies)
+          .where(and(eq(bookCopies.bookId, bookId), eq(bookCopies.status, "available")))
+          .orderBy(asc(bookCopies.accessionNo))
+          .limit(1)
+          .for("update", { skipLocked: true });
+        if (!copy) {
+          throw new CirculationError("No copies of this book are available");
+        }
+      }
+
+      const now = new Date();
+      const dueDate = new Date(now);
+      dueDate.setDate(dueDate.getDate() + policy.loanPeriodDays);
+
+      const [record] = await tx
+        .insert(circulation)
+        .values({ bookId, copyId: copy.id, memberId, action: "borrow", date: now, dueDate, status: "active" })
+        .returning();
+      const [updatedCopy] = await tx
+        .update(bookCopies)
+        .set({ status: "issued" })
+        .where(eq(bookCopies.id, copy.id))
+        .returning();
+      if (hold) {
+        await tx.update(reservations).set({ status: "fulfilled" }).where(eq(reservations.id, hold.id));
+      }
+      // Issuing a different copy leaves the one held for this member free
+      // for the next person in the queue.
+      if (heldCopyId && heldCopyId !== copy.id) {
+        const [heldCopy] = await tx.select().from(bookCopies).where(eq(bookCopies.id, heldCopyId)).for("update");
+        if (heldCopy) await this.releaseCopy(tx, heldCopy);
+      }
+      const updatedBook = await this.refreshBookStatus(tx, bookId);
+      await this.audit(tx, "issue", "circulation", record.id, null, record);
+
+      return { circulation: record, book: updatedBook, copy: updatedCopy };
+    });
+  }
+
+  async returnBook({ copyId, bookId }: { copyId?: number; bookId?: number }): Promise<CirculationResult> {
+    return await this.transaction(async (tx) => {
+      const activeLoans = await tx
+        .select()
+        .from(circulation)
+        .where(and(
+          copyId ? eq(circulation.copyId, copyId) : eq(circulation.bookId, bookId!),
+          eq(circulation.action, "borrow"),
+          eq(circulation.status, "active"),
+        ))
+        .for("update");
+      if (activeLoans.length === 0) {
+        throw new CirculationError(copyId ? "Copy is not currently issued" : "Book is not currently issued");
+      }
+      if (activeLoans.length > 1) {
+        throw new CirculationError("Several copies of this book are on loan; specify which copy is being returned");
+      }
+      const [activeLoan] = activeLoans;
+      if (activeLoan.copyId === null) {
+        throw new CirculationError("This loan has no copy recorded, so the returned copy cannot be checked in");
+      }
+
+      const now = new Date();
+      const [record] = await tx
+        .update(circulation)
+        .set({ status: "returned", returnDate: now })
+        .where(eq(circulation.id, activeLoan.id))
+        .returning();
+
+      // Separate "return" entry keeps the history log in borrow/return pairs
+      await tx.insert(circulation).values({
+        bookId: activeLoan.bookId,
+        copyId: activeLoan.copyId,
+        memberId: activeLoan.memberId,
+        action: "return",
+        date: now,
+        returnDate: now,
+        status: "returned",
+      });
+
+      await this.audit(tx, "return", "circulation", record.id, activeLoan, record);
+      const fine = await this.raiseFine(tx, activeLoan, now);
+
+      const [returnedCopy] = await tx
+        .select()
+        .from(bookCopies)
+        .where(eq(bookCopies.id, activeLoan.copyId))
+        .for("update");
+      const updatedCopy = await this.releaseCopy(tx, returnedCopy);
+      const updatedBook = await this.refreshBookStatus(tx, activeLoan.bookId);
+
+      return { circulation: record, book: updatedBook, copy: updatedCopy, fine };
+    });
+  }
+
+  // Resolves a scanned code as a member card or a copy accession number, or
+  // failing both a book id, then issues or returns the book in a single call.
+  // A code that is both a registration number and an accession number is
+  // returned as ambiguous, untouched, until the desk says which it meant.
+  async deskScan(code: string, memberId?: number, target?: DeskScan["target"]): Promise<DeskScanResult> {
+    const [member] = target === "book"
+      ? []
+      : await db.select().from(members).where(eq(members.registrationNo, code));
+    const [copy] = target === "member"
+      ? []
+      : await db.select().from(bookCopies).where(eq(bookCopies.accessionNo, code));
+
+    if (member && copy) {
+      const copyBook = await this.getBook(copy.bookId);
+      if (copyBook) return { kind: "ambiguous", member, copy, book: copyBook };
+    }
+    if (member) {
+      return { kind: "member", ...(await this.getDeskMemberStatus(member)) };
+    }
+    if (target === "member") {
+      throw new CirculationError(`No member has registration number "${code}"`, 404);
+    }
+
+    const bookId = copy ? copy.bookId : /^\d{1,9}$/.test(code) ? Number(code) : undefined;
+    const book = bookId !== undefined ? await this.getBook(bookId) : undefined;
+    if (!book) {
+      throw new CirculationError(`No member, copy or book matches "${code}"`, 404);
+    }
+
+    if (memberId) {
+      const result = await this.issueBook(book.id, memberId, copy?.id);
+      const [borrower] = await db.select().from(members).where(eq(members.id, memberId));
+      return { kind: "issue", member: borrower, result };
+    }
+    const result = await this.returnBook(copy ? { copyId: copy.id } : { bookId: book.id });
+    const [borrower] = await db.select().from(members).where(eq(members.id, result.circulation.memberId));
+    return { kind: "return", member: borrower, result };
+  }
+
+  // The checks issueBook makes on the member alone, so the desk can warn
+  // before any book is scanned
+  private async getDeskMemberStatus(member: Member): Promise<DeskMemberStatus> {
+    const [{ activeLoans }] = await db
+      .select({ activeLoans: count() })
+      .from(circulation)
+      .where(and(
+        eq(circulation.memberId, member.id),
+        eq(circulation.action, "borrow"),
+        eq(circulation.status, "active"),
+      ));
+    const { fineBlockThreshold } = await this.readSettings(db);
+    const balance = await this.getOutstandingBalance(db, member.id);
+
+    let blockedReason: string | null = null;
+    if (member.archivedAt) {
+      blockedReason = "Member is archived and cannot borrow";
+    } else if (balance > fineBlockThreshold) {
+      blockedReason = `Member owes ₹${balance} in unpaid fines; settle them before borrowing`;
+    }
+    return { member, activeLoans, balance, blockedReason };
+  }
+
+  async renewLoan(circulationId: number, renewedBy?: number): Promise<Circulation> {
+    return await this.transaction(async (tx) => {
+      const [loan] = await tx.select().from(circulation).where(eq(circulation.id, circulationId)).for("update");
+      if (!loan || loan.action !== "borrow") {
+        throw new CirculationError("Loan not found", 404);
+      }
+      if (loan.status !== "active") {
+        throw new CirculationError("Only active loans can be renewed");
+      }
+
+      const now = new Date();
+      if (loan.dueDate && loan.dueDate < now) {
+        throw new CirculationError("Overdue loans cannot be renewed; return the book first");
+      }
+      const [member] = await tx.select().from(members).where(eq(members.id, loan.memberId));
+      const [book] = await tx.select().from(books).where(eq(books.id, loan.bookId));
+      const policy = await this.findPolicy(tx, member.class, book.category);
+      if (loan.renewalCount >= policy.maxRenewals) {
+        throw new CirculationError(
+          policy.maxRenewals === 0
+            ? "Loans under this policy cannot be renewed"
+            : `This loan has already been renewed ${policy.maxRenewals} time(s), the limit for this policy`,
+        );
+      }
+
+      const [waiting] = await tx
+        .select({ id: reservations.id })
+        .from(reservations)
+        .where(and(eq(reservations.bookId, loan.bookId), eq(reservations.status, "waiting")))
+        .limit(1);
+      if (waiting) {
+        throw new CirculationError("Another member has reserved this book, so it cannot be renewed");
+      }
+
+      // The new period starts today, or at the old due date if that is later,
+      // so renewing early never shortens the loan.
+      const start = loan.dueDate && loan.dueDate > now ? loan.dueDate : now;
+      const newDueDate = new Date(start);
+      newDueDate.setDate(newDueDate.getDate() + policy.loanPeriodDays);
+
+      await tx.insert(circulationRenewals).values({
+        circulationId,
+        previousDueDate: loan.dueDate,
+        newDueDate,
+        renewedBy: renewedBy ?? null,
+        createdAt: now,
+      });
+      const [renewed] = await tx
+        .update(circulation)
+        .set({ dueDate: newDueDate, renewalCount: loan.renewalCount + 1 })
+        .where(eq(circulation.id, circulationId))
+        .returning();
+      await this.audit(tx, "renew", "circulation", circulationId, loan, renewed);
+      return renewed;
+    });
+  }
+
+  async getRenewals(circulationId: number): Promise<CirculationRenewal[]> {
+    return await db
+      .select()
+      .from(circulationRenewals)
+      .where(eq(circulationRenewals.circulationId, circulationId))
+      .orderBy(asc(circulationRenewals.createdAt));
+  }
+
+  // Circulation policies
+  async getCirculationPolicies(): Promise<CirculationPolicy[]> {
+    return await db
+      .select()
+      .from(circulationPolicies)
+      .orderBy(asc(circulationPolicies.memberClass), asc(circulationPolicies.category));
+  }
+
+  async createCirculationPolicy(policy: InsertCirculationPolicy): Promise<CirculationPolicy> {
+    return await this.transaction(async (tx) => {
+      await this.assertPolicyScopeFree(tx, policy.memberClass ?? null, policy.category ?? null);
+      const [newPolicy] = await tx
+        .insert(circulationPolicies)
+        .values({
+          ...policy,
+          createdAt: new Date(),
+        })
+        .returning();
+      await this.audit(tx, "create", "policy", newPolicy.id, null, newPolicy);
+      return newPolicy;
+    });
+  }
+
+  async updateCirculationPolicy(id: number, updates: Partial<InsertCirculationPolicy>): Promise<CirculationPolicy | undefined> {
+    return await this.transaction(async (tx) => {
+      const [existing] = await tx.select().from(circulationPolicies).where(eq(circulationPolicies.id, id)).for("update");
+      if (!existing) return undefined;
+      if (updates.memberClass !== undefined || updates.category !== undefined) {
+        await this.assertPolicyScopeFree(
+          tx,
+          updates.memberClass !== undefined ? updates.memberClass : existing.memberClass,
+          updates.category !== undefined ? updates.category : existing.category,
+          id,
+        );
+      }
+
+      const [updatedPolicy] = await tx
+        .update(circulationPolicies)
+        .set(updates)
+        .where(eq(circulationPolicies.id, id))
+        .returning();
+      if (!updatedPolicy) return undefined;
+      await this.audit(tx, "update", "policy", id, existing, updatedPolicy);
+      return updatedPolicy;
+    });
+  }
+
+  async deleteCirculationPolicy(id: number): Promise<boolean> {
+    return await this.transaction(async (tx) => {
+      const [deleted] = await tx.delete(circulationPolicies).where(eq(circulationPolicies.id, id)).returning();
+      if (!deleted) return false;
+      await this.audit(tx, "delete", "policy", id, deleted, null);
+      return true;
+    });
+  }
+
+  async resolveCirculationPolicy(memberId: number, bookId: number): Promise<ResolvedCirculationPolicy | undefined> {
+    const member = await this.getMember(memberId);
+    const book = await this.getBook(bookId);
+    if (!member || !book) return undefined;
+    return await this.findPolicy(db, member.class, book.category);
+  }
+
+  // Loan length and limits come from the most specific matching policy: one
+  // for the exact class and category beats a class-only policy, which beats a
+  // category-only one, which beats the catch-all. Reference-only is not
+  // overridden that way: if any matching policy forbids loans, so does the
+  // result, so a class policy cannot let reference books leave the library.
+  private async findPolicy(executor: Transaction | typeof db, memberClass: string, category: string): Promise<ResolvedCirculationPolicy> {
+    const candidates = await executor
+      .select()
+      .from(circulationPolicies)
+      .where(and(
+        or(isNull(circulationPolicies.memberClass), sql`lower(${circulationPolicies.memberClass}) = lower(${memberClass})`),
+        or(isNull(circulationPolicies.category), sql`lower(${circulationPolicies.category}) = lower(${category})`),
+      ));
+
+    const specificity = (policy: CirculationPolicy) => (policy.memberClass ? 2 : 0) + (policy.category ? 1 : 0);
+    const [best] = candidates.sort((a, b) => specificity(b) - specificity(a));
+    if (!best) return { ...defaultCirculationPolicy, id: null };
+    return { ...best, loanable: candidates.every((policy) => policy.loanable) };
+  }
+
+  // Run inside the saving transaction; the scope's unique constraint catches
+  // a concurrent save that slips past this check
+  private async assertPolicyScopeFree(tx: Transaction, memberClass: string | null, category: string | null, exceptId?: number) {
+    const [clash] = await tx
+      .select({ id: circulationPolicies.id })
+      .from(circulationPolicies)
+      .where(and(
+        memberClass ? sql`lower(${circulationPolicies.memberClass}) = lower(${memberClass})` : isNull(circulationPolicies.memberClass),
+        category ? sql`lower(${circulationPolicies.category}) = lower(${category})` : isNull(circulationPolicies.category),
+      ));
+    if (clash && clash.id !== exceptId) {
+      throw new CirculationError("A policy for this member class and category already exists");
+    }
+  }
+
+  // Reservations
+  async getReservations(bookId?: number): Promise<ReservationWithDetails[]> {
+    const rows = await db
+      .select({ reservation: reservations, book: books, member: members })
+      .from(reservations)
+      .innerJoin(books, eq(reservations.bookId, books.id))
+      .innerJoin(members, eq(reservations.memberId, members.id))
+      .where(and(
+        inArray(reservations.status, ACTIVE_RESERVATION_STATUSES),
+        bookId ? eq(reservations.bookId, bookId) : undefined,
+      ))
+      .orderBy(asc(reservations.bookId), asc(reservations.createdAt), asc(reservations.id));
+
+    // Queue position counts waiting holds only; a ready hold already has a copy
+    const positions = new Map<number, number>();
+    return rows.map(({ reservation, book, member }) => {
+      let position: number | null = null;
+      if (reservation.status === "waiting") {
+        position = (positions.get(book.id) ?? 0) + 1;
+        positions.set(book.id, position);
+      }
+      return { ...reservation, book, member, position };
+    });
+  }
+
+  async createReservation({ bookId, memberId }: InsertReservation): Promise<Reservation> {
+    return await this.transaction(async (tx) => {
+      const [book] = await tx.select().from(books).where(eq(books.id, bookId)).for("update");
+      if (!book) {
+        throw new CirculationError("Book not found", 404);
+      }
+      if (book.archivedAt) {
+        throw new CirculationError("Book has been deleted and cannot be reserved");
+      }
+      const [member] = await tx.select().from(members).where(eq(members.id, memberId));
+      if (!member) {
+        throw new CirculationError("Member not found", 404);
+      }
+      if (member.archivedAt) {
+        throw new CirculationError("Member is archived and cannot place holds");
+      }
+
+      const [available] = await tx
+        .select({ id: bookCopies.id })
+        .from(bookCopies)
+        .where(and(eq(bookCopies.bookId, bookId), eq(bookCopies.status, "available")))
+        .limit(1);
+      if (available) {
+        throw new CirculationError("A copy of this book is available; issue it instead of placing a hold");
+      }
+
+      const [existing] = await tx
+        .select({ id: reservations.id })
+        .from(reservations)
+        .where(and(
+          eq(reservations.bookId, bookId),
+          eq(reservations.memberId, memberId),
+          inArray(reservations.status, ACTIVE_RESERVATION_STATUSES),
+        ));
+      if (existing) {
+        throw new CirculationError("Member already has a hold on this book");
+      }
+
+      const [onLoan] = await tx
+        .select({ id: circulation.id })
+        .from(circulation)
+        .where(and(
+          eq(circulation.bookId, bookId),
+          eq(circulation.memberId, memberId),
+          eq(circulation.action, "borrow"),
+          eq(circulation.status, "active"),
+        ));
+      if (onLoan) {
+        throw new CirculationError("Member already has this book on loan");
+      }
+
+      const [reservation] = await tx
+        .insert(reservations)
+        .values({ bookId, memberId, status: "waiting", createdAt: new Date() })
+        .returning();
+      await this.audit(tx, "create", "reservation", reservation.id, null, reservation);
+      return reservation;
+    });
+  }
+
+  async cancelReservation(id: number): Promise<Reservation | undefined> {
+    return await this.transaction(async (tx) => {
+      const [reservation] = await tx.select().from(reservations).where(eq(reservations.id, id)).for("update");
+      if (!reservation) return undefined;
+      if (!ACTIVE_RESERVATION_STATUSES.includes(reservation.status)) {
+        throw new CirculationError("Reservation is no longer active");
+      }
+
+      const [cancelled] = await tx
+        .update(reservations)
+        .set({ status: "cancelled" })
+        .where(eq(reservations.id, id))
+        .returning();
+      if (reservation.copyId) {
+        await this.releaseHeldCopy(tx, reservation.copyId);
+      }
+      await this.audit(tx, "cancel", "reservation", id, reservation, cancelled);
+      return cancelled;
+    });
+  }
+
+  // Ready holds that were not collected within HOLD_PICKUP_DAYS lapse and
+  // their copy moves on to the next member in the queue.
+  async expireReservations(): Promise<number> {
+    return await this.transaction(async (tx) => {
+      const lapsed = await tx
+        .select()
+        .from(reservations)
+        .where(and(eq(reservations.status, "ready"), lt(reservations.expiresAt, new Date())))
+        .for("update", { skipLocked: true });
+
+      for (const reservation of lapsed) {
+        await tx.update(reservations).set({ status: "expired" }).where(eq(reservations.id, reservation.id));
+        await this.audit(tx, "expire", "reservation", reservation.id, reservation, { ...reservation, status: "expired" });
+        if (reservation.copyId) {
+          await this.releaseHeldCopy(tx, reservation.copyId);
+        }
+      }
+      return lapsed.length;
+    });
+  }
+
+  private async releaseHeldCopy(tx: Transaction, copyId: number) {
+    const [copy] = await tx.select().from(bookCopies).where(eq(bookCopies.id, copyId)).for("update");
+    if (copy?.status !== "reserved") return;
+    await this.releaseCopy(tx, copy);
+    await this.refreshBookStatus(tx, copy.bookId);
+  }
+  // Fines
+  async getFines(memberId?: number): Promise<FineWithDetails[]> {
+    const rows = await db
+      .select({ fine: fines, book: books, member: members })
+      .from(fines)
+      .innerJoin(books, eq(fines.bookId, books.id))
+      .innerJoin(members, eq(fines.memberId, members.id))
+      .where(memberId ? eq(fines.memberId, memberId) : undefined)
+      .orderBy(desc(fines.createdAt));
+    return rows.map(({ fine, book, member }) => ({ ...fine, book, member }));
+  }
+
+  async getFinePayments(fineId: number): Promise<FinePayment[]> {
+    return await db
+      .select()
+      .from(finePayments)
+      .where(eq(finePayments.fineId, fineId))
+      .orderBy(asc(finePayments.createdAt));
+  }
+
+  // Outstanding is what the ledger says is owed; accruing is what loans that
+  // are still out and overdue would cost if returned today.
+  async getMemberBalances(): Promise<MemberBalance[]> {
+    const { fineRatePerDay } = await this.getSettings();
+    const outstanding = await db
+      .select({
+        memberId: fines.memberId,
+        amount: sql<number>`sum(${fines.amount} - ${fines.paidAmount} - ${fines.waivedAmount})`.mapWith(Number),
+      })
+      .from(fines)
+      .where(eq(fines.status, "outstanding"))
+      .groupBy(fines.memberId);
+    const overdueDays = await db
+      .select({
+        memberId: circulation.memberId,
+        days: sql<number>`sum(ceil(extract(epoch from (now() - ${circulation.dueDate})) / 86400))`.mapWith(Number),
+      })
+      .from(circulation)
+      .where(and(
+        eq(circulation.action, "borrow"),
+        eq(circulation.status, "active"),
+        lt(circulation.dueDate, new Date()),
+      ))
+      .groupBy(circulation.memberId);
+
+    const balances = new Map<number, MemberBalance>();
+    const balanceFor = (memberId: number) => {
+      if (!balances.has(memberId)) balances.set(memberId, { memberId, outstanding: 0, accruing: 0 });
+      return balances.get(memberId)!;
+    };
+    outstanding.forEach(row => { balanceFor(row.memberId).outstanding = row.amount; });
+    overdueDays.forEach(row => { balanceFor(row.memberId).accruing = row.days * fineRatePerDay; });
+    return Array.from(balances.values());
+  }
+
+  async recordFineTransaction(fineId: number, { kind, amount, reason }: FineTransaction, recordedBy?: number): Promise<Fine | undefined> {
+    return await this.transaction(async (tx) => {
+      const [fine] = await tx.select().from(fines).where(eq(fines.id, fineId)).for("update");
+      if (!fine) return undefined;
+
+      const remaining = fine.amount - fine.paidAmount - fine.waivedAmount;
+      if (amount > remaining) {
+        throw new CirculationError(`Only ₹${remaining} is outstanding on this fine`, 400);
+      }
+
+      await tx.insert(finePayments).values({
+        fineId,
+        kind,
+        amount,
+        reason: reason || null,
+        recordedBy: recordedBy ?? null,
+        createdAt: new Date(),
+      });
+      const [updatedFine] = await tx
+        .update(fines)
+        .set({
+          paidAmount: kind === "payment" ? fine.paidAmount + amount : fine.paidAmount,
+          waivedAmount: kind === "waiver" ? fine.waivedAmount + amount : fine.waivedAmount,
+          status: amount === remaining ? "settled" : "outstanding",
+        })
+        .where(eq(fines.id, fineId))
+        .returning();
+      await this.audit(tx, kind, "fine", fineId, fine, { ...updatedFine, reason: reason || null });
+      return updatedFine;
+    });
+  }
+
+  private async getOutstandingBalance(executor: Transaction | typeof db, memberId: number): Promise<number> {
+    const [{ balance }] = await executor
+      .select({
+        balance: sql<number>`coalesce(sum(${fines.amount} - ${fines.paidAmount} - ${fines.waivedAmount}), 0)`.mapWith(Number),
+      })
+      .from(fines)
+      .where(and(eq(fines.memberId, memberId), eq(fines.status, "outstanding")));
+    return balance;
+  }
+
+  // Charges the member for each started day past the due date
+  private async raiseFine(tx: Transaction, loan: Circulation, returnedAt: Date): Promise<Fine | undefined> {
+    if (!loan.dueDate || returnedAt <= loan.dueDate) return undefined;
+
+    const daysOverdue = Math.ceil((returnedAt.getTime() - loan.dueDate.getTime()) / DAY_MS);
+    const { fineRatePerDay } = await this.readSettings(tx);
+    if (fineRatePerDay === 0) return undefined;
+
+    const [fine] = await tx
+      .insert(fines)
+      .values({
+        memberId: loan.memberId,
+        bookId: loan.bookId,
+        circulationId: loan.id,
+        daysOverdue,
+        ratePerDay: fineRatePerDay,
+        amount: daysOverdue * fineRatePerDay,
+        status: "outstanding",
+        createdAt: returnedAt,
+      })
+      .returning();
+    await this.audit(tx, "create", "fine", fine.id, null, fine);
+    return fine;
+  }
+
+  // Settings
+  async getSettings(): Promise<LibrarySettings> {
+    return await this.readSettings(db);
+  }
+
+  async updateSettings(updates: Partial<LibrarySettings>): Promise<LibrarySettings> {
+    return await this.transaction(async (tx) => {
+      const previous = await this.readSettings(tx);
+      const now = new Date();
+      for (const [key, value] of Object.entries(updates)) {
+        if (value === undefined) continue;
+        await tx
+          .insert(settings)
+          .values({ key, value: String(value), updatedAt: now })
+          .onConflictDoUpdate({ target: settings.key, set: { value: String(value), updatedAt: now } });
+      }
+      const updated = await this.readSettings(tx);
+      await this.audit(tx, "update", "settings", null, previous, updated);
+      return updated;
+    });
+  }
+
+  private async readSettings(executor: Transaction | typeof db): Promise<LibrarySettings> {
+    const rows = await executor.select().from(settings);
+    const stored = Object.fromEntries(rows.map(row => [row.key, Number(row.value)]));
+    return {
+      fineRatePerDay: stored.fineRatePerDay ?? defaultLibrarySettings.fineRatePerDay,
+      fineBlockThreshold: stored.fineBlockThreshold ?? defaultLibrarySettings.fineBlockThreshold,
+      dueReminderDays: stored.dueReminderDays ?? defaultLibrarySettings.dueReminderDays,
+      overdueNoticeIntervalDays: stored.overdueNoticeIntervalDays ?? defaultLibrarySettings.overdueNoticeIntervalDays,
+    };
+  }
+
+  // Notices
+  // Every kind of notice has a template: the saved wording, or the default
+  // (with no updatedAt) until one is saved
+  async getNoticeTemplates(): Promise<NoticeTemplate[]> {
+    const saved = await db.select().from(noticeTemplates);
+    return noticeKinds.map((kind) =>
+      saved.find((template) => template.kind === kind) ?? { kind, ...defaultNoticeTemplates[kind], updatedAt: null }
+    );
+  }
+
+  async updateNoticeTemplate(kind: NoticeKind, template: NoticeTemplateInput): Promise<NoticeTemplate> {
+    return await this.transaction(async (tx) => {
+      const [previous] = await tx.select().from(noticeTemplates).where(eq(noticeTemplates.kind, kind));
+      const now = new Date();
+      const [saved] = await tx
+        .insert(noticeTemplates)
+        .values({ kind, ...template, updatedAt: now })
+        .onConflictDoUpdate({ target: noticeTemplates.kind, set: { ...template, updatedAt: now } })
+        .returning();
+      await this.audit(tx, "update", "template", kind, previous ?? { kind, ...defaultNoticeTemplates[kind] }, saved);
+      return saved;
+    });
+  }
+
+  // Loans out on a borrow that need a reminder now: due within
+  // dueReminderDays and not yet reminded for this due date, or overdue with
+  // no overdue notice in the last overdueNoticeIntervalDays (or ever, when
+  // the interval is 0). Skipped and failed notices count as sent, so a
+  // member without contact details is not retried every run.
+  async getDueNotices(
+    { dueReminderDays, overdueNoticeIntervalDays }: Pick<LibrarySettings, "dueReminderDays" | "overdueNoticeIntervalDays">
+  ): Promise<DueNotice[]> {
+    const now = new Date();
+    const noticeSent = (kind: NoticeKind, since?: Date) => sql`exists (
+      select 1 from ${notices}
+      where ${notices.circulationId} = ${circulation.id}
+        and ${notices.kind} = ${kind}
+        and ${notices.dueDate} = ${circulation.dueDate}
+        ${since ? sql`and ${notices.createdAt} > ${since}` : sql``}
+    )`;
+
+    const rows = await db
+      .select({ loan: circulation, book: books, copy: bookCopies, member: members })
+      .from(circulation)
+      .innerJoin(books, eq(circulation.bookId, books.id))
+      .innerJoin(members, eq(circulation.memberId, members.id))
+      .leftJoin(bookCopies, eq(circulation.copyId, bookCopies.id))
+      .where(and(
+        eq(circulation.action, "borrow"),
+        eq(circulation.status, "active"),
+        or(
+          dueReminderDays > 0
+            ? and(
+                gte(circulation.dueDate, now),
+                lte(circulation.dueDate, new Date(now.getTime() + dueReminderDays * DAY_MS)),
+                not(noticeSent("due_soon")),
+              )
+            : undefined,
+          and(
+            lt(circulation.dueDate, now),
+            not(noticeSent("overdue", overdueNoticeIntervalDays > 0
+              ? new Date(now.getTime() - overdueNoticeIntervalDays * DAY_MS)
+              : undefined)),
+          ),
+        ),
+      ))
+      .orderBy(asc(circulation.dueDate), asc(circulation.id));
+
+    return rows.map(({ loan, book, copy, member }) => ({
+      kind: loan.dueDate! < now ? "overdue" : "due_soon",
+      loan,
+      book,
+      copy,
+      member,
+    }));
+  }
+
+  async getNotices(query: NoticeListQuery = noticeListQuerySchema.parse({})): Promise<Paginated<NoticeWithDetails>> {
+    const where = and(
+      query.kind ? eq(notices.kind, query.kind) : undefined,
+      query.channel ? eq(notices.channel, query.channel) : undefined,
+      query.status ? eq(notices.status, query.status) : undefined,
+      query.memberId ? eq(notices.memberId, query.memberId) : undefined,
+    );
+
+    const rows = await withPage(
+      db
+        .select({ notice: notices, member: members, book: books })
+        .from(notices)
+        .innerJoin(members, eq(notices.memberId, members.id))
+        .innerJoin(circulation, eq(notices.circulationId, circulation.id))
+        .innerJoin(books, eq(circulation.bookId, books.id))
+        .where(where)
+        .orderBy(sortBy(notices[query.sortBy], query.sortDir), sortBy(notices.id, query.sortDir))
+        .$dynamic(),
+      query,
+    );
+    const items = rows.map(({ notice, member, book }) => ({ ...notice, member, book }));
+    return await toPage(items, query, async () => {
+      const [{ total }] = await db.select({ total: count() }).from(notices).where(where);
+      return total;
+    });
+  }
+
+  async getNotice(id: number): Promise<Notice | undefined> {
+    const [notice] = await db.select().from(notices).where(eq(notices.id, id));
+    return notice || undefined;
+  }
+
+  async getRetryableNotices(maxAttempts: number): Promise<Notice[]> {
+    return await db
+      .select()
+      .from(notices)
+      .where(and(eq(notices.status, "failed"), lt(notices.attempts, maxAttempts)))
+      .orderBy(asc(notices.id));
+  }
+
+  // Returns undefined when the loan already has this due-soon notice
+  async createNotice(notice: typeof notices.$inferInsert): Promise<Notice | undefined> {
+    return await this.transaction(async (tx) => {
+      const [newNotice] = await tx
+        .insert(notices)
+        .values({ ...notice, createdAt: new Date() })
+        .onConflictDoNothing()
+        .returning();
+      if (newNotice) this.pendingChanges.get(tx)?.add("notice");
+      return newNotice;
+    });
+  }
+
+  // Records the outcome of a delivery attempt, and the recipient tried when
+  // it was looked up again
+  async recordNoticeAttempt(id: number, { status, error = null, recipient }: NoticeAttempt): Promise<Notice | undefined> {
+    return await this.transaction(async (tx) => {
+      const [notice] = await tx
+        .update(notices)
+        .set({
+          status,
+          error,
+          recipient,
+          attempts: sql`${notices.attempts} + 1`,
+          sentAt: status === "sent" ? new Date() : undefined,
+        })
+        .where(eq(notices.id, id))
+        .returning();
+      if (notice) this.pendingChanges.get(tx)?.add("notice");
+      return notice || undefined;
+    });
+  }
+
+  // Notifications
+  async getNotifications(kinds: NotificationKind[], limit: number): Promise<NotificationFeed> {
+    if (kinds.length === 0) return { items: [], unreadCount: 0 };
+    const items = await db
+      .select()
+      .from(notifications)
+      .where(inArray(notifications.kind, kinds))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+    const [{ unreadCount }] = await db
+      .select({ unreadCount: count() })
+      .from(notifications)
+      .where(and(inArray(notifications.kind, kinds), isNull(notifications.readAt)));
+    return { items, unreadCount };
+  }
+
+  // Only notifications of the given kinds are marked, so staff cannot clear
+  // ones they are not shown
+  async markNotificationsRead(kinds: NotificationKind[], ids?: number[]): Promise<number> {
+    if (kinds.length === 0 || ids?.length === 0) return 0;
+    const marked = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        inArray(notifications.kind, kinds),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined,
+      ))
+      .returning({ id: notifications.id });
+    if (marked.length > 0) publishChanges(["notification" as const]);
+    return marked.length;
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification | undefined> {
+    return await this.transaction(async (tx) => this.notify(tx, notification));
+  }
+
+  // Notifies each loan that has become overdue in the last 25 hours. The job
+  // runs hourly, so the window overlaps the previous runs (including the last
+  // one before midnight) and the dedupe key keeps it to one notification per
+  // due date; a renewed loan is notified again if it lapses.
+  async notifyOverdueLoans(): Promise<number> {
+    const now = new Date();
+    const since = new Date(now.getTime() - OVERDUE_NOTIFICATION_WINDOW_MS);
+
+    const loans = await db
+      .select({ loan: circulation, title: books.title, fullName: members.fullName })
+      .from(circulation)
+      .innerJoin(books, eq(circulation.bookId, books.id))
+      .innerJoin(members, eq(circulation.memberId, members.id))
+      .where(and(
+        eq(circulation.action, "borrow"),
+        eq(circulation.status, "active"),
+        gte(circulation.dueDate, since),
+        lt(circulation.dueDate, now),
+      ))
+      .orderBy(asc(circulation.dueDate), asc(circulation.id));
+
+    let created = 0;
+    for (const { loan, title, fullName } of loans) {
+      const notification = await this.createNotification({
+        kind: "overdue",
+        title: "Book now overdue",
+        message: `"${title}" borrowed by ${fullName} was due on ${loan.dueDate!.toLocaleDateString("en-GB")} and has not been returned.`,
+        dedupeKey: `overdue:${loan.id}:${loan.dueDate!.toISOString()}`,
+      });
+      if (notification) created++;
+    }
+    return created;
+  }
+
   // Analytics
   async getMostReadBooks(): Promise<{ book: Book; borrowCount: number }[]> {
     const borrowRecords = await db
@@ -359,19 +2298,23 @@ export class DatabaseStorage implements IStorage {
     return results.sort((a, b) => b.borrowCount - a.borrowCount);
   }
 
-  async getIssuedBooks(): Promise<{ book: Book; member: Member; dueDate: Date | null }[]> {
+  async getIssuedBooks(): Promise<IssuedBook[]> {
     const activeCirculation = await this.getActiveCirculation();
-    const results: { book: Book; member: Member; dueDate: Date | null }[] = [];
+    const results: IssuedBook[] = [];
     
     for (const record of activeCirculation) {
       const book = await this.getBook(record.bookId);
       const member = await this.getMember(record.memberId);
+      const copy = record.copyId ? await this.getBookCopy(record.copyId) : undefined;
       
       if (book && member) {
         results.push({
+          circulationId: record.id,
           book,
+          copy: copy ?? null,
           member,
           dueDate: record.dueDate,
+          renewalCount: record.renewalCount,
         });
       }
     }
@@ -395,6 +2338,149 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(bookReviews).where(eq(bookReviews.memberId, memberId));
   }
 
+  // Admin users
+  async getAdminUsers(): Promise<AdminUser[]> {
+    return await db.select().from(adminUsers).orderBy(adminUsers.username);
+  }
+
+  async getAdminUser(id: number): Promise<AdminUser | undefined> {
+    const [user] = await db.select().from(adminUsers).where(eq(adminUsers.id, id));
+    return user || undefined;
+  }
+
+  async getAdminUserByUsername(username: string): Promise<AdminUser | undefined> {
+    const [user] = await db.select().from(adminUsers).where(eq(adminUsers.username, username));
+    return user || undefined;
+  }
+
+  async createAdminUser(user: InsertAdminUser): Promise<AdminUser> {
+    return await this.transaction(async (tx) => {
+      const [newUser] = await tx
+        .insert(adminUsers)
+        .values({
+          ...user,
+          createdAt: new Date(),
+        })
+        .returning();
+      await this.audit(tx, "create", "staff", newUser.id, null, newUser);
+      return newUser;
+    });
+  }
+
+  async updateAdminUser(id: number, updates: Partial<AdminUser>): Promise<AdminUser | undefined> {
+    return await this.transaction(async (tx) => {
+      const [user] = await tx.select().from(adminUsers).where(eq(adminUsers.id, id)).for("update");
+      if (!user) return undefined;
+      const [updatedUser] = await tx
+        .update(adminUsers)
+        .set(updates)
+        .where(eq(adminUsers.id, id))
+        .returning();
+      await this.audit(tx, "update", "staff", id, user, updatedUser);
+      return updatedUser;
+    });
+  }
+
+  async deleteAdminUser(id: number): Promise<boolean> {
+    return await this.transaction(async (tx) => {
+      const [deleted] = await tx.delete(adminUsers).where(eq(adminUsers.id, id)).returning();
+      if (!deleted) return false;
+      await this.audit(tx, "delete", "staff", id, deleted, null);
+      return true;
+    });
+  }
+
+  async countAdminUsers(role?: string): Promise<number> {
+    const [{ value }] = await db
+      .select({ value: count() })
+      .from(adminUsers)
+      .where(role ? eq(adminUsers.role, role) : undefined);
+    return value;
+  }
+
+  // Audit log
+  async getAuditLog(query: AuditListQuery = auditListQuerySchema.parse({})): Promise<Paginated<AuditEntry>> {
+    const pattern = query.q ? containsPattern(query.q) : undefined;
+    const where = and(
+      pattern ? or(
+        ilike(auditLog.actorName, pattern),
+        ilike(auditLog.entityId, pattern),
+        ilike(sql`${auditLog.before}::text`, pattern),
+        ilike(sql`${auditLog.after}::text`, pattern),
+      ) : undefined,
+      query.actorId ? eq(auditLog.actorId, query.actorId) : undefined,
+      query.action ? eq(auditLog.action, query.action) : undefined,
+      query.entityType ? eq(auditLog.entityType, query.entityType) : undefined,
+      query.entityId ? eq(auditLog.entityId, query.entityId) : undefined,
+      // `to` is exclusive, as for the circulation list
+      query.from ? gte(auditLog.createdAt, query.from) : undefined,
+      query.to ? lt(auditLog.createdAt, query.to) : undefined,
+    );
+
+    const items = await withPage(
+      db
+        .select()
+        .from(auditLog)
+        .where(where)
+        .orderBy(sortBy(auditLog[query.sortBy], query.sortDir), sortBy(auditLog.id, query.sortDir))
+        .$dynamic(),
+      query,
+    );
+    return await toPage(items, query, async () => {
+      const [{ total }] = await db.select({ total: count() }).from(auditLog).where(where);
+      return total;
+    });
+  }
+
+  // Runs a transaction and, once it has committed, tells open dashboards
+  // which kinds of record it changed (see audit and notify)
+  private async transaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T> {
+    const changed = new Set<LiveEntityType>();
+    const result = await db.transaction(async (tx) => {
+      this.pendingChanges.set(tx, changed);
+      return await work(tx);
+    });
+    publishChanges(changed);
+    return result;
+  }
+
+  // Adds a notification in the same transaction as the change it reports.
+  // Returns undefined when one with the same dedupeKey already exists.
+  private async notify(tx: Transaction, notification: InsertNotification): Promise<Notification | undefined> {
+    const [created] = await tx
+      .insert(notifications)
+      .values({ ...notification, createdAt: new Date() })
+      .onConflictDoNothing({ target: notifications.dedupeKey })
+      .returning();
+    if (created) this.pendingChanges.get(tx)?.add("notification");
+    return created;
+  }
+
+  // Records a change in the audit log, in the same transaction as the change
+  // itself, attributed to the signed-in user of the current request.
+  private async audit(
+    tx: Transaction,
+    action: string,
+    entityType: AuditEntityType,
+    entityId: number | string | null,
+    before: object | null,
+    after: object | null,
+  ) {
+    const changes = diffForAudit(before, after);
+    if (!changes) return;
+    this.pendingChanges.get(tx)?.add(entityType);
+    const actor = currentAuditActor();
+    await tx.insert(auditLog).values({
+      actorId: actor?.id ?? null,
+      actorName: actor?.username ?? null,
+      action,
+      entityType,
+      entityId: entityId === null ? null : String(entityId),
+      before: changes.before,
+      after: changes.after,
+      createdAt: new Date(),
+    });
+  }
 }
 
 export const storage = new DatabaseStorage();
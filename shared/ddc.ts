@@ -0,0 +1,110 @@
+// Dewey Decimal Classification: the ten main classes and their divisions
+// (the DDC second summary). Division names are listed in code order, so the
+// division at index 2 of class 800 is 820.
+export const DDC_CLASSES = [
+  {
+    code: "000",
+    name: "Computer science, information & general works",
+    divisions: [
+      "Computer science, knowledge & systems", "Bibliographies", "Library & information sciences",
+      "Encyclopedias & books of facts", "Unassigned", "Magazines, journals & serials",
+      "Associations, organizations & museums", "News media, journalism & publishing", "Quotations",
+      "Manuscripts & rare books",
+    ],
+  },
+  {
+    code: "100",
+    name: "Philosophy & psychology",
+    divisions: [
+      "Philosophy", "Metaphysics", "Epistemology", "Parapsychology & occultism",
+      "Philosophical schools of thought", "Psychology", "Philosophical logic", "Ethics",
+      "Ancient, medieval & eastern philosophy", "Modern western philosophy",
+    ],
+  },
+  {
+    code: "200",
+    name: "Religion",
+    divisions: [
+      "Religion", "Philosophy & theory of religion", "The Bible", "Christianity", "Christian practice & observance",
+      "Christian pastoral practice & religious orders", "Christian organization, social work & worship",
+      "History of Christianity", "Christian denominations", "Other religions",
+    ],
+  },
+  {
+    code: "300",
+    name: "Social sciences",
+    divisions: [
+      "Social sciences, sociology & anthropology", "Statistics", "Political science", "Economics", "Law",
+      "Public administration & military science", "Social problems & social services", "Education",
+      "Commerce, communications & transportation", "Customs, etiquette & folklore",
+    ],
+  },
+  {
+    code: "400",
+    name: "Language",
+    divisions: [
+      "Language", "Linguistics", "English & Old English languages", "German & related languages",
+      "French & related languages", "Italian, Romanian & related languages", "Spanish, Portuguese & Galician",
+      "Latin & Italic languages", "Classical & modern Greek languages", "Other languages",
+    ],
+  },
+  {
+    code: "500",
+    name: "Science",
+    divisions: [
+      "Science", "Mathematics", "Astronomy", "Physics", "Chemistry", "Earth sciences & geology",
+      "Fossils & prehistoric life", "Biology", "Plants (Botany)", "Animals (Zoology)",
+    ],
+  },
+  {
+    code: "600",
+    name: "Technology",
+    divisions: [
+      "Technology", "Medicine & health", "Engineering", "Agriculture", "Home & family management",
+      "Management & public relations", "Chemical engineering", "Manufacturing", "Manufacture for specific uses",
+      "Construction of buildings",
+    ],
+  },
+  {
+    code: "700",
+    name: "Arts & recreation",
+    divisions: [
+      "Arts", "Area planning & landscape architecture", "Architecture", "Sculpture, ceramics & metalwork",
+      "Graphic arts & decorative arts", "Painting", "Printmaking & prints", "Photography, computer art, film & video",
+      "Music", "Sports, games & entertainment",
+    ],
+  },
+  {
+    code: "800",
+    name: "Literature",
+    divisions: [
+      "Literature, rhetoric & criticism", "American literature in English", "English & Old English literatures",
+      "German & related literatures", "French & related literatures", "Italian, Romanian & related literatures",
+      "Spanish, Portuguese & Galician literatures", "Latin & Italic literatures",
+      "Classical & modern Greek literatures", "Other literatures",
+    ],
+  },
+  {
+    code: "900",
+    name: "History & geography",
+    divisions: [
+      "History", "Geography & travel", "Biography & genealogy", "History of the ancient world",
+      "History of Europe", "History of Asia", "History of Africa", "History of North America",
+      "History of South America", "History of other areas",
+    ],
+  },
+];
+
+// Normalises a DDC call number as typed: a class number of up to three
+// digits, padded to three, with an optional decimal part, then an optional
+// book number such as an author mark: "823,914 sha" and "823/.914 SHA"
+// both become "823.914 SHA", and "82" becomes "082". Returns null when the
+// value does not start with a class number.
+export function normalizeDdc(value: string): string | null {
+  const match = /^(\d{1,3})(?:[.,](\d*))?(?:\s+(\S.*))?$/.exec(value.trim().replace(/[/'\u2032]/g, ""));
+  if (!match) return null;
+  const [, whole, fraction, bookNumber] = match;
+  return whole.padStart(3, "0")
+    + (fraction ? `.${fraction}` : "")
+    + (bookNumber ? ` ${bookNumber.replace(/\s+/g, " ").toUpperCase()}` : "");
+}
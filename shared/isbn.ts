@@ -0,0 +1,36 @@
+// ISBN checks and conversion. Books store ISBN-13; ISBN-10s are converted
+// on the way in and can be shown alongside for older titles.
+
+function isbn10CheckDigit(first9: string) {
+  const sum = Array.from(first9).reduce((total, digit, i) => total + Number(digit) * (10 - i), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? "X" : String(check);
+}
+
+function isbn13CheckDigit(first12: string) {
+  const sum = Array.from(first12).reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+// Validates an ISBN-10 or ISBN-13 as typed or scanned, ignoring hyphens and
+// spaces, and returns it as an ISBN-13. Returns null for anything else,
+// including a wrong check digit.
+export function normalizeIsbn(value: string): string | null {
+  const isbn = value.replace(/[\s-]/g, "").toUpperCase();
+  if (/^\d{9}[\dX]$/.test(isbn)) {
+    if (isbn10CheckDigit(isbn.slice(0, 9)) !== isbn[9]) return null;
+    const first12 = `978${isbn.slice(0, 9)}`;
+    return first12 + isbn13CheckDigit(first12);
+  }
+  if (/^97[89]\d{10}$/.test(isbn)) {
+    return isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12] ? isbn : null;
+  }
+  return null;
+}
+
+// The ISBN-10 form of an ISBN-13, which only exists for the 978 prefix
+export function isbn13To10(isbn13: string): string | null {
+  if (!/^978\d{10}$/.test(isbn13)) return null;
+  const first9 = isbn13.slice(3, 12);
+  return first9 + isbn10CheckDigit(first9);
+}
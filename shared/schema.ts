@@ -1,17 +1,55 @@
-import { pgTable, text, serial, integer, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, jsonb, unique, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { normalizeDdc } from "./ddc";
+import { normalizeIsbn } from "./isbn";
 
 export const books = pgTable("books", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   author: text("author").notNull(),
-  category: text("category").notNull(),
+  categoryId: integer("category_id").references(() => categories.id), // set for every book; nullable only until data-migrations.ts links older rows
+  category: text("category").notNull(), // name of categoryId, kept in step by storage for search and circulation policies
   language: text("language").notNull(),
   price: integer("price").notNull(), // in cents
   publisher: text("publisher").notNull(),
   ddc: text("ddc").notNull(),
-  coverImage: text("cover_image"),
+  isbn: text("isbn"), // ISBN-13; ISBN-10s are converted when saved
+  edition: text("edition"),
+  publicationYear: integer("publication_year"),
+  pageCount: integer("page_count"),
+  subjects: text("subjects").array().notNull().default([]),
+  notes: text("notes"),
+  coverImage: text("cover_image"), // "/covers/<key>" for an uploaded cover (server/covers.ts), or an image URL
+  status: text("status").notNull().default("available"), // summary of copies: available, issued, reserved
+  archivedAt: timestamp("archived_at"), // set when deleted; archived books stay in history but leave the catalogue
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Catalogue data loaded from a bibliographic dump (server/load-open-library.ts),
+// used to fill in new books by ISBN without a network lookup
+export const bibliographicRecords = pgTable("bibliographic_records", {
+  isbn: text("isbn").primaryKey(), // ISBN-13
+  title: text("title").notNull(),
+  authors: text("authors"),
+  publisher: text("publisher"),
+  publicationYear: integer("publication_year"),
+  pageCount: integer("page_count"),
+  edition: text("edition"),
+  subjects: text("subjects").array().notNull().default([]),
+  ddc: text("ddc"),
+  language: text("language"),
+  source: text("source").notNull(), // where the record came from, e.g. "openlibrary:/books/OL7353617M"
+});
+
+// A physical item of a title in `books`, identified by its accession number
+export const bookCopies = pgTable("book_copies", {
+  id: serial("id").primaryKey(),
+  bookId: integer("book_id").references(() => books.id).notNull(),
+  accessionNo: text("accession_no").notNull().unique(),
+  shelfLocation: text("shelf_location"),
+  acquisitionDate: timestamp("acquisition_date"),
   status: text("status").notNull().default("available"), // available, issued, reserved
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -21,12 +59,17 @@ export const members = pgTable("members", {
   fullName: text("full_name").notNull(),
   class: text("class").notNull(),
   registrationNo: text("registration_no").notNull().unique(),
+  email: text("email"), // for due-date reminders
+  phone: text("phone"), // for SMS and WhatsApp reminders, with country code, e.g. +919876543210
+  archivedAt: timestamp("archived_at"), // set when the member leaves; archived members cannot borrow
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const categories = pgTable("categories", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
+  parentId: integer("parent_id").references((): AnyPgColumn => categories.id), // null for a top-level category
+  archivedAt: timestamp("archived_at"), // set when deleted; hidden from category pickers
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -52,31 +95,315 @@ export const bookReviews = pgTable("book_reviews", {
 export const circulation = pgTable("circulation", {
   id: serial("id").primaryKey(),
   bookId: integer("book_id").references(() => books.id).notNull(),
+  copyId: integer("copy_id").references(() => bookCopies.id),
   memberId: integer("member_id").references(() => members.id).notNull(),
   action: text("action").notNull(), // borrow, return
   date: timestamp("date").defaultNow(),
   dueDate: timestamp("due_date"),
   returnDate: timestamp("return_date"),
+  renewalCount: integer("renewal_count").notNull().default(0),
   status: text("status").notNull().default("active"), // active, returned, overdue
 });
 
+// Each renewal of a loan, with the due date it replaced
+export const circulationRenewals = pgTable("circulation_renewals", {
+  id: serial("id").primaryKey(),
+  circulationId: integer("circulation_id").references(() => circulation.id).notNull(),
+  previousDueDate: timestamp("previous_due_date"),
+  newDueDate: timestamp("new_due_date").notNull(),
+  renewedBy: integer("renewed_by").references(() => adminUsers.id, { onDelete: "set null" }), // the audit log keeps who it was
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const reservations = pgTable("reservations", {
+  id: serial("id").primaryKey(),
+  bookId: integer("book_id").references(() => books.id).notNull(),
+  memberId: integer("member_id").references(() => members.id).notNull(),
+  copyId: integer("copy_id").references(() => bookCopies.id), // set once a returned copy is held for the member
+  status: text("status").notNull().default("waiting"), // waiting, ready, fulfilled, cancelled, expired
+  createdAt: timestamp("created_at").defaultNow(),
+  readyAt: timestamp("ready_at"),
+  expiresAt: timestamp("expires_at"),
+});
+
+// Lending rules for a member class and/or book category. A null class or
+// category matches anything; the most specific matching policy applies.
+export const circulationPolicies = pgTable("circulation_policies", {
+  id: serial("id").primaryKey(),
+  memberClass: text("member_class"),
+  category: text("category"),
+  loanPeriodDays: integer("loan_period_days").notNull().default(14),
+  maxLoans: integer("max_loans"), // simultaneous loans; null = no limit
+  maxRenewals: integer("max_renewals").notNull().default(2),
+  loanable: boolean("loanable").notNull().default(true), // false = reference only
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // One policy per scope, counting "any class"/"any category" as a value
+  unique("circulation_policies_scope_unique").on(table.memberClass, table.category).nullsNotDistinct(),
+]);
+
+// One row per overdue loan, raised when the late item is returned
+export const fines = pgTable("fines", {
+  id: serial("id").primaryKey(),
+  memberId: integer("member_id").references(() => members.id).notNull(),
+  bookId: integer("book_id").references(() => books.id).notNull(),
+  circulationId: integer("circulation_id").references(() => circulation.id).notNull().unique(),
+  daysOverdue: integer("days_overdue").notNull(),
+  ratePerDay: integer("rate_per_day").notNull(), // in rupees
+  amount: integer("amount").notNull(), // in rupees
+  paidAmount: integer("paid_amount").notNull().default(0),
+  waivedAmount: integer("waived_amount").notNull().default(0),
+  status: text("status").notNull().default("outstanding"), // outstanding, settled
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const finePayments = pgTable("fine_payments", {
+  id: serial("id").primaryKey(),
+  fineId: integer("fine_id").references(() => fines.id).notNull(),
+  kind: text("kind").notNull(), // payment, waiver
+  amount: integer("amount").notNull(), // in rupees
+  reason: text("reason"),
+  recordedBy: integer("recorded_by").references(() => adminUsers.id, { onDelete: "set null" }), // the audit log keeps who it was
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Wording of each kind of reminder, with {{placeholders}} filled per loan
+// (see noticePlaceholders). Kinds without a row use defaultNoticeTemplates.
+export const noticeTemplates = pgTable("notice_templates", {
+  kind: text("kind").primaryKey(), // see noticeKinds
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Every reminder generated for a loan, one row per channel it went out on.
+// `dueDate` is the loan's due date at the time, so a renewed loan is
+// reminded again.
+export const notices = pgTable("notices", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // due_soon, overdue
+  circulationId: integer("circulation_id").references(() => circulation.id).notNull(),
+  memberId: integer("member_id").references(() => members.id).notNull(),
+  channel: text("channel").notNull(), // email, sms, whatsapp, log
+  recipient: text("recipient"), // address or number used; null when skipped
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  dueDate: timestamp("due_date").notNull(),
+  status: text("status").notNull().default("pending"), // pending, sent, failed, skipped
+  error: text("error"), // why the last attempt failed or was skipped
+  attempts: integer("attempts").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+}, (table) => [
+  // A loan is reminded once per due date and channel before it falls due;
+  // overdue notices repeat, so they are not covered
+  uniqueIndex("notices_due_soon_once_idx")
+    .on(table.circulationId, table.kind, table.dueDate, table.channel)
+    .where(sql`${table.kind} = 'due_soon'`),
+]);
+
+// In-app notifications for staff, listed behind the bell in the admin header.
+// Read state is shared: a notification one staff member has read is read for
+// everyone who can see it.
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // suggestion, review, overdue, hold_ready, book_import_failed, member_import_failed
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  dedupeKey: text("dedupe_key").unique(), // set when the same event must not be notified twice
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Library-wide configuration stored as key/value pairs
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(),
+  value: text("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const adminUsers = pgTable("admin_users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  fullName: text("full_name"),
+  passwordHash: text("password_hash").notNull(), // scrypt, "hash.salt"
+  role: text("role").notNull().default("librarian"), // librarian, assistant, auditor
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Who changed what. The actor is copied rather than referenced so entries
+// outlive deleted staff accounts; it is null for public submissions and
+// background jobs. Updates store only the changed fields.
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"),
+  actorName: text("actor_name"),
+  action: text("action").notNull(), // create, update, delete, issue, return, ...
+  entityType: text("entity_type").notNull(), // see auditEntityTypes
+  entityId: text("entity_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const auditEntityTypes = [
+  "book", "copy", "member", "category", "suggestion", "review", "circulation",
+  "policy", "reservation", "fine", "settings", "staff", "template",
+] as const;
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+// Roles & permissions
+export const staffRoles = ["librarian", "assistant", "auditor"] as const;
+export type StaffRole = typeof staffRoles[number];
+
+export const staffRoleLabels: Record<StaffRole, string> = {
+  librarian: "Head Librarian",
+  assistant: "Assistant",
+  auditor: "Auditor (read-only)",
+};
+
+export const permissions = [
+  "catalogue:edit",     // add and edit books
+  "categories:manage",  // add, rename and delete categories
+  "members:manage",     // add and edit members
+  "records:delete",     // delete books and members, and empty the trash
+  "circulation:manage", // issue and return books, take fine payments
+  "fines:manage",       // waive fines and set the fine rate
+  "policies:manage",    // loan periods and borrowing limits
+  "history:view",       // circulation history and member records
+  "reports:view",       // analytics reports
+  "feedback:view",      // book suggestions and reviews
+  "staff:manage",       // staff accounts and roles
+  "audit:view",         // audit log of every change
+  "notices:manage",     // reminder templates and notice delivery
+] as const;
+export type Permission = typeof permissions[number];
+
+export const rolePermissions: Record<StaffRole, readonly Permission[]> = {
+  librarian: permissions,
+  assistant: ["circulation:manage"],
+  auditor: ["history:view", "reports:view", "feedback:view", "audit:view"],
+};
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return rolePermissions[role as StaffRole]?.includes(permission) ?? false;
+}
+
 // Insert schemas
 export const insertBookSchema = createInsertSchema(books).omit({
   id: true,
+  category: true,
   createdAt: true,
   status: true,
+  archivedAt: true,
 });
 
-export const insertMemberSchema = createInsertSchema(members).omit({
+export const createBookSchema = insertBookSchema.extend({
+  categoryId: z.number().int().positive(),
+  ddc: z.string().transform((value, ctx) => {
+    const ddc = normalizeDdc(value);
+    if (ddc === null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be a Dewey number such as 823.914" });
+      return z.NEVER;
+    }
+    return ddc;
+  }),
+  isbn: z.string().nullish().transform((value, ctx) => {
+    if (!value?.trim()) return null;
+    const isbn = normalizeIsbn(value);
+    if (isbn === null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be a valid ISBN-10 or ISBN-13" });
+      return z.NEVER;
+    }
+    return isbn;
+  }),
+  publicationYear: z.number().int().min(1000).max(new Date().getFullYear() + 1).nullish(),
+  pageCount: z.number().int().positive().nullish(),
+  subjects: z.array(z.string().trim().min(1)).max(50).default([]),
+  copies: z.number().int().min(1).max(100).default(1),
+  shelfLocation: z.string().optional(),
+});
+
+// Edits validate like creation but only change the fields sent. Copies are
+// managed one by one, status follows them, and covers change only through
+// /api/books/:id/cover, which also manages the files.
+export const updateBookSchema = createBookSchema
+  .omit({ copies: true, shelfLocation: true, coverImage: true })
+  .partial();
+
+// A catalogue import row names its category; storage resolves the name,
+// creating the category if it is new
+export const importedBookSchema = createBookSchema.omit({ categoryId: true }).extend({
+  category: z.string().trim().min(1),
+});
+
+// Renditions stored for an uploaded cover, smallest first
+export const coverSizes = ["thumb", "medium", "large"] as const;
+
+// Form fields sent with a catalogue import upload
+export const bookImportOptionsSchema = z.object({
+  skipDuplicates: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+});
+
+// MARC records carry no local category, so a MARC upload names the one to
+// file its books under
+export const marcImportPreviewSchema = z.object({
+  category: z.string().trim().min(1, "Choose a category for the imported records"),
+});
+
+export const marcImportOptionsSchema = bookImportOptionsSchema.merge(marcImportPreviewSchema);
+
+export const insertBookCopySchema = createInsertSchema(bookCopies, {
+  accessionNo: (schema) => schema.trim().min(1).optional(),
+  acquisitionDate: z.coerce.date().nullish(),
+}).omit({
   id: true,
+  bookId: true,
   createdAt: true,
+  status: true,
+});
+
+// Blank contact details are stored as null
+export const insertMemberSchema = createInsertSchema(members, {
+  email: z.string().trim().email("Must be an email address").or(z.literal("")).nullish().transform((value) => value || null),
+  phone: z.string().trim().regex(/^\+?[\d\s-]{7,20}$/, "Must be a phone number such as +919876543210").or(z.literal(""))
+    .nullish().transform((value) => value?.replace(/[\s-]/g, "") || null),
+}).omit({
+  id: true,
+  archivedAt: true,
+  createdAt: true,
+});
+
+// Form fields sent with a roster import upload. `archiveMissing` archives
+// active members absent from the roster: none, only those in the classes the
+// roster lists, or all of them.
+export const memberImportOptionsSchema = z.object({
+  updateConflicts: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+  archiveMissing: z.enum(["none", "classes", "all"]).default("none"),
+});
+
+export const promoteClassSchema = z.object({
+  fromClass: z.string().trim().min(1),
+  toClass: z.string().trim().min(1),
+}).refine((data) => data.fromClass !== data.toClass, {
+  message: "Choose a different class to promote to",
+  path: ["toClass"],
 });
 
-export const insertCategorySchema = createInsertSchema(categories).omit({
+export const insertCategorySchema = createInsertSchema(categories, {
+  parentId: (schema) => schema.int().positive(),
+}).omit({
   id: true,
+  archivedAt: true,
   createdAt: true,
 });
 
+// Deleting a category that still has books needs another category to move
+// them to
+export const deleteCategoryQuerySchema = z.object({
+  replacementId: z.coerce.number().int().positive().optional(),
+});
+
 export const insertBookSuggestionSchema = createInsertSchema(bookSuggestions).omit({
   id: true,
   createdAt: true,
@@ -92,18 +419,430 @@ export const insertCirculationSchema = createInsertSchema(circulation).omit({
   id: true,
   date: true,
   status: true,
+  renewalCount: true,
+});
+
+export const issueBookSchema = z.object({
+  bookId: z.number().int().positive(),
+  copyId: z.number().int().positive().optional(),
+  memberId: z.number().int().positive(),
+});
+
+export const returnBookSchema = z
+  .object({
+    copyId: z.number().int().positive().optional(),
+    bookId: z.number().int().positive().optional(),
+  })
+  .refine((data) => data.copyId || data.bookId, { message: "copyId or bookId is required" });
+
+// One scan at the circulation desk: a member's registration number, a copy's
+// accession number or a book id. Scanning a book while a member is active
+// issues it to them; scanning it without one returns it. `target` settles a
+// code that is both a registration number and an accession number.
+export const deskScanSchema = z.object({
+  code: z.string().trim().min(1).max(100),
+  memberId: z.number().int().positive().optional(),
+  target: z.enum(["member", "book"]).optional(),
+});
+
+export const insertReservationSchema = createInsertSchema(reservations).pick({
+  bookId: true,
+  memberId: true,
+});
+
+export const insertCirculationPolicySchema = createInsertSchema(circulationPolicies, {
+  memberClass: (schema) => schema.trim().min(1),
+  category: (schema) => schema.trim().min(1),
+  loanPeriodDays: (schema) => schema.int().min(1).max(365),
+  maxLoans: (schema) => schema.int().min(0),
+  maxRenewals: (schema) => schema.int().min(0),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Applies when no policy in the table matches
+export const defaultCirculationPolicy: Omit<CirculationPolicy, "id" | "createdAt"> = {
+  memberClass: null,
+  category: null,
+  loanPeriodDays: 14,
+  maxLoans: null,
+  maxRenewals: 2,
+  loanable: true,
+};
+
+export const fineTransactionSchema = z
+  .object({
+    kind: z.enum(["payment", "waiver"]),
+    amount: z.number().int().positive(),
+    reason: z.string().trim().optional(),
+  })
+  .refine((data) => data.kind !== "waiver" || !!data.reason, {
+    message: "A reason is required when waiving a fine",
+    path: ["reason"],
+  });
+
+export const librarySettingsSchema = z.object({
+  fineRatePerDay: z.number().int().min(0),
+  fineBlockThreshold: z.number().int().min(0),
+  dueReminderDays: z.number().int().min(0).max(30), // 0 = no due-date reminders
+  overdueNoticeIntervalDays: z.number().int().min(0).max(90), // 0 = one overdue notice only
+});
+
+// Fine and reminder settings are changed by different staff
+export const fineSettingsSchema = librarySettingsSchema.pick({ fineRatePerDay: true, fineBlockThreshold: true });
+export const reminderSettingsSchema = librarySettingsSchema.pick({ dueReminderDays: true, overdueNoticeIntervalDays: true });
+
+export const defaultLibrarySettings: LibrarySettings = {
+  fineRatePerDay: 1,
+  fineBlockThreshold: 50,
+  dueReminderDays: 2,
+  overdueNoticeIntervalDays: 7,
+};
+
+// Reminders
+export const noticeKinds = ["due_soon", "overdue"] as const;
+export const noticeChannels = ["email", "sms", "whatsapp", "log"] as const;
+export const noticeStatuses = ["pending", "sent", "failed", "skipped"] as const;
+
+export const noticeKindLabels: Record<NoticeKind, string> = {
+  due_soon: "Due soon",
+  overdue: "Overdue",
+};
+
+// Placeholders a template may use, with what each is replaced by
+export const noticePlaceholders = {
+  memberName: "Member's full name",
+  registrationNo: "Member's registration number",
+  bookTitle: "Title of the borrowed book",
+  author: "Author of the book",
+  accessionNo: "Accession number of the copy",
+  dueDate: "Due date, e.g. 12 Mar 2025",
+  daysLeft: "Days until the due date",
+  daysOverdue: "Days past the due date",
+  fineSoFar: "Fine the loan would cost if returned today, in rupees",
+} as const;
+
+export const defaultNoticeTemplates: Record<NoticeKind, { subject: string; body: string }> = {
+  due_soon: {
+    subject: "Library book due on {{dueDate}}",
+    body: "Dear {{memberName}}, \"{{bookTitle}}\" is due back at the library on {{dueDate}} ({{daysLeft}} day(s) from now). Please return or renew it by then.",
+  },
+  overdue: {
+    subject: "Overdue library book: {{bookTitle}}",
+    body: "Dear {{memberName}}, \"{{bookTitle}}\" was due on {{dueDate}} and is {{daysOverdue}} day(s) overdue. The fine so far is Rs. {{fineSoFar}}. Please return it as soon as possible.",
+  },
+};
+
+export const noticeTemplateSchema = z.object({
+  subject: z.string().trim().min(1, "Subject is required").max(200),
+  body: z.string().trim().min(1, "Message is required").max(2000),
+});
+
+export const notificationKinds = [
+  "suggestion", "review", "overdue", "hold_ready", "book_import_failed", "member_import_failed",
+] as const;
+
+// Staff see the notifications their role can act on
+export const notificationKindPermissions: Record<NotificationKind, Permission> = {
+  suggestion: "feedback:view",
+  review: "feedback:view",
+  overdue: "circulation:manage",
+  hold_ready: "circulation:manage",
+  book_import_failed: "catalogue:edit",
+  member_import_failed: "members:manage",
+};
+
+export function visibleNotificationKinds(role: string): NotificationKind[] {
+  return notificationKinds.filter((kind) => hasPermission(role, notificationKindPermissions[kind]));
+}
+
+// Marks the given notifications read, or every visible one without `ids`
+export const notificationReadSchema = z.object({
+  ids: z.array(z.number().int()).max(500).optional(),
+});
+
+// List queries. Query-string values arrive as strings, hence the coercion.
+// Without `page` the endpoints return every matching row as a plain array.
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  sortDir: z.enum(["asc", "desc"]).default("asc"),
+});
+
+export const bookListQuerySchema = listQuerySchema.extend({
+  sortBy: z.enum(["title", "author", "category", "language", "createdAt"]).default("title"),
+  q: z.string().trim().optional(),
+  status: z.string().optional(),
+  category: z.string().optional(),
+  language: z.string().optional(),
+  // DDC class or division prefix from the browse tree, e.g. "8" or "82"
+  ddc: z.string().regex(/^\d{1,3}$/).optional(),
+});
+
+export const memberListQuerySchema = listQuerySchema.extend({
+  sortBy: z.enum(["fullName", "class", "registrationNo", "createdAt"]).default("fullName"),
+  q: z.string().trim().optional(),
+  class: z.string().optional(),
+  status: z.enum(["active", "archived", "all"]).default("active"),
+});
+
+export const circulationListQuerySchema = listQuerySchema.extend({
+  sortBy: z.enum(["date", "dueDate", "returnDate"]).default("date"),
+  action: z.enum(["borrow", "return"]).optional(),
+  status: z.enum(["active", "returned", "overdue"]).optional(),
+  memberId: z.coerce.number().int().optional(),
+  bookId: z.coerce.number().int().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const auditListQuerySchema = listQuerySchema.extend({
+  sortBy: z.enum(["createdAt"]).default("createdAt"),
+  sortDir: z.enum(["asc", "desc"]).default("desc"),
+  q: z.string().trim().optional(),
+  actorId: z.coerce.number().int().optional(),
+  action: z.string().optional(),
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.string().trim().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
 });
 
+export const noticeListQuerySchema = listQuerySchema.extend({
+  sortBy: z.enum(["createdAt"]).default("createdAt"),
+  sortDir: z.enum(["asc", "desc"]).default("desc"),
+  kind: z.enum(noticeKinds).optional(),
+  channel: z.enum(noticeChannels).optional(),
+  status: z.enum(noticeStatuses).optional(),
+  memberId: z.coerce.number().int().optional(),
+});
+
+// Export endpoints take the list filters plus the file format. `search`
+// exports the ranked catalogue search shown on the home page.
+export const exportFormatSchema = z.enum(["csv", "xlsx", "pdf"]);
+
+export const bookExportQuerySchema = bookListQuerySchema.extend({
+  format: exportFormatSchema.default("csv"),
+  search: z.string().trim().optional(),
+});
+
+export const memberExportQuerySchema = memberListQuerySchema.extend({
+  format: exportFormatSchema.default("csv"),
+});
+
+export const circulationExportQuerySchema = circulationListQuerySchema.extend({
+  format: exportFormatSchema.default("csv"),
+});
+
+// Comma-separated ids in a query string, e.g. "3,8,21"
+const idListSchema = z.string()
+  .regex(/^\d+(,\d+)*$/, "Expected comma-separated ids")
+  .transform((value) => Array.from(new Set(value.split(",").map(Number))))
+  .refine((ids) => ids.length <= 500, "At most 500 ids at a time");
+
+// MARC export of the selected books, or of every book matching the list filters
+export const marcExportQuerySchema = bookListQuerySchema.extend({
+  format: z.enum(["mrc", "xml"]).default("mrc"),
+  bookIds: idListSchema.optional(),
+});
+
+export const symbologySchema = z.enum(["code128", "qr"]);
+export const labelLayoutSchema = z.enum(["a4-3x8", "a4-2x7", "letter-3x10"]);
+
+// Labels on one sheet of each layout
+export const labelsPerSheet: Record<LabelLayout, number> = {
+  "a4-3x8": 24,
+  "a4-2x7": 14,
+  "letter-3x10": 30,
+};
+
+// Book labels are printed per copy; `bookIds` prints every copy of those titles
+export const bookLabelQuerySchema = z.object({
+  bookIds: idListSchema,
+  symbology: symbologySchema.default("code128"),
+  layout: labelLayoutSchema.default("a4-3x8"),
+  skip: z.coerce.number().int().min(0).default(0), // labels already used on the first sheet
+}).refine((query) => query.skip < labelsPerSheet[query.layout], {
+  message: "Skip must be less than the number of labels on a sheet",
+  path: ["skip"],
+});
+
+export const memberCardQuerySchema = z.object({
+  memberIds: idListSchema,
+  symbology: symbologySchema.default("code128"),
+});
+
+export const insertAdminUserSchema = createInsertSchema(adminUsers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const staffAccountSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  fullName: z.string().optional(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(staffRoles),
+});
+
+export const updateStaffAccountSchema = staffAccountSchema
+  .omit({ username: true })
+  .extend({ password: staffAccountSchema.shape.password.optional() })
+  .partial();
+
+export const loginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+// Private-use characters that delimit highlighted words in search results.
+// They cannot occur in catalogue text, so the client can split on them
+// without escaping anything.
+export const SEARCH_HIGHLIGHT_START = "\uE000";
+export const SEARCH_HIGHLIGHT_END = "\uE001";
+
 // Types
 export type Book = typeof books.$inferSelect;
 export type InsertBook = z.infer<typeof insertBookSchema>;
+export type CreateBook = z.input<typeof createBookSchema>;
+export type CoverSize = typeof coverSizes[number];
+export type BookCopy = typeof bookCopies.$inferSelect;
+export type InsertBookCopy = z.infer<typeof insertBookCopySchema>;
+export type BookWithAvailability = Book & { totalCopies: number; availableCopies: number };
+// Search hits carry their relevance and copies of the matched fields with each
+// matching word wrapped in SEARCH_HIGHLIGHT_START / SEARCH_HIGHLIGHT_END
+export type BookSearchResult = BookWithAvailability & {
+  rank: number;
+  highlights: { title: string; author: string; publisher: string; ddc: string; category: string };
+};
+export type ImportedBook = z.infer<typeof importedBookSchema>;
+export type BibliographicRecord = typeof bibliographicRecords.$inferSelect;
+// Result of "fill from ISBN": the local bibliographic record, if any, and
+// books already catalogued with the same ISBN
+export type IsbnLookup = {
+  isbn: string;
+  isbn10: string | null;
+  record: BibliographicRecord | null;
+  existingBooks: { id: number; title: string }[];
+};
+// One spreadsheet row of a catalogue import. `book` is null when the row has
+// errors; `duplicateOf` points at an existing title or an earlier row with
+// the same ISBN, or the same title and author.
+export type BookImportRow = {
+  rowNumber: number;
+  book: ImportedBook | null;
+  errors: string[];
+  duplicateOf: { bookId: number | null; rowNumber: number | null; title: string } | null;
+};
+export type BookImportPreview = { rows: BookImportRow[]; newCategories: string[] };
+export type BookImportResult = { imported: number; skipped: number; categoriesCreated: number };
+export type MemberImportOptions = z.infer<typeof memberImportOptionsSchema>;
+// One roster row. `action` says what importing it would do: `conflict` means
+// the registration number belongs to a member with a different name, which
+// is only overwritten when the import asks to update conflicts.
+export type MemberImportRow = {
+  rowNumber: number;
+  member: InsertMember | null;
+  errors: string[];
+  action: "create" | "update" | "unchanged" | "conflict" | null;
+  existing: Member | null;
+};
+export type MemberImportPreview = { rows: MemberImportRow[]; toArchive: Member[] };
+export type MemberImportResult = { created: number; updated: number; conflictsSkipped: number; archived: number };
 export type Member = typeof members.$inferSelect;
 export type InsertMember = z.infer<typeof insertMemberSchema>;
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type CategoryWithBookCount = Category & { bookCount: number };
+// Catalogue counts for the public Dewey browse tree. `code` is the class or
+// division number, e.g. "800" or "820"; `unclassified` counts books whose
+// DDC does not start with a class number.
+export type DdcNode = { code: string; name: string; count: number };
+export type DdcTree = { classes: (DdcNode & { divisions: DdcNode[] })[]; unclassified: number };
+
+// Archived records. Those with history (loans, reviews, fines, ...) can be
+// restored but not purged.
+export type TrashItem<T> = T & { hasHistory: boolean };
+export type Trash = { books: TrashItem<Book>[]; members: TrashItem<Member>[]; categories: TrashItem<Category>[] };
 export type BookSuggestion = typeof bookSuggestions.$inferSelect;
 export type InsertBookSuggestion = z.infer<typeof insertBookSuggestionSchema>;
 export type BookReview = typeof bookReviews.$inferSelect;
 export type InsertBookReview = z.infer<typeof insertBookReviewSchema>;
 export type Circulation = typeof circulation.$inferSelect;
 export type InsertCirculation = z.infer<typeof insertCirculationSchema>;
+
+export type CirculationWithDetails = Circulation & { book: Book; member: Member };
+
+export type Paginated<T> = { items: T[]; total: number; page: number; pageSize: number };
+export type BookListQuery = z.infer<typeof bookListQuerySchema>;
+export type MemberListQuery = z.infer<typeof memberListQuerySchema>;
+export type CirculationListQuery = z.infer<typeof circulationListQuerySchema>;
+export type AuditListQuery = z.infer<typeof auditListQuerySchema>;
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+export type MarcFormat = z.infer<typeof marcExportQuerySchema>["format"];
+export type Symbology = z.infer<typeof symbologySchema>;
+export type LabelLayout = z.infer<typeof labelLayoutSchema>;
+
+export type IssueBook = z.infer<typeof issueBookSchema>;
+export type ReturnBook = z.infer<typeof returnBookSchema>;
+export type CirculationResult = { circulation: Circulation; book: Book; copy: BookCopy; fine?: Fine };
+export type DeskScan = z.infer<typeof deskScanSchema>;
+export type DeskMemberStatus = { member: Member; activeLoans: number; balance: number; blockedReason: string | null };
+export type DeskScanResult =
+  | ({ kind: "member" } & DeskMemberStatus)
+  | { kind: "issue" | "return"; member: Member; result: CirculationResult }
+  | { kind: "ambiguous"; member: Member; copy: BookCopy; book: Book };
+export type IssuedBook = {
+  circulationId: number;
+  book: Book;
+  copy: BookCopy | null;
+  member: Member;
+  dueDate: Date | null;
+  renewalCount: number;
+};
+export type CirculationRenewal = typeof circulationRenewals.$inferSelect;
+
+export type Reservation = typeof reservations.$inferSelect;
+export type InsertReservation = z.infer<typeof insertReservationSchema>;
+export type ReservationWithDetails = Reservation & { book: Book; member: Member; position: number | null };
+
+export type CirculationPolicy = typeof circulationPolicies.$inferSelect;
+export type InsertCirculationPolicy = z.infer<typeof insertCirculationPolicySchema>;
+export type ResolvedCirculationPolicy = Omit<CirculationPolicy, "id" | "createdAt"> & { id: number | null };
+export type Fine = typeof fines.$inferSelect;
+export type FinePayment = typeof finePayments.$inferSelect;
+export type FineTransaction = z.infer<typeof fineTransactionSchema>;
+export type FineWithDetails = Fine & { book: Book; member: Member };
+export type MemberBalance = { memberId: number; outstanding: number; accruing: number };
+export type LibrarySettings = z.infer<typeof librarySettingsSchema>;
+
+export type NoticeKind = typeof noticeKinds[number];
+export type NoticeChannel = typeof noticeChannels[number];
+export type NoticeStatus = typeof noticeStatuses[number];
+export type NoticeTemplate = typeof noticeTemplates.$inferSelect;
+export type NoticeTemplateInput = z.infer<typeof noticeTemplateSchema>;
+export type Notice = typeof notices.$inferSelect;
+export type NoticeWithDetails = Notice & { member: Member; book: Book };
+export type NoticeListQuery = z.infer<typeof noticeListQuerySchema>;
+// A loan that is due for a reminder, found by the reminder job
+export type DueNotice = { kind: NoticeKind; loan: Circulation; book: Book; copy: BookCopy | null; member: Member };
+export type NoticeRunResult = { generated: number; sent: number; failed: number; skipped: number };
+
+export type NotificationKind = typeof notificationKinds[number];
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = Omit<typeof notifications.$inferInsert, "id" | "readAt" | "createdAt"> & { kind: NotificationKind };
+// The most recent notifications and how many of all visible ones are unread
+export type NotificationFeed = { items: Notification[]; unreadCount: number };
+
+// Pushed to open dashboards over /api/live after a change is committed
+export type LiveEntityType = AuditEntityType | "notification" | "notice";
+export type EntityChangeEvent = { entityTypes: LiveEntityType[] };
+
+export type AuditEntry = typeof auditLog.$inferSelect;
+
+export type AdminUser = typeof adminUsers.$inferSelect;
+export type InsertAdminUser = z.infer<typeof insertAdminUserSchema>;
+export type PublicAdminUser = Omit<AdminUser, "passwordHash">;
+export type PublicMember = Pick<Member, "id" | "fullName" | "class" | "registrationNo">;
+export type StaffAccount = z.infer<typeof staffAccountSchema>;
+export type UpdateStaffAccount = z.infer<typeof updateStaffAccountSchema>;